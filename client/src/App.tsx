@@ -4,41 +4,55 @@ import FormPage from "@/pages/FormPage";
 import AdminPanel from "@/pages/AdminPanel";
 import AdminLoginPage from "@/pages/AdminLoginPage";
 import NotFoundPage from "@/pages/NotFoundPage";
+import ResetPasswordPage from "@/pages/ResetPasswordPage";
+import SetupPage from "@/pages/SetupPage";
+import DonorProfilePage from "@/pages/DonorProfilePage";
 import { useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/context/AuthContext";
+import type { Permission } from "@shared/permissions";
+import type { RecordId } from "@shared/ids";
+
+// Permission required to open each protected route, enforced by the same list as the API
+const routePermissions: Record<string, Permission> = {
+  "/form": "donations:create",
+  "/admin": "users:manage",
+  "/donors": "donations:read:all",
+};
 
 interface User {
-  id: number;
+  id: RecordId;
   username: string;
   fullName: string;
   role: string;
 }
 
 function App() {
-  const { isAuthenticated, user, login, logout } = useAuth();
+  const { isAuthenticated, isLoading, user, login, logout, can } = useAuth();
   const [location, setLocation] = useLocation();
+  const queryClient = useQueryClient();
+  
+  // Until an admin account exists, the app shows the first-run setup screen
+  const { data: setupStatus, isLoading: isLoadingSetup } = useQuery<{ needsSetup: boolean; requiresSetupToken: boolean }>({
+    queryKey: ['/api/setup/status'],
+  });
+  
+  // Function to be passed to the setup page
+  const handleSetupComplete = (adminUser: User) => {
+    login(adminUser);
+    queryClient.setQueryData(['/api/setup/status'], { needsSetup: false, requiresSetupToken: false });
+    setLocation("/admin");
+  };
   
   // Function to be passed to login page
-  const handleLogin: () => void = () => {
-    // When user logs in, set a default user object
-    login({
-      id: 1,
-      username: "staff@example.com",
-      fullName: "Staff User",
-      role: "staff"
-    });
+  const handleLogin = (loggedInUser: User) => {
+    login(loggedInUser);
   };
   
   // Function to be passed to admin login page
-  const handleAdminLogin: () => void = () => {
-    // When admin logs in, set user with admin role
-    login({
-      id: 2,
-      username: "admin@example.com",
-      fullName: "Admin User",
-      role: "admin"
-    });
+  const handleAdminLogin = (adminUser: User) => {
+    login(adminUser);
   };
   
   // Function to be passed to pages that need logout
@@ -49,10 +63,11 @@ function App() {
 
   // Redirect to login if not authenticated
   useEffect(() => {
-    if (!isAuthenticated && location !== "/" && location !== "" && location !== "/admin-login") {
+    if (isLoading) return;
+    if (!isAuthenticated && location !== "/" && location !== "" && location !== "/admin-login" && location !== "/reset-password") {
       setLocation("/");
     }
-  }, [isAuthenticated, location, setLocation]);
+  }, [isAuthenticated, isLoading, location, setLocation]);
 
   // Redirect to form page if authenticated and at login page
   useEffect(() => {
@@ -64,11 +79,20 @@ function App() {
   // Handle admin authentication
   useEffect(() => {
     // If trying to access admin panel without admin authentication
-    const isAdminAuthenticated = user?.role === 'admin';
-    if (location === "/admin" && !isAdminAuthenticated) {
+    if (isLoading) return;
+    if (location === "/admin" && !can(routePermissions["/admin"])) {
       setLocation("/admin-login");
     }
-  }, [user, location, setLocation]);
+  }, [user, isLoading, location, setLocation]);
+
+  // Wait until the server session and setup status have been resolved
+  if (isLoading || isLoadingSetup) {
+    return null;
+  }
+
+  if (setupStatus?.needsSetup) {
+    return <SetupPage requiresSetupToken={setupStatus.requiresSetupToken} onSetupComplete={handleSetupComplete} />;
+  }
 
   // Main routing logic
   return (
@@ -78,7 +102,7 @@ function App() {
       </Route>
       
       <Route path="/form">
-        {isAuthenticated ? <FormPage onLogout={handleLogout} /> : <LoginPage onLoginSuccess={handleLogin} />}
+        {isAuthenticated && can(routePermissions["/form"]) ? <FormPage onLogout={handleLogout} /> : <LoginPage onLoginSuccess={handleLogin} />}
       </Route>
       
       <Route path="/admin-login">
@@ -86,11 +110,21 @@ function App() {
       </Route>
       
       <Route path="/admin">
-        {isAuthenticated && user?.role === 'admin' ? 
+        {isAuthenticated && can(routePermissions["/admin"]) ? 
           <AdminPanel onLogout={handleLogout} /> : 
           (isAuthenticated ? <AdminLoginPage onAdminLoginSuccess={handleAdminLogin} /> : <LoginPage onLoginSuccess={handleLogin} />)}
       </Route>
       
+      <Route path="/donors/:id">
+        {isAuthenticated && can(routePermissions["/donors"]) ?
+          <DonorProfilePage onLogout={handleLogout} /> :
+          (isAuthenticated ? <NotFoundPage /> : <LoginPage onLoginSuccess={handleLogin} />)}
+      </Route>
+      
+      <Route path="/reset-password">
+        <ResetPasswordPage />
+      </Route>
+      
       <Route>
         <NotFoundPage />
       </Route>
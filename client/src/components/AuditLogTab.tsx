@@ -0,0 +1,199 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ChevronDown, ChevronRight, Download, Search } from "lucide-react";
+import { auditActionLabels, auditActions, type AuditAction } from "@shared/auditLog";
+import type { PagedResult } from "@shared/donationQuery";
+
+interface AuditLogEntry {
+  id: number;
+  action: AuditAction;
+  actor: string | null;
+  targetType: string;
+  targetId: string | null;
+  before: unknown;
+  after: unknown;
+  ip: string | null;
+  createdAt: string;
+}
+
+const PAGE_SIZE = 50;
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+function Snapshot({ label, value }: { label: string; value: unknown }) {
+  return (
+    <div className="flex-1 min-w-0">
+      <p className="text-xs font-medium text-gray-500 mb-1">{label}</p>
+      <pre className="text-xs bg-gray-50 rounded p-2 overflow-x-auto whitespace-pre-wrap break-all">
+        {value === null || value === undefined ? "—" : JSON.stringify(value, null, 2)}
+      </pre>
+    </div>
+  );
+}
+
+export default function AuditLogTab() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [action, setAction] = useState<string>("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setSearch(searchInput.trim());
+      setPage(1);
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput]);
+
+  const filterParams = new URLSearchParams();
+  if (search) filterParams.set("search", search);
+  if (action !== "all") filterParams.set("action", action);
+  if (dateFrom) filterParams.set("dateFrom", dateFrom);
+  if (dateTo) filterParams.set("dateTo", dateTo);
+
+  const pageParams = new URLSearchParams(filterParams);
+  pageParams.set("page", String(page));
+  pageParams.set("pageSize", String(PAGE_SIZE));
+
+  const { data, isLoading } = useQuery<PagedResult<AuditLogEntry>>({
+    queryKey: [`/api/audit-log?${pageParams}`],
+  });
+  const entries = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="relative md:col-span-2">
+          <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+          <Input
+            className="pl-8"
+            placeholder="Search by user, target or IP address..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+          />
+        </div>
+        <Select value={action} onValueChange={(value) => { setAction(value); setPage(1); }}>
+          <SelectTrigger>
+            <SelectValue placeholder="Action" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Actions</SelectItem>
+            {auditActions.map(value => (
+              <SelectItem key={value} value={value}>{auditActionLabels[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          aria-label="From date"
+          value={dateFrom}
+          onChange={(e) => { setDateFrom(e.target.value); setPage(1); }}
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={dateTo}
+          onChange={(e) => { setDateTo(e.target.value); setPage(1); }}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button
+          variant="outline"
+          className={total === 0 ? "pointer-events-none opacity-50" : ""}
+          asChild
+        >
+          <a href={`/api/audit-log/export.csv?${filterParams}`} download aria-disabled={total === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Export CSV
+          </a>
+        </Button>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Time</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Target</TableHead>
+              <TableHead>IP Address</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, index) => (
+                <TableRow key={index}>
+                  {Array.from({ length: 6 }).map((_, cellIndex) => (
+                    <TableCell key={cellIndex}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : entries.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No activity found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              entries.map((entry) => (
+                <Fragment key={entry.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                  >
+                    <TableCell>
+                      {expandedId === entry.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                    </TableCell>
+                    <TableCell>{new Date(entry.createdAt).toLocaleString("en-IN")}</TableCell>
+                    <TableCell>{entry.actor || "—"}</TableCell>
+                    <TableCell>{auditActionLabels[entry.action] || entry.action}</TableCell>
+                    <TableCell>{entry.targetType}{entry.targetId && ` #${entry.targetId}`}</TableCell>
+                    <TableCell>{entry.ip || "—"}</TableCell>
+                  </TableRow>
+                  {expandedId === entry.id && (
+                    <TableRow>
+                      <TableCell colSpan={6}>
+                        <div className="flex flex-col md:flex-row gap-4">
+                          <Snapshot label="Before" value={entry.before} />
+                          <Snapshot label="After" value={entry.after} />
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>{total} entr{total === 1 ? "y" : "ies"}</span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            Previous
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+            Next
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,537 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Download } from "lucide-react";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { convertToWords } from "@/lib/numberToWords";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import { cancelDonationSchema, type CancelDonationInput, type DonationFieldChange } from "@shared/schema";
+import type { RecordId } from "@shared/ids";
+import type { Purpose } from "@shared/purposes";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export interface DonationRecord {
+  id: RecordId;
+  donorName: string;
+  contactNumber: string;
+  email: string;
+  panNumber: string | null;
+  amount: number;
+  paymentMode: string;
+  date: string;
+  receiptNumber: string;
+  address: string;
+  amountInWords: string;
+  purpose: string;
+  purposeId?: RecordId | null;
+  drawnOn?: string | null;
+  instrumentDate?: string | null;
+  instrumentNumber?: string | null;
+  createdBy?: string | null;
+  donorId?: RecordId | null;
+  createdAt: string;
+  revisedAt?: string | null;
+  revisedBy?: string | null;
+  cancelledAt?: string | null;
+  cancelledBy?: string | null;
+  cancellationReason?: string | null;
+  replacementDonationId?: RecordId | null;
+}
+
+interface DonationRevision {
+  id: RecordId;
+  changedBy: string;
+  changedAt: string;
+  reason: string | null;
+  changes: DonationFieldChange[];
+}
+
+const fieldLabels: Record<string, string> = {
+  date: "Date",
+  donorName: "Donor Name",
+  contactNumber: "Contact Number",
+  address: "Address",
+  email: "Email",
+  panNumber: "PAN Number",
+  paymentMode: "Mode of Payment",
+  amount: "Amount",
+  amountInWords: "Amount in Words",
+  purpose: "Purpose",
+  purposeId: "Catalog Purpose",
+  instrumentDate: "Cheque/D.D./Txn Date",
+  drawnOn: "Drawn On",
+  instrumentNumber: "Cheque/D.D./Txn No.",
+};
+
+const formSchema = z.object({
+  date: z.string().min(1, "Date is required"),
+  donorName: z.string().min(1, "Donor name is required"),
+  contactNumber: z.string().min(10, "Contact number must be at least 10 digits"),
+  address: z.string().min(1, "Address is required"),
+  email: z.string().email("Invalid email address"),
+  panNumber: z.string().optional(),
+  paymentMode: z.enum(["cash", "online", "dd", "cheque"]),
+  amount: z.coerce.number().positive("Amount must be positive"),
+  amountInWords: z.string().min(1, "Amount in words is required"),
+  purpose: z.string().min(1, "Purpose is required"),
+  purposeId: z.string().optional(),
+  instrumentDate: z.string().optional(),
+  drawnOn: z.string().optional(),
+  instrumentNumber: z.string().optional(),
+  reason: z.string().max(500).optional(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+// Plain text fields of the edit form, in display order
+const textFields: { name: keyof FormValues; type?: string }[] = [
+  { name: "date", type: "date" },
+  { name: "donorName" },
+  { name: "contactNumber" },
+  { name: "email", type: "email" },
+  { name: "panNumber" },
+  { name: "purpose" },
+  { name: "amount", type: "number" },
+  { name: "amountInWords" },
+  { name: "instrumentNumber" },
+  { name: "instrumentDate", type: "date" },
+  { name: "drawnOn" },
+];
+
+function toFormValues(donation: DonationRecord): FormValues {
+  return {
+    date: donation.date,
+    donorName: donation.donorName,
+    contactNumber: donation.contactNumber,
+    address: donation.address,
+    email: donation.email,
+    panNumber: donation.panNumber || "",
+    paymentMode: donation.paymentMode as FormValues["paymentMode"],
+    amount: donation.amount,
+    amountInWords: donation.amountInWords,
+    purpose: donation.purpose,
+    purposeId: donation.purposeId || "",
+    instrumentDate: donation.instrumentDate || "",
+    drawnOn: donation.drawnOn || "",
+    instrumentNumber: donation.instrumentNumber || "",
+    reason: "",
+  };
+}
+
+function formatValue(value: string | number | null): string {
+  return value === null || value === "" ? "(empty)" : String(value);
+}
+
+interface DonationDetailDialogProps {
+  donation: DonationRecord | null;
+  onClose: () => void;
+}
+
+export default function DonationDetailDialog({ donation, onClose }: DonationDetailDialogProps) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [mode, setMode] = useState<"view" | "edit" | "cancel">("view");
+  // The dialog shows the saved copy after an edit, before the list has refetched
+  const [current, setCurrent] = useState<DonationRecord | null>(donation);
+
+  useEffect(() => {
+    setCurrent(donation);
+    setMode("view");
+  }, [donation]);
+
+  const { data: revisions = [], isLoading: isLoadingRevisions } = useQuery<DonationRevision[]>({
+    queryKey: [`/api/donations/${current?.id}/revisions`],
+    enabled: current !== null,
+  });
+
+  // The replacement is shown by receipt number, so look it up when there is one
+  const { data: replacement } = useQuery<DonationRecord>({
+    queryKey: [`/api/donations/${current?.replacementDonationId}`],
+    enabled: Boolean(current?.replacementDonationId),
+  });
+
+  // Corrections may pick any catalog purpose, including ones no longer open
+  const { data: purposes = [] } = useQuery<Purpose[]>({
+    queryKey: ['/api/purposes'],
+  });
+
+  // Catalog purposes are recorded by id, so history shows their names instead
+  function formatChange(field: string, value: string | number | null): string {
+    return formatValue(field === "purposeId" ? purposes.find(purpose => purpose.id === value)?.name ?? value : value);
+  }
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+  });
+
+  const cancelForm = useForm<CancelDonationInput>({
+    resolver: zodResolver(cancelDonationSchema),
+    defaultValues: {
+      reason: "",
+      replacementReceiptNumber: "",
+    },
+  });
+
+  // Keep the amount in words in step with the amount, as on the donation form
+  useEffect(() => {
+    const subscription = form.watch((value, { name }) => {
+      if (name === "amount" && value.amount && typeof value.amount === "number" && value.amount > 0) {
+        form.setValue("amountInWords", convertToWords(value.amount) + " Rupees Only");
+      }
+    });
+    return () => subscription.unsubscribe();
+  }, [form]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (values: FormValues) => {
+      const response = await apiRequest("PATCH", `/api/donations/${current!.id}`, values);
+      return response.json();
+    },
+    onSuccess: (updated: DonationRecord) => {
+      toast({
+        title: "Donation updated",
+        description: `Receipt ${updated.receiptNumber} has been revised.`,
+      });
+      setCurrent(updated);
+      setMode("view");
+      invalidateQueriesByPrefix('/api/donations');
+      invalidateQueriesByPrefix('/api/donors');
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update donation",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (values: CancelDonationInput) => {
+      const response = await apiRequest("POST", `/api/donations/${current!.id}/cancel`, {
+        reason: values.reason,
+        replacementReceiptNumber: values.replacementReceiptNumber || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (cancelled: DonationRecord) => {
+      toast({
+        title: "Receipt cancelled",
+        description: `Receipt ${cancelled.receiptNumber} is now void. Its number will not be reused.`,
+      });
+      setCurrent(cancelled);
+      setMode("view");
+      invalidateQueriesByPrefix('/api/donations');
+      invalidateQueriesByPrefix('/api/donors');
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to cancel receipt",
+      });
+    },
+  });
+
+  const startEditing = () => {
+    if (!current) return;
+    form.reset(toFormValues(current));
+    setMode("edit");
+  };
+
+  const startCancelling = () => {
+    cancelForm.reset({ reason: "", replacementReceiptNumber: "" });
+    setMode("cancel");
+  };
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setMode("view");
+      onClose();
+    }
+  };
+
+  return (
+    <Dialog open={current !== null} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="donation-detail-description">
+        <DialogHeader>
+          <DialogTitle className="text-xl flex items-center gap-2">
+            Receipt {current?.receiptNumber}
+            {current?.revisedAt && <Badge variant="secondary">Revised</Badge>}
+            {current?.cancelledAt && <Badge variant="destructive">Cancelled</Badge>}
+          </DialogTitle>
+          <DialogDescription id="donation-detail-description">
+            {mode === "edit"
+              ? "Correct the donation details. The receipt number stays the same and the change is kept in the history."
+              : mode === "cancel"
+                ? "The receipt will be marked as cancelled and left out of totals and tax statements. Its number is not reused."
+                : `Recorded on ${current ? new Date(current.createdAt).toLocaleString("en-IN") : ""}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {current && mode === "view" && (
+          <div className="space-y-6">
+            {current.cancelledAt && (
+              <div className="rounded-md border border-red-200 bg-red-50 p-3 text-sm text-red-800">
+                <p className="font-medium">
+                  Cancelled on {new Date(current.cancelledAt).toLocaleString("en-IN")}
+                  {current.cancelledBy && ` by ${current.cancelledBy}`}
+                </p>
+                <p>Reason: {current.cancellationReason}</p>
+                {current.replacementDonationId && (
+                  <p>Replaced by receipt {replacement?.receiptNumber ?? "…"}</p>
+                )}
+              </div>
+            )}
+
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2 text-sm">
+              {Object.entries(fieldLabels).map(([field, label]) => (
+                <div key={field}>
+                  <dt className="text-gray-500">{label}</dt>
+                  <dd className="font-medium break-words">
+                    {formatValue((current[field as keyof DonationRecord] ?? null) as string | number | null)}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            <div>
+              <h3 className="font-semibold mb-2">Revision History</h3>
+              {isLoadingRevisions ? (
+                <Skeleton className="h-12 w-full" />
+              ) : revisions.length === 0 ? (
+                <p className="text-sm text-gray-500">This donation has not been edited.</p>
+              ) : (
+                <ol className="space-y-3">
+                  {revisions.map((revision) => (
+                    <li key={revision.id} className="rounded-md border p-3 text-sm">
+                      <p className="font-medium">
+                        {new Date(revision.changedAt).toLocaleString("en-IN")} by {revision.changedBy}
+                      </p>
+                      {revision.reason && <p className="text-gray-600">Reason: {revision.reason}</p>}
+                      <ul className="mt-1 space-y-1">
+                        {revision.changes.map((change) => (
+                          <li key={change.field}>
+                            <span className="text-gray-500">{fieldLabels[change.field] || change.field}:</span>{" "}
+                            <span className="line-through text-red-700">{formatChange(change.field, change.oldValue)}</span>{" "}
+                            → <span className="text-green-700">{formatChange(change.field, change.newValue)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" asChild>
+                <a href={`/api/donations/${current.id}/receipt.pdf`} download>
+                  <Download className="mr-2 h-4 w-4" />
+                  Download Receipt
+                </a>
+              </Button>
+              {!current.cancelledAt && can("donations:cancel") && (
+                <Button variant="destructive" onClick={startCancelling}>Cancel Receipt</Button>
+              )}
+              {!current.cancelledAt && can("donations:edit") && (
+                <Button onClick={startEditing}>Edit Donation</Button>
+              )}
+            </DialogFooter>
+          </div>
+        )}
+
+        {current && mode === "cancel" && (
+          <Form {...cancelForm}>
+            <form onSubmit={cancelForm.handleSubmit((values) => cancelMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={cancelForm.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason for Cancelling</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={2} placeholder="e.g. Issued to the wrong donor" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={cancelForm.control}
+                name="replacementReceiptNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Replacement Receipt No. (optional)</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} placeholder="Receipt issued in place of this one" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setMode("view")}>
+                  Back
+                </Button>
+                <Button type="submit" variant="destructive" disabled={cancelMutation.isPending}>
+                  {cancelMutation.isPending ? "Cancelling..." : "Cancel Receipt"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+
+        {current && mode === "edit" && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => updateMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {textFields.map(({ name, type }) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{fieldLabels[name]}</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ""} type={type} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+
+                <FormField
+                  control={form.control}
+                  name="paymentMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Mode of Payment</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select payment mode" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="cash">Cash</SelectItem>
+                          <SelectItem value="online">Online</SelectItem>
+                          <SelectItem value="dd">D.D</SelectItem>
+                          <SelectItem value="cheque">Cheque</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {purposes.length > 0 && (
+                  <FormField
+                    control={form.control}
+                    name="purposeId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{fieldLabels.purposeId}</FormLabel>
+                        <Select
+                          value={field.value || ""}
+                          onValueChange={(id) => {
+                            field.onChange(id);
+                            form.setValue("purpose", purposes.find(purpose => purpose.id === id)?.name ?? "");
+                          }}
+                        >
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Not linked to the catalog" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {purposes.map(purpose => (
+                              <SelectItem key={purpose.id} value={purpose.id}>{purpose.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="address"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={2} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="reason"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reason for Change</FormLabel>
+                    <FormControl>
+                      <Input {...field} value={field.value ?? ""} placeholder="e.g. Donor's PAN was entered incorrectly" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setMode("view")}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={updateMutation.isPending}>
+                  {updateMutation.isPending ? "Saving..." : "Save Changes"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,13 +3,20 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
 import { convertToWords } from "@/lib/numberToWords";
-import { generatePdf } from "@/lib/pdfGenerator";
-import { sendEmail as sendEmailService } from "../lib/emailService"; // Import with alias to avoid conflict
+import type { SubmittedReceipt } from "@/components/SubmissionModal";
+import DonorLookup, { type DonorSearchResult } from "@/components/DonorLookup";
 import anantamanLogo from "../assets/Anant-Aman_Logo-1.png";
 import { useAuth } from "@/context/AuthContext";
+import {
+  defaultOrganizationSettings,
+  donorPanError,
+  isPanRequired,
+  type OrganizationSettings,
+} from "@shared/organization";
+import { donationPurposeError, isPurposeActive, type Purpose } from "@shared/purposes";
 
 import {
   Form,
@@ -31,7 +38,6 @@ import {
 } from "@/components/ui/select";
 
 const formSchema = z.object({
-  receiptNumber: z.string().min(1, "Receipt number is required"),
   date: z.string().min(1, "Date is required"),
   donorName: z.string().min(1, "Donor name is required"),
   contactNumber: z.string().min(10, "Contact number must be at least 10 digits"),
@@ -42,6 +48,8 @@ const formSchema = z.object({
   amount: z.coerce.number().positive("Amount must be positive"),
   amountInWords: z.string().min(1, "Amount in words is required"),
   purpose: z.string().min(1, "Purpose is required"),
+  // Catalog entry picked from the list; empty when the purpose is typed in
+  purposeId: z.string().optional(),
   instrumentDate: z.string().optional(),
   drawnOn: z.string().optional(),
   instrumentNumber: z.string().optional(),
@@ -51,41 +59,29 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 interface DonationFormProps {
-  onSubmissionSuccess: (email: string) => void;
+  onSubmissionSuccess: (receipt: SubmittedReceipt) => void;
 }
 
 export default function DonationForm({ onSubmissionSuccess }: DonationFormProps) {
   const { toast } = useToast();
-  const queryClient = useQueryClient();
   const { user } = useAuth();
   const [showInstrumentFields, setShowInstrumentFields] = useState(false);
+  // Repeat donor picked from the lookup, shown with their giving history
+  const [selectedDonor, setSelectedDonor] = useState<DonorSearchResult | null>(null);
 
-  // Fetch the next receipt number
-  const { data: receiptData, isLoading: isLoadingReceipt, refetch: refetchReceiptNumber } = useQuery<{ receiptNumber: string }>({
-    queryKey: ['/api/next-receipt-number'],
-    queryFn: async (): Promise<{ receiptNumber: string }> => {
-      try {
-        console.log('Fetching next receipt number...');
-        const response = await fetch('/api/next-receipt-number');
-        if (!response.ok) {
-          throw new Error('Failed to fetch receipt number');
-        }
-        const data = await response.json();
-        console.log('Received receipt number:', data.receiptNumber);
-        return { receiptNumber: data.receiptNumber };
-      } catch (error) {
-        console.error('Error fetching receipt number:', error);
-        throw error;
-      }
-    },
-    // Don't cache the receipt number to ensure we always get a fresh one
-    staleTime: 0
+  // Organisation profile printed on the receipt and used for the PAN rule
+  const { data: organization = defaultOrganizationSettings } = useQuery<OrganizationSettings>({
+    queryKey: ['/api/settings/organization'],
+  });
+
+  // Causes and campaigns the donation can be entered for
+  const { data: purposes = [] } = useQuery<Purpose[]>({
+    queryKey: ['/api/purposes'],
   });
 
   const form = useForm<FormValues>({
     resolver: zodResolver(formSchema),
     defaultValues: {
-      receiptNumber: "",
       date: new Date().toISOString().split('T')[0],
       donorName: "",
       contactNumber: "",
@@ -96,6 +92,7 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
       amount: 0,
       amountInWords: "",
       purpose: "",
+      purposeId: "",
       instrumentDate: "",
       drawnOn: "",
       instrumentNumber: "",
@@ -103,16 +100,18 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
     },
   });
 
-  // Update the receipt number when data is loaded
-  useEffect(() => {
-    if (receiptData?.receiptNumber) {
-      form.setValue("receiptNumber", receiptData.receiptNumber);
-    }
-  }, [receiptData, form]);
-
   // Update amount in words when amount changes
   useEffect(() => {
     const subscription = form.watch((value, { name }) => {
+      // A purpose picked for one date may not be open on the new one
+      if (name === "date" && value.purposeId) {
+        const purpose = purposes.find(p => p.id === value.purposeId);
+        if (!purpose || !isPurposeActive(purpose, value.date || "")) {
+          form.setValue("purposeId", "");
+          form.setValue("purpose", "");
+        }
+      }
+
       if (name === "amount") {
         const amount = value.amount;
         if (amount && typeof amount === 'number' && amount > 0) {
@@ -142,7 +141,7 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
     });
 
     return () => subscription.unsubscribe();
-  }, [form, toast]);
+  }, [form, toast, purposes]);
 
   // Handle form submission
   const submitMutation = useMutation({
@@ -151,65 +150,59 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
       // Add the current user's username to the donation data
       const donationData = {
         ...values,
+        purposeId: values.purposeId || null,
         createdBy: user ? user.username : "unknown"
       };
       const response = await apiRequest("POST", "/api/donations", donationData);
       return response.json();
     },
-    onSuccess: async (data, variables) => {
-      try {
-        console.log('Form submitted successfully, donation created:', data);
-        
-        // Generate PDF
-        const pdfBlob = await generatePdf(variables);
-
-        // Send email with PDF
-        await sendEmail(variables.email, pdfBlob);
+    onSuccess: async (data) => {
+      console.log('Form submitted successfully, donation created:', data);
+
+      // Refresh donation lists so the new receipt shows up
+      invalidateQueriesByPrefix('/api/donations');
+      invalidateQueriesByPrefix('/api/donors');
+
+      // Reset form for the next donation
+      setSelectedDonor(null);
+      form.reset({
+        date: new Date().toISOString().split('T')[0],
+        donorName: "",
+        contactNumber: "",
+        address: "",
+        email: "",
+        panNumber: "",
+        paymentMode: "cash",
+        amount: 0,
+        amountInWords: "",
+        purpose: "",
+        purposeId: "",
+        instrumentDate: "",
+        drawnOn: "",
+        instrumentNumber: "",
+        submittedBy: user ? user.username : "unknown",
+      });
 
-        // Show success message
+      // The server renders the receipt from the saved donation and emails it
+      let emailSent = true;
+      try {
+        await apiRequest("POST", `/api/donations/${data.id}/send-email`, undefined, 30000);
         toast({
           title: "Success!",
-          description: "Receipt has been generated and sent to the donor's email.",
-        });
-
-        // Explicitly invalidate the receipt number query to force a refetch
-        queryClient.invalidateQueries({ queryKey: ['/api/next-receipt-number'] });
-        
-        // Refetch the receipt number to get the next one
-        console.log('Refetching receipt number...');
-        const newReceiptData = await refetchReceiptNumber();
-        const newReceiptNumber = newReceiptData.data?.receiptNumber || '';
-        console.log('New receipt number:', newReceiptNumber);
-
-        // Reset form with the new receipt number
-        form.reset({
-          receiptNumber: newReceiptNumber,
-          date: new Date().toISOString().split('T')[0],
-          donorName: "",
-          contactNumber: "",
-          address: "",
-          email: "",
-          panNumber: "",
-          paymentMode: "cash",
-          amount: 0,
-          amountInWords: "",
-          purpose: "",
-          instrumentDate: "",
-          drawnOn: "",
-          instrumentNumber: "",
-          submittedBy: user ? user.username : "unknown",
+          description: `Receipt ${data.receiptNumber} has been generated and sent to the donor's email.`,
         });
-
-        // Notify parent component of successful submission
-        onSubmissionSuccess(variables.email);
       } catch (error) {
-        console.error('Error after form submission:', error);
+        console.error('Error sending receipt email:', error);
+        emailSent = false;
         toast({
           variant: "destructive",
           title: "Error",
-          description: "Failed to generate or send receipt. Please try again.",
+          description: `Receipt ${data.receiptNumber} was saved but could not be emailed. Please download it instead.`,
         });
       }
+
+      // Notify parent component of successful submission
+      onSubmissionSuccess({ id: data.id, receiptNumber: data.receiptNumber, email: data.email, emailSent });
     },
     onError: (error) => {
       toast({
@@ -220,10 +213,34 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
     },
   });
 
+  // Fill the donor's details from their most recent receipt
+  function handleDonorSelect(donor: DonorSearchResult) {
+    setSelectedDonor(donor);
+    form.setValue("donorName", donor.name, { shouldValidate: true });
+    form.setValue("contactNumber", donor.contactNumber, { shouldValidate: true });
+    form.setValue("address", donor.address, { shouldValidate: true });
+    form.setValue("email", donor.email, { shouldValidate: true });
+    form.setValue("panNumber", donor.panNumber || "", { shouldValidate: true });
+  }
+
   function onSubmit(values: FormValues) {
+    const panError = donorPanError(organization, values.amount, values.panNumber);
+    if (panError) {
+      form.setError("panNumber", { message: panError });
+      return;
+    }
+    const purposeError = donationPurposeError(purposes, values.date, values.purposeId);
+    if (purposeError) {
+      form.setError("purpose", { message: purposeError });
+      return;
+    }
     submitMutation.mutate(values);
   }
 
+  const panRequired = isPanRequired(organization, form.watch("amount") || 0);
+  // Free text is only offered while the catalog has nothing open on the donation date
+  const openPurposes = purposes.filter(purpose => isPurposeActive(purpose, form.watch("date")));
+
   return (
     <>
      <div className="container mx-auto max-w-8xl">
@@ -237,40 +254,39 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
         </div>
         
         <div className="text-right">
+          {organization.registrationNumber && (
+            <p className="text-sm">
+              Reg. No. - {organization.registrationNumber}
+            </p>
+          )}
           <p className="text-sm">
-            Reg. No. - 03/27/03/16480/13
-          </p>
-          <p className="text-sm">
-            Reg. Address: 9, Naresh Apartment, Sadhu Vaswani Nagar, Indore
-          </p>
-          <p className="text-sm">
-            (M.P.) 452 001
-          </p>
-          <p className="text-sm">
-            Mob. 777-199-7475
-          </p>
-          <p className="text-sm text-blue-700">
-            E-mail: anantaman.sws@gmail.com
+            Reg. Address: {organization.address}
           </p>
+          {organization.phone && (
+            <p className="text-sm">
+              Mob. {organization.phone}
+            </p>
+          )}
+          {organization.email && (
+            <p className="text-sm text-blue-700">
+              E-mail: {organization.email}
+            </p>
+          )}
+          {organization.registration80G && (
+            <p className="text-sm">
+              80G URN: {organization.registration80G}
+            </p>
+          )}
         </div>
       </div>
     </div>
     <Form {...form}>
       <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-          <FormField
-            control={form.control}
-            name="receiptNumber"
-            render={({ field }) => (
-              <FormItem>
-                <FormLabel>Receipt Number</FormLabel>
-                <FormControl>
-                  <Input {...field} disabled className="bg-gray-100" />
-                </FormControl>
-                <FormMessage />
-              </FormItem>
-            )}
-          />
+          <FormItem>
+            <FormLabel>Receipt Number</FormLabel>
+            <Input value="Assigned on save" disabled className="bg-gray-100" />
+          </FormItem>
 
           <FormField
             control={form.control}
@@ -294,8 +310,25 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
               <FormItem>
                 <FormLabel>Donor Name</FormLabel>
                 <FormControl>
-                  <Input {...field} placeholder="Enter donor's full name" />
+                  <DonorLookup
+                    ref={field.ref}
+                    value={field.value}
+                    onBlur={field.onBlur}
+                    onChange={(value) => {
+                      field.onChange(value);
+                      if (selectedDonor && value !== selectedDonor.name) setSelectedDonor(null);
+                    }}
+                    onSelect={handleDonorSelect}
+                    placeholder="Enter donor's full name, or search by phone, email or PAN"
+                  />
                 </FormControl>
+                {selectedDonor && (
+                  <p className="text-sm text-green-700">
+                    Repeat donor: {selectedDonor.donationCount} previous donation{selectedDonor.donationCount === 1 ? "" : "s"}
+                    {selectedDonor.lastDonationDate &&
+                      `, last gift on ${new Date(selectedDonor.lastDonationDate).toLocaleDateString("en-IN")}`}
+                  </p>
+                )}
                 <FormMessage />
               </FormItem>
             )}
@@ -351,9 +384,12 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
             name="panNumber"
             render={({ field }) => (
               <FormItem>
-                <FormLabel>PAN Number</FormLabel>
+                <FormLabel>PAN Number{panRequired && " *"}</FormLabel>
                 <FormControl>
-                  <Input {...field} placeholder="Enter PAN number" />
+                  <Input
+                    {...field}
+                    placeholder={panRequired ? `Required for donations above ₹${organization.panRequiredAbove}` : "Enter PAN number"}
+                  />
                 </FormControl>
                 <FormMessage />
               </FormItem>
@@ -396,9 +432,32 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
           render={({ field }) => (
             <FormItem>
               <FormLabel>Purpose</FormLabel>
-              <FormControl>
-                <Input {...field} placeholder="Enter purpose of donation" />
-              </FormControl>
+              {openPurposes.length > 0 ? (
+                <Select
+                  value={form.watch("purposeId") || ""}
+                  onValueChange={(id) => {
+                    form.setValue("purposeId", id);
+                    field.onChange(openPurposes.find(purpose => purpose.id === id)?.name ?? "");
+                  }}
+                >
+                  <FormControl>
+                    <SelectTrigger ref={field.ref}>
+                      <SelectValue placeholder="Select purpose of donation" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {openPurposes.map(purpose => (
+                      <SelectItem key={purpose.id} value={purpose.id}>
+                        {purpose.name}{!purpose.eligible80G && " (not eligible under 80G)"}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              ) : (
+                <FormControl>
+                  <Input {...field} placeholder="Enter purpose of donation" />
+                </FormControl>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -515,7 +574,7 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
         <div className="mt-4">
           <Button 
             type="submit" 
-            disabled={submitMutation.isPending || isLoadingReceipt}
+            disabled={submitMutation.isPending}
           >
             {submitMutation.isPending ? "Submitting..." : "Submit"}
           </Button>
@@ -525,13 +584,3 @@ export default function DonationForm({ onSubmissionSuccess }: DonationFormProps)
     </>
   );
 }
-
-const sendEmail = async (email: string, pdfBlob: Blob) => {
-    try {
-        // Use our updated email service that uses Nodemailer on the server
-        await sendEmailService(email, pdfBlob);
-    } catch (error) {
-        console.error("Failed to send email:", error);
-        throw error; // Re-throw the error to be handled by the calling function.
-    }
-};
\ No newline at end of file
@@ -1,95 +1,123 @@
-import { useState, useMemo } from "react";
+import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Search, Download } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Search, Download, ArrowUp, ArrowDown } from "lucide-react";
 import * as XLSX from 'xlsx';
+import { apiRequest } from "@/lib/queryClient";
+import DonationDetailDialog, { type DonationRecord } from "@/components/DonationDetailDialog";
+import { UNASSIGNED_CREATOR, type DonationSortField, type PagedResult } from "@shared/donationQuery";
+import type { RecordId } from "@shared/ids";
 
 interface User {
-  id: number;
+  id: RecordId;
   username: string;
   fullName: string;
   role: string;
   isActive: boolean;
 }
 
-interface Donation {
-  id: number;
-  donorName: string;
-  contactNumber: string;
-  email: string;
-  panNumber: string;
-  amount: number;
+type Donation = DonationRecord;
+
+const PAGE_SIZE = 25;
+// Largest page the API returns, used when exporting every matching row
+const EXPORT_PAGE_SIZE = 100;
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+interface Filters {
+  search: string;
+  createdBy: string;
   paymentMode: string;
-  date: string;
-  receiptNumber: string;
-  address: string;
-  amountInWords: string;
   purpose: string;
-  drawnOn?: string;
-  instrumentDate?: string | null;
-  instrumentNumber?: string | null;
-  createdBy?: string | null;
-  createdAt: string;
+  dateFrom: string;
+  dateTo: string;
+  amountMin: string;
+  amountMax: string;
+  status: string;
 }
 
+const emptyFilters: Filters = {
+  search: "",
+  createdBy: "",
+  paymentMode: "",
+  purpose: "",
+  dateFrom: "",
+  dateTo: "",
+  amountMin: "",
+  amountMax: "",
+  status: "",
+};
+
 export default function DonorListTab() {
-  const [selectedUser, setSelectedUser] = useState<string>("");
-  const [searchQuery, setSearchQuery] = useState<string>("");
-  
-  // Fetch all donations
-  const { data: donations = [], isLoading: isLoadingDonations } = useQuery<Donation[]>({
-    queryKey: ['/api/donations'],
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [searchInput, setSearchInput] = useState<string>("");
+  const [page, setPage] = useState(1);
+  const [sortBy, setSortBy] = useState<DonationSortField>("date");
+  const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
+  const [isExporting, setIsExporting] = useState(false);
+  const [selectedDonation, setSelectedDonation] = useState<Donation | null>(null);
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => updateFilter("search", searchInput.trim()), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [searchInput]);
+
+  // Any change of filter starts again from the first page
+  const updateFilter = (name: keyof Filters, value: string) => {
+    setFilters(current => current[name] === value ? current : { ...current, [name]: value });
+    setPage(1);
+  };
+
+  const buildParams = (pageNumber: number, pageSize: number) => {
+    const params = new URLSearchParams({
+      page: String(pageNumber),
+      pageSize: String(pageSize),
+      sortBy,
+      sortOrder,
+    });
+    Object.entries(filters).forEach(([name, value]) => {
+      if (value && value !== "all") params.set(name, value);
+    });
+    return params;
+  };
+
+  // Fetch the current page of donations
+  const { data, isLoading: isLoadingDonations } = useQuery<PagedResult<Donation>>({
+    queryKey: [`/api/donations?${buildParams(page, PAGE_SIZE)}`],
   });
+  const donations = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
 
   // Fetch all users
   const { data: users = [], isLoading: isLoadingUsers } = useQuery<User[]>({
     queryKey: ['/api/users'],
   });
 
-  // Filter donations based on selected user and search query
-  const filteredDonations = useMemo(() => {
-    // For debugging
-    if (selectedUser && selectedUser !== 'all') {
-      console.log("Filtering for user:", selectedUser);
+  const handleSort = (field: DonationSortField) => {
+    if (sortBy === field) {
+      setSortOrder(sortOrder === "asc" ? "desc" : "asc");
+    } else {
+      setSortBy(field);
+      setSortOrder(field === "date" || field === "amount" ? "desc" : "asc");
     }
-    
-    return donations.filter((donation) => {
-      // Match by selected user (using username for exact matching)
-      let matchesUser = selectedUser === 'all' || !selectedUser;
-      
-      if (!matchesUser && selectedUser) {
-        // Try exact match first
-        if (donation.createdBy === selectedUser) {
-          matchesUser = true;
-        } 
-        // If no exact match, try case-insensitive match
-        else if (donation.createdBy && selectedUser && 
-                donation.createdBy.toLowerCase() === selectedUser.toLowerCase()) {
-          matchesUser = true;
-        }
-        // If still no match and createdBy is empty/null, check if we're filtering for "System"
-        else if ((!donation.createdBy || donation.createdBy === "") && selectedUser === "system") {
-          matchesUser = true;
-        }
-      }
-        
-      // Match by search query (across all text fields)
-      const matchesSearch = searchQuery
-        ? Object.values(donation).some(
-            value => 
-              value && 
-              typeof value === 'string' && 
-              value.toLowerCase().includes(searchQuery.toLowerCase())
-          )
-        : true;
-      
-      return matchesUser && matchesSearch;
-    });
-  }, [donations, selectedUser, searchQuery, users]);
+    setPage(1);
+  };
+
+  const SortableHead = ({ field, label }: { field: DonationSortField; label: string }) => (
+    <TableHead>
+      <button type="button" className="flex items-center gap-1 hover:text-gray-900" onClick={() => handleSort(field)}>
+        {label}
+        {sortBy === field && (sortOrder === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </TableHead>
+  );
 
   // Get user full name from username
   const getUserFullName = (username: string | null | undefined): string => {
@@ -98,40 +126,51 @@ export default function DonorListTab() {
     return user ? user.fullName : username;
   };
 
-  // Export data to Excel
-  const handleExport = () => {
-    const dataToExport = filteredDonations.map(donation => ({
-      'Receipt Number': donation.receiptNumber,
-      'Donor Name': donation.donorName,
-      'Date': donation.date,
-      'Address': donation.address,
-      'Contact Number': donation.contactNumber,
-      'Email': donation.email,
-      'PAN Number': donation.panNumber,
-      'Amount': donation.amount,
-      'Amount in Words': donation.amountInWords,
-      'Payment Mode': donation.paymentMode,
-      'Purpose': donation.purpose,
-      'Bank/Drawn On': donation.drawnOn || 'N/A',
-      'Instrument Date': donation.instrumentDate || 'N/A',
-      'Instrument Number': donation.instrumentNumber || 'N/A',
-      'Created By': getUserFullName(donation.createdBy),
-    }));
-    
-    const worksheet = XLSX.utils.json_to_sheet(dataToExport);
-    const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Donations');
-    
-    // Set column widths
-    const maxWidth = 20;
-    const colWidth = Object.keys(dataToExport[0] || {}).reduce((acc, key) => {
-      acc[key] = { width: maxWidth };
-      return acc;
-    }, {} as { [key: string]: { width: number } });
-    worksheet['!cols'] = Object.keys(dataToExport[0] || {}).map(() => ({ width: maxWidth }));
-    
-    // Generate & download the Excel file
-    XLSX.writeFile(workbook, 'donations.xlsx');
+  // Export every donation matching the filters to Excel, fetching them page by page
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const allDonations: Donation[] = [];
+      for (let pageNumber = 1; ; pageNumber++) {
+        const response = await apiRequest("GET", `/api/donations?${buildParams(pageNumber, EXPORT_PAGE_SIZE)}`, undefined, 30000);
+        const result: PagedResult<Donation> = await response.json();
+        allDonations.push(...result.items);
+        if (allDonations.length >= result.total || result.items.length === 0) break;
+      }
+
+      const dataToExport = allDonations.map(donation => ({
+        'Receipt Number': donation.receiptNumber,
+        'Donor Name': donation.donorName,
+        'Date': donation.date,
+        'Address': donation.address,
+        'Contact Number': donation.contactNumber,
+        'Email': donation.email,
+        'PAN Number': donation.panNumber,
+        'Amount': donation.amount,
+        'Amount in Words': donation.amountInWords,
+        'Payment Mode': donation.paymentMode,
+        'Purpose': donation.purpose,
+        'Bank/Drawn On': donation.drawnOn || 'N/A',
+        'Instrument Date': donation.instrumentDate || 'N/A',
+        'Instrument Number': donation.instrumentNumber || 'N/A',
+        'Created By': getUserFullName(donation.createdBy),
+        'Status': donation.cancelledAt ? 'Cancelled' : 'Active',
+        'Cancellation Reason': donation.cancellationReason || '',
+      }));
+
+      const worksheet = XLSX.utils.json_to_sheet(dataToExport);
+      const workbook = XLSX.utils.book_new();
+      XLSX.utils.book_append_sheet(workbook, worksheet, 'Donations');
+
+      // Set column widths
+      const maxWidth = 20;
+      worksheet['!cols'] = Object.keys(dataToExport[0] || {}).map(() => ({ width: maxWidth }));
+
+      // Generate & download the Excel file
+      XLSX.writeFile(workbook, 'donations.xlsx');
+    } finally {
+      setIsExporting(false);
+    }
   };
 
   return (
@@ -143,20 +182,20 @@ export default function DonorListTab() {
             <Input
               className="pl-8"
               placeholder="Search donations..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
             />
           </div>
         </div>
         
         <div className="w-full sm:w-auto flex-1">
-          <Select value={selectedUser} onValueChange={setSelectedUser}>
+          <Select value={filters.createdBy || "all"} onValueChange={(value) => updateFilter("createdBy", value)}>
             <SelectTrigger>
               <SelectValue placeholder="Filter by user" />
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Users</SelectItem>
-              <SelectItem value="system">System (Unassigned)</SelectItem>
+              <SelectItem value={UNASSIGNED_CREATOR}>System (Unassigned)</SelectItem>
               {isLoadingUsers ? (
                 <SelectItem value="loading" disabled>Loading users...</SelectItem>
               ) : (
@@ -176,10 +215,76 @@ export default function DonorListTab() {
           variant="outline"
           className="w-full sm:w-auto"
           onClick={handleExport}
-          disabled={filteredDonations.length === 0}
+          disabled={total === 0 || isExporting}
         >
           <Download className="mr-2 h-4 w-4" />
-          Export Excel
+          {isExporting ? "Exporting..." : "Export Excel"}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-4">
+        <Input
+          type="date"
+          aria-label="From date"
+          value={filters.dateFrom}
+          onChange={(e) => updateFilter("dateFrom", e.target.value)}
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={filters.dateTo}
+          onChange={(e) => updateFilter("dateTo", e.target.value)}
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Min amount"
+          value={filters.amountMin}
+          onChange={(e) => updateFilter("amountMin", e.target.value)}
+        />
+        <Input
+          type="number"
+          min={0}
+          placeholder="Max amount"
+          value={filters.amountMax}
+          onChange={(e) => updateFilter("amountMax", e.target.value)}
+        />
+        <Select value={filters.paymentMode || "all"} onValueChange={(value) => updateFilter("paymentMode", value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Payment mode" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Modes</SelectItem>
+            <SelectItem value="cash">Cash</SelectItem>
+            <SelectItem value="cheque">Cheque</SelectItem>
+            <SelectItem value="dd">D.D.</SelectItem>
+            <SelectItem value="online">Online</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={filters.status || "all"} onValueChange={(value) => updateFilter("status", value)}>
+          <SelectTrigger>
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Receipts</SelectItem>
+            <SelectItem value="active">Active Only</SelectItem>
+            <SelectItem value="cancelled">Cancelled Only</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Purpose"
+          value={filters.purpose}
+          onChange={(e) => updateFilter("purpose", e.target.value)}
+        />
+        <Button
+          variant="ghost"
+          onClick={() => {
+            setFilters(emptyFilters);
+            setSearchInput("");
+            setPage(1);
+          }}
+        >
+          Clear Filters
         </Button>
       </div>
       
@@ -187,42 +292,59 @@ export default function DonorListTab() {
         <Table>
           <TableHeader>
             <TableRow>
-              <TableHead>Receipt No.</TableHead>
-              <TableHead>Donor Name</TableHead>
-              <TableHead>Date</TableHead>
-              <TableHead>Amount</TableHead>
+              <SortableHead field="receiptNumber" label="Receipt No." />
+              <SortableHead field="donorName" label="Donor Name" />
+              <SortableHead field="date" label="Date" />
+              <SortableHead field="amount" label="Amount" />
               <TableHead>Address</TableHead>
               <TableHead>PAN No.</TableHead>
-              <TableHead>Mode of Payment</TableHead>
+              <SortableHead field="paymentMode" label="Mode of Payment" />
               <TableHead>Cheque/D.D./Txn No.</TableHead>
               <TableHead>Cheque/D.D./Txn Date</TableHead>
               <TableHead>Drawn On</TableHead>
-              <TableHead>Purpose</TableHead>
+              <SortableHead field="purpose" label="Purpose" />
               <TableHead>Created By</TableHead>
+              <TableHead>Receipt</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
             {isLoadingDonations ? (
               Array.from({ length: 5 }).map((_, index) => (
                 <TableRow key={index}>
-                  {Array.from({ length: 12 }).map((_, cellIndex) => (
+                  {Array.from({ length: 13 }).map((_, cellIndex) => (
                     <TableCell key={cellIndex}>
                       <Skeleton className="h-4 w-full" />
                     </TableCell>
                   ))}
                 </TableRow>
               ))
-            ) : filteredDonations.length === 0 ? (
+            ) : donations.length === 0 ? (
               <TableRow>
-                <TableCell colSpan={12} className="h-24 text-center">
+                <TableCell colSpan={13} className="h-24 text-center">
                   No donations found.
                 </TableCell>
               </TableRow>
             ) : (
-              filteredDonations.map((donation) => (
-                <TableRow key={donation.id}>
-                  <TableCell className="font-medium">{donation.receiptNumber}</TableCell>
-                  <TableCell>{donation.donorName}</TableCell>
+              donations.map((donation) => (
+                <TableRow key={donation.id} className={donation.cancelledAt ? "text-gray-400" : undefined}>
+                  <TableCell className="font-medium">
+                    <button
+                      type="button"
+                      className="text-primary hover:underline"
+                      onClick={() => setSelectedDonation(donation)}
+                      title="View details and history"
+                    >
+                      {donation.receiptNumber}
+                    </button>
+                    {donation.cancelledAt && <Badge variant="destructive" className="ml-2">Cancelled</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {donation.donorId ? (
+                      <Link href={`/donors/${donation.donorId}`} className="text-primary hover:underline">
+                        {donation.donorName}
+                      </Link>
+                    ) : donation.donorName}
+                  </TableCell>
                   <TableCell>{donation.date}</TableCell>
                   <TableCell>₹{donation.amount.toLocaleString('en-IN')}</TableCell>
                   <TableCell>{donation.address}</TableCell>
@@ -233,12 +355,38 @@ export default function DonorListTab() {
                   <TableCell>{donation.drawnOn || 'N/A'}</TableCell>
                   <TableCell>{donation.purpose}</TableCell>
                   <TableCell>{getUserFullName(donation.createdBy)}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" asChild>
+                      <a href={`/api/donations/${donation.id}/receipt.pdf`} download title="Download receipt">
+                        <Download className="h-4 w-4" />
+                      </a>
+                    </Button>
+                  </TableCell>
                 </TableRow>
               ))
             )}
           </TableBody>
         </Table>
       </div>
+
+      <div className="flex items-center justify-between text-sm text-gray-600">
+        <span>
+          {total === 0
+            ? "No donations"
+            : `Showing ${(page - 1) * PAGE_SIZE + 1}–${Math.min(page * PAGE_SIZE, total)} of ${total}`}
+        </span>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+            Previous
+          </Button>
+          <span>Page {page} of {pageCount}</span>
+          <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+            Next
+          </Button>
+        </div>
+      </div>
+
+      <DonationDetailDialog donation={selectedDonation} onClose={() => setSelectedDonation(null)} />
     </div>
   );
 }
\ No newline at end of file
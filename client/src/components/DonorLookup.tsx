@@ -0,0 +1,102 @@
+import { useEffect, useState, forwardRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import type { RecordId } from "@shared/ids";
+
+export interface DonorSearchResult {
+  id: RecordId;
+  name: string;
+  contactNumber: string;
+  address: string;
+  email: string;
+  panNumber: string | null;
+  donationCount: number;
+  lastDonationDate: string | null;
+}
+
+interface DonorLookupProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  onSelect: (donor: DonorSearchResult) => void;
+  placeholder?: string;
+}
+
+// Wait for a pause in typing before searching
+const SEARCH_DELAY_MS = 300;
+
+function formatDate(date: string): string {
+  return new Date(date).toLocaleDateString("en-IN", { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Donor name input that suggests existing donors by name, phone, email or PAN
+const DonorLookup = forwardRef<HTMLInputElement, DonorLookupProps>(
+  ({ value, onChange, onBlur, onSelect, placeholder }, ref) => {
+    const [query, setQuery] = useState("");
+    const [isOpen, setIsOpen] = useState(false);
+
+    useEffect(() => {
+      const timeoutId = setTimeout(() => setQuery(value.trim()), SEARCH_DELAY_MS);
+      return () => clearTimeout(timeoutId);
+    }, [value]);
+
+    const { data: results = [] } = useQuery<DonorSearchResult[]>({
+      queryKey: [`/api/donors/search?q=${encodeURIComponent(query)}`],
+      enabled: query.length >= 2,
+      staleTime: 30000,
+    });
+
+    const handleSelect = (donor: DonorSearchResult) => {
+      onSelect(donor);
+      setIsOpen(false);
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          value={value}
+          placeholder={placeholder}
+          autoComplete="off"
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            // Let a click on a suggestion register before the list closes
+            setTimeout(() => setIsOpen(false), 150);
+            onBlur();
+          }}
+        />
+        {isOpen && query.length >= 2 && results.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full max-h-72 overflow-auto rounded-md border bg-white shadow-lg">
+            {results.map(donor => (
+              <li key={donor.id}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-2 text-left hover:bg-gray-100"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleSelect(donor)}
+                >
+                  <p className="font-medium">{donor.name}</p>
+                  <p className="text-xs text-gray-500">
+                    {[donor.contactNumber, donor.email, donor.panNumber].filter(Boolean).join(" · ")}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {donor.donationCount} donation{donor.donationCount === 1 ? "" : "s"}
+                    {donor.lastDonationDate && `, last on ${formatDate(donor.lastDonationDate)}`}
+                  </p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  }
+);
+
+DonorLookup.displayName = "DonorLookup";
+
+export default DonorLookup;
@@ -0,0 +1,215 @@
+import { useState, useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Search, Link2, Merge } from "lucide-react";
+import type { RecordId } from "@shared/ids";
+
+interface Donor {
+  id: RecordId;
+  name: string;
+  contactNumber: string;
+  address: string;
+  email: string;
+  panNumber: string | null;
+}
+
+interface DonorWithStats extends Donor {
+  donationCount: number;
+  totalAmount: number;
+}
+
+export default function DonorRecordsTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManage = can("donors:manage");
+  const [searchQuery, setSearchQuery] = useState<string>("");
+  // Donor chosen to keep in each duplicate group, keyed by the group's first donor ID
+  const [keepers, setKeepers] = useState<Record<RecordId, RecordId>>({});
+
+  const { data: donors = [], isLoading } = useQuery<DonorWithStats[]>({
+    queryKey: ['/api/donors'],
+  });
+
+  const { data: duplicates = [] } = useQuery<Donor[][]>({
+    queryKey: ['/api/donors/duplicates'],
+    enabled: canManage,
+  });
+
+  const refreshDonors = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/donors'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/donors/duplicates'] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ targetId, sourceIds }: { targetId: RecordId; sourceIds: RecordId[] }) => {
+      const response = await apiRequest("POST", "/api/donors/merge", { targetId, sourceIds });
+      return response.json();
+    },
+    onSuccess: (donor: Donor) => {
+      toast({
+        title: "Donors merged",
+        description: `All donations now belong to ${donor.name}.`,
+      });
+      refreshDonors();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to merge donors",
+      });
+    },
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/donors/link-donations", undefined, 60000);
+      return response.json() as Promise<{ linked: number }>;
+    },
+    onSuccess: ({ linked }) => {
+      toast({
+        title: "Donations linked",
+        description: `${linked} donation${linked === 1 ? " was" : "s were"} linked to donor records.`,
+      });
+      refreshDonors();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to link donations",
+      });
+    },
+  });
+
+  const handleMerge = (group: Donor[]) => {
+    const targetId = keepers[group[0].id] ?? group[0].id;
+    const sourceIds = group.map(donor => donor.id).filter(id => id !== targetId);
+    mergeMutation.mutate({ targetId, sourceIds });
+  };
+
+  const filteredDonors = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return donors.filter(donor =>
+      !query ||
+      [donor.name, donor.email, donor.contactNumber, donor.panNumber]
+        .some(value => value && value.toLowerCase().includes(query))
+    );
+  }, [donors, searchQuery]);
+
+  return (
+    <div className="space-y-6">
+      {canManage && duplicates.length > 0 && (
+        <div className="space-y-4">
+          <h3 className="text-lg font-medium text-gray-800">Possible duplicates</h3>
+          {duplicates.map(group => (
+            <div key={group[0].id} className="rounded-md border border-amber-300 bg-amber-50 p-4 space-y-2">
+              <p className="text-sm text-amber-800">Choose the record to keep; the others are merged into it.</p>
+              {group.map(donor => (
+                <label key={donor.id} className="flex items-center gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name={`keep-${group[0].id}`}
+                    checked={(keepers[group[0].id] ?? group[0].id) === donor.id}
+                    onChange={() => setKeepers({ ...keepers, [group[0].id]: donor.id })}
+                  />
+                  <span className="font-medium">{donor.name}</span>
+                  <span>{donor.panNumber || "No PAN"}</span>
+                  <span>{donor.email || "No email"}</span>
+                  <span>{donor.contactNumber}</span>
+                </label>
+              ))}
+              <Button size="sm" onClick={() => handleMerge(group)} disabled={mergeMutation.isPending}>
+                <Merge className="mr-2 h-4 w-4" />
+                Merge
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
+        <div className="w-full sm:w-auto flex-1">
+          <div className="relative">
+            <Search className="absolute left-2 top-3 h-4 w-4 text-gray-400" />
+            <Input
+              className="pl-8"
+              placeholder="Search donors..."
+              value={searchQuery}
+              onChange={(e) => setSearchQuery(e.target.value)}
+            />
+          </div>
+        </div>
+
+        {canManage && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto"
+            onClick={() => linkMutation.mutate()}
+            disabled={linkMutation.isPending}
+          >
+            <Link2 className="mr-2 h-4 w-4" />
+            {linkMutation.isPending ? "Linking..." : "Link Older Donations"}
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>PAN No.</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Contact Number</TableHead>
+              <TableHead>Donations</TableHead>
+              <TableHead>Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, index) => (
+                <TableRow key={index}>
+                  {Array.from({ length: 6 }).map((_, cellIndex) => (
+                    <TableCell key={cellIndex}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : filteredDonors.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="h-24 text-center">
+                  No donors found.
+                </TableCell>
+              </TableRow>
+            ) : (
+              filteredDonors.map((donor) => (
+                <TableRow key={donor.id}>
+                  <TableCell className="font-medium">
+                    <Link href={`/donors/${donor.id}`} className="text-primary hover:underline">
+                      {donor.name}
+                    </Link>
+                  </TableCell>
+                  <TableCell>{donor.panNumber || 'N/A'}</TableCell>
+                  <TableCell>{donor.email || 'N/A'}</TableCell>
+                  <TableCell>{donor.contactNumber}</TableCell>
+                  <TableCell>{donor.donationCount}</TableCell>
+                  <TableCell>₹{donor.totalAmount.toLocaleString('en-IN')}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { recentFinancialYears } from "@shared/receiptSeries";
+import type { RecordId } from "@shared/ids";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download } from "lucide-react";
+
+interface Form10BDReject {
+  donationId: RecordId;
+  receiptNumber: string;
+  donorName: string;
+  amount: number;
+  reasons: string[];
+}
+
+interface Form10BDSummary {
+  issues: string[];
+  rowCount: number;
+  total: number;
+  rejects: Form10BDReject[];
+}
+
+export default function Form10BDTab() {
+  const years = recentFinancialYears(5);
+  // The statement is filed for the year that has just ended
+  const [selectedYear, setSelectedYear] = useState<string>(years[1]);
+
+  const { data: summary, isLoading } = useQuery<Form10BDSummary>({
+    queryKey: [`/api/tax/10bd?financialYear=${selectedYear}`],
+  });
+
+  const canDownload = !!summary && summary.issues.length === 0 && summary.rowCount > 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
+        <div className="w-full sm:w-48">
+          <Select value={selectedYear} onValueChange={setSelectedYear}>
+            <SelectTrigger>
+              <SelectValue placeholder="Financial year" />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(year => (
+                <SelectItem key={year} value={year}>FY {year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {summary && (
+          <p className="flex-1 text-sm text-gray-600">
+            {summary.rowCount} donations ready for filing, ₹{summary.total.toLocaleString('en-IN')} in total.
+            {summary.rejects.length > 0 && ` ${summary.rejects.length} rejected and left out of the file.`}
+          </p>
+        )}
+
+        <Button
+          variant="outline"
+          className={`w-full sm:w-auto ${canDownload ? "" : "pointer-events-none opacity-50"}`}
+          asChild
+        >
+          <a href={`/api/tax/10bd.csv?financialYear=${selectedYear}`} download aria-disabled={!canDownload}>
+            <Download className="mr-2 h-4 w-4" />
+            Download 10BD CSV
+          </a>
+        </Button>
+      </div>
+
+      {summary && summary.issues.length > 0 && (
+        <div className="rounded-md border border-red-300 bg-red-50 p-3 text-sm text-red-800">
+          <p className="font-medium">The statement cannot be generated until these are fixed:</p>
+          <ul className="list-disc pl-5">
+            {summary.issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <h3 className="text-lg font-medium text-gray-800">Rejected donations</h3>
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Receipt No.</TableHead>
+              <TableHead>Donor Name</TableHead>
+              <TableHead>Amount</TableHead>
+              <TableHead>Problems</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, index) => (
+                <TableRow key={index}>
+                  {Array.from({ length: 4 }).map((_, cellIndex) => (
+                    <TableCell key={cellIndex}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : !summary || summary.rejects.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={4} className="h-24 text-center">
+                  No rejected donations.
+                </TableCell>
+              </TableRow>
+            ) : (
+              summary.rejects.map((reject) => (
+                <TableRow key={reject.donationId}>
+                  <TableCell className="font-medium">{reject.receiptNumber}</TableCell>
+                  <TableCell>{reject.donorName}</TableCell>
+                  <TableCell>₹{reject.amount.toLocaleString('en-IN')}</TableCell>
+                  <TableCell>
+                    <ul className="list-disc pl-4 text-red-700">
+                      {reject.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
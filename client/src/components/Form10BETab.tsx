@@ -0,0 +1,174 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { recentFinancialYears } from "@shared/receiptSeries";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Download, Mail } from "lucide-react";
+
+interface DonorCertificateSummary {
+  donorKey: string;
+  donorName: string;
+  panNumber: string | null;
+  email: string;
+  receiptCount: number;
+  total: number;
+}
+
+interface EmailResult {
+  sent: number;
+  failed: { donorName: string; email: string }[];
+  skipped: string[];
+}
+
+export default function Form10BETab() {
+  const { toast } = useToast();
+  const years = recentFinancialYears(5);
+  // Certificates are usually issued for the year that has just ended
+  const [selectedYear, setSelectedYear] = useState<string>(years[1]);
+  const [acknowledgementNumber, setAcknowledgementNumber] = useState<string>("");
+
+  const { data: certificates = [], isLoading } = useQuery<DonorCertificateSummary[]>({
+    queryKey: [`/api/tax/10be?financialYear=${selectedYear}`],
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest(
+        "POST",
+        "/api/tax/10be/email",
+        { financialYear: selectedYear, acknowledgementNumber },
+        // Sending is sequential, so allow a generous timeout for large batches
+        10 * 60 * 1000,
+      );
+      return response.json() as Promise<EmailResult>;
+    },
+    onSuccess: (result) => {
+      toast({
+        variant: result.failed.length > 0 ? "destructive" : "default",
+        title: "Certificates emailed",
+        description: `${result.sent} sent, ${result.failed.length} failed, ${result.skipped.length} without an email address.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to email certificates",
+      });
+    },
+  });
+
+  const zipUrl = `/api/tax/10be/certificates.zip?${new URLSearchParams({ financialYear: selectedYear, acknowledgementNumber })}`;
+  const grandTotal = certificates.reduce((sum, certificate) => sum + certificate.total, 0);
+  const missingPan = certificates.filter(certificate => !certificate.panNumber).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4 items-center justify-between">
+        <div className="w-full sm:w-48">
+          <Select value={selectedYear} onValueChange={setSelectedYear}>
+            <SelectTrigger>
+              <SelectValue placeholder="Financial year" />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map(year => (
+                <SelectItem key={year} value={year}>FY {year}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="w-full sm:w-auto flex-1">
+          <Input
+            placeholder="Form 10BD acknowledgement number (optional)"
+            value={acknowledgementNumber}
+            onChange={(e) => setAcknowledgementNumber(e.target.value)}
+          />
+        </div>
+
+        <Button
+          variant="outline"
+          className={`w-full sm:w-auto ${certificates.length === 0 ? "pointer-events-none opacity-50" : ""}`}
+          asChild
+        >
+          <a href={zipUrl} download aria-disabled={certificates.length === 0}>
+            <Download className="mr-2 h-4 w-4" />
+            Download ZIP
+          </a>
+        </Button>
+
+        <Button
+          className="w-full sm:w-auto"
+          onClick={() => emailMutation.mutate()}
+          disabled={certificates.length === 0 || emailMutation.isPending}
+        >
+          <Mail className="mr-2 h-4 w-4" />
+          {emailMutation.isPending ? "Sending..." : "Email All"}
+        </Button>
+      </div>
+
+      {missingPan > 0 && (
+        <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800">
+          {missingPan} donor{missingPan === 1 ? " has" : "s have"} no PAN on record. Their certificates cannot be matched to Form 10BD.
+        </div>
+      )}
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Donor Name</TableHead>
+              <TableHead>PAN No.</TableHead>
+              <TableHead>Email</TableHead>
+              <TableHead>Receipts</TableHead>
+              <TableHead>Total</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              Array.from({ length: 5 }).map((_, index) => (
+                <TableRow key={index}>
+                  {Array.from({ length: 5 }).map((_, cellIndex) => (
+                    <TableCell key={cellIndex}>
+                      <Skeleton className="h-4 w-full" />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))
+            ) : certificates.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="h-24 text-center">
+                  No donations in FY {selectedYear}.
+                </TableCell>
+              </TableRow>
+            ) : (
+              certificates.map((certificate) => (
+                <TableRow key={certificate.donorKey}>
+                  <TableCell className="font-medium">{certificate.donorName}</TableCell>
+                  <TableCell>
+                    {certificate.panNumber || <Badge variant="outline" className="text-amber-700 border-amber-300">No PAN</Badge>}
+                  </TableCell>
+                  <TableCell>{certificate.email || 'N/A'}</TableCell>
+                  <TableCell>{certificate.receiptCount}</TableCell>
+                  <TableCell>₹{certificate.total.toLocaleString('en-IN')}</TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {certificates.length > 0 && (
+        <p className="text-sm text-gray-500 text-right">
+          {certificates.length} donors, ₹{grandTotal.toLocaleString('en-IN')} in total
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  organizationSettingsSchema,
+  defaultOrganizationSettings,
+  MAX_SIGNATURE_IMAGE_BYTES,
+  type OrganizationSettings,
+} from "@shared/organization";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+
+type TextField = Exclude<keyof OrganizationSettings, "signatureImage" | "panRequiredAbove">;
+
+const textFields: { name: TextField; label: string; type?: string; placeholder?: string }[] = [
+  { name: "name", label: "Organisation Name" },
+  { name: "registrationNumber", label: "Society Registration No." },
+  { name: "phone", label: "Phone" },
+  { name: "email", label: "Email", type: "email" },
+  { name: "pan", label: "Organisation PAN", placeholder: "AAAAA0000A" },
+  { name: "registration80G", label: "80G Registration No. (URN)" },
+  { name: "registration80GValidFrom", label: "80G Valid From", type: "date" },
+  { name: "registration80GValidUntil", label: "80G Valid Until", type: "date" },
+  { name: "signatoryName", label: "Authorised Signatory Name" },
+  { name: "signatoryDesignation", label: "Signatory Designation", placeholder: "e.g. Secretary" },
+];
+
+function readAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = reject;
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function OrganizationSettingsTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings, isLoading } = useQuery<OrganizationSettings>({
+    queryKey: ['/api/settings/organization'],
+  });
+
+  const form = useForm<OrganizationSettings>({
+    resolver: zodResolver(organizationSettingsSchema),
+    defaultValues: defaultOrganizationSettings,
+  });
+
+  // Load the saved profile into the form once it arrives
+  useEffect(() => {
+    if (settings) form.reset(settings);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: OrganizationSettings) => {
+      const response = await apiRequest("PUT", "/api/settings/organization", values);
+      return response.json();
+    },
+    onSuccess: (saved: OrganizationSettings) => {
+      toast({
+        title: "Organisation details saved",
+        description: "New receipts will use these details.",
+      });
+      queryClient.setQueryData(['/api/settings/organization'], saved);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save organisation details",
+      });
+    },
+  });
+
+  function onSubmit(values: OrganizationSettings) {
+    saveMutation.mutate(values);
+  }
+
+  const handleSignatureChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (file.size > MAX_SIGNATURE_IMAGE_BYTES) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Signature image cannot exceed ${MAX_SIGNATURE_IMAGE_BYTES / 1024} KB`,
+      });
+      return;
+    }
+
+    form.setValue("signatureImage", await readAsDataUrl(file), { shouldDirty: true, shouldValidate: true });
+  };
+
+  const signatureImage = form.watch("signatureImage");
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading organisation details...</div>;
+  }
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-medium text-gray-800 mb-2">Organisation Details</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Printed on every 80G donation receipt.
+      </p>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {textFields.map(({ name, label, type, placeholder }) => (
+              <FormField
+                key={name}
+                control={form.control}
+                name={name}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{label}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type={type} placeholder={placeholder} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+
+          <FormField
+            control={form.control}
+            name="address"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Registered Address</FormLabel>
+                <FormControl>
+                  <Textarea {...field} rows={2} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="eligibilityStatement"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>80G Eligibility Statement</FormLabel>
+                <FormControl>
+                  <Textarea {...field} rows={3} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="panRequiredAbove"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Donor PAN Required Above (₹)</FormLabel>
+                <FormControl>
+                  <Input {...field} type="number" min={0} />
+                </FormControl>
+                <FormDescription>Donations above this amount cannot be saved without the donor's PAN.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="signatureImage"
+            render={() => (
+              <FormItem>
+                <FormLabel>Signature Image</FormLabel>
+                {signatureImage && (
+                  <img src={signatureImage} alt="Authorised signature" className="h-16 object-contain border rounded p-1 bg-white" />
+                )}
+                <div className="flex gap-2">
+                  <FormControl>
+                    <Input type="file" accept="image/png,image/jpeg" onChange={handleSignatureChange} />
+                  </FormControl>
+                  {signatureImage && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => form.setValue("signatureImage", null, { shouldDirty: true })}
+                    >
+                      Remove
+                    </Button>
+                  )}
+                </div>
+                <FormDescription>PNG or JPEG, up to {MAX_SIGNATURE_IMAGE_BYTES / 1024} KB.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="pt-4">
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Organisation Details"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,353 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, invalidateQueriesByPrefix } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  purposeInputSchema,
+  emptyPurpose,
+  type LegacyPurpose,
+  type Purpose,
+  type PurposeInput,
+  type PurposeTotal,
+} from "@shared/purposes";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+function formatDate(date: string): string {
+  return date ? new Date(date).toLocaleDateString("en-IN") : "";
+}
+
+function activePeriod(purpose: Purpose): string {
+  if (!purpose.activeFrom && !purpose.activeUntil) return "Always";
+  if (!purpose.activeUntil) return `From ${formatDate(purpose.activeFrom)}`;
+  if (!purpose.activeFrom) return `Until ${formatDate(purpose.activeUntil)}`;
+  return `${formatDate(purpose.activeFrom)} – ${formatDate(purpose.activeUntil)}`;
+}
+
+export default function PurposesTab() {
+  const { toast } = useToast();
+  // The purpose being edited, or null when the form adds a new one
+  const [editing, setEditing] = useState<Purpose | null>(null);
+  // Catalog entry picked for each free-text purpose, keyed by the text
+  const [mappings, setMappings] = useState<Record<string, string>>({});
+
+  const { data: purposes = [], isLoading } = useQuery<Purpose[]>({
+    queryKey: ['/api/purposes'],
+  });
+
+  const { data: totals = [] } = useQuery<PurposeTotal[]>({
+    queryKey: ['/api/purposes/totals'],
+  });
+
+  const { data: legacyPurposes = [] } = useQuery<LegacyPurpose[]>({
+    queryKey: ['/api/purposes/legacy'],
+  });
+
+  const form = useForm<PurposeInput>({
+    resolver: zodResolver(purposeInputSchema),
+    defaultValues: emptyPurpose,
+  });
+
+  function startEditing(purpose: Purpose | null) {
+    setEditing(purpose);
+    form.reset(purpose ?? emptyPurpose);
+  }
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PurposeInput) => {
+      const response = editing
+        ? await apiRequest("PUT", `/api/purposes/${editing.id}`, values)
+        : await apiRequest("POST", "/api/purposes", values);
+      return response.json();
+    },
+    onSuccess: (saved: Purpose) => {
+      toast({
+        title: editing ? "Purpose updated" : "Purpose added",
+        description: `${saved.name} is saved in the catalog.`,
+      });
+      invalidateQueriesByPrefix('/api/purposes');
+      startEditing(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save purpose",
+      });
+    },
+  });
+
+  const mapMutation = useMutation({
+    mutationFn: async ({ purpose, purposeId }: { purpose: string; purposeId: string }) => {
+      const response = await apiRequest("POST", "/api/purposes/legacy/map", { purpose, purposeId });
+      return response.json() as Promise<{ linked: number }>;
+    },
+    onSuccess: ({ linked }, { purpose }) => {
+      toast({
+        title: "Donations linked",
+        description: `${linked} donation${linked === 1 ? "" : "s"} entered as "${purpose}" now belong to the selected purpose.`,
+      });
+      invalidateQueriesByPrefix('/api/purposes');
+      invalidateQueriesByPrefix('/api/donations');
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to link donations",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading purposes...</div>;
+  }
+
+  return (
+    <div className="p-6 space-y-10">
+      <section>
+        <h2 className="text-xl font-medium text-gray-800 mb-2">Donation Purposes</h2>
+        <p className="text-sm text-gray-500 mb-6">
+          Causes and campaigns offered on the donation form. Purposes cannot be deleted since donations
+          refer to them; set an end date to stop offering one.
+        </p>
+
+        {purposes.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            No purposes yet. Until one is added, the purpose is typed in on the donation form.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Code</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>80G</TableHead>
+                <TableHead className="text-right">Raised</TableHead>
+                <TableHead className="text-right">Target</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {purposes.map(purpose => {
+                const total = totals.find(t => t.purposeId === purpose.id);
+                return (
+                  <TableRow key={purpose.id}>
+                    <TableCell>{purpose.name}</TableCell>
+                    <TableCell className="font-mono">{purpose.code}</TableCell>
+                    <TableCell>{activePeriod(purpose)}</TableCell>
+                    <TableCell>
+                      {purpose.eligible80G
+                        ? <Badge variant="secondary">Eligible</Badge>
+                        : <Badge variant="outline">Not eligible</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ₹{(total?.totalAmount ?? 0).toLocaleString("en-IN")}
+                      {purpose.targetAmount > 0 &&
+                        ` (${Math.round(((total?.totalAmount ?? 0) / purpose.targetAmount) * 100)}%)`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {purpose.targetAmount > 0 ? `₹${purpose.targetAmount.toLocaleString("en-IN")}` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => startEditing(purpose)}>Edit</Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </section>
+
+      <section>
+        <h3 className="text-lg font-medium text-gray-800 mb-4">
+          {editing ? `Edit ${editing.name}` : "Add Purpose"}
+        </h3>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => saveMutation.mutate(values))} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="Education Fund" />
+                    </FormControl>
+                    <FormDescription>Printed on receipts as the purpose of the donation.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="EDU" />
+                    </FormControl>
+                    <FormDescription>Short unique code used in reports and receipt numbers.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="activeFrom"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Active From</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="activeUntil"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Active Until</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="date" />
+                    </FormControl>
+                    <FormDescription>Leave both dates empty for a purpose that is always open.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="targetAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target Amount (Rupees)</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="number" min={0} />
+                    </FormControl>
+                    <FormDescription>0 for no target.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="eligible80G"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-md border p-4">
+                    <div className="space-y-1">
+                      <FormLabel>Eligible under Section 80G</FormLabel>
+                      <FormDescription>
+                        Other donations get a plain receipt and are left out of Forms 10BD and 10BE.
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Button type="submit" disabled={saveMutation.isPending}>
+                {saveMutation.isPending ? "Saving..." : editing ? "Save Changes" : "Add Purpose"}
+              </Button>
+              {editing && (
+                <Button type="button" variant="outline" onClick={() => startEditing(null)}>Cancel</Button>
+              )}
+            </div>
+          </form>
+        </Form>
+      </section>
+
+      {legacyPurposes.length > 0 && purposes.length > 0 && (
+        <section>
+          <h3 className="text-lg font-medium text-gray-800 mb-2">Link Earlier Donations</h3>
+          <p className="text-sm text-gray-500 mb-4">
+            These purposes were typed in before the catalog was used. Pick the catalog purpose each one belongs
+            to; the text printed on the existing receipts is not changed.
+          </p>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Entered As</TableHead>
+                <TableHead className="text-right">Donations</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Catalog Purpose</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {legacyPurposes.map(legacy => (
+                <TableRow key={legacy.purpose}>
+                  <TableCell>{legacy.purpose}</TableCell>
+                  <TableCell className="text-right">{legacy.donationCount}</TableCell>
+                  <TableCell className="text-right">₹{legacy.totalAmount.toLocaleString("en-IN")}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={mappings[legacy.purpose] ?? ""}
+                      onValueChange={id => setMappings(current => ({ ...current, [legacy.purpose]: id }))}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Select purpose" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {purposes.map(purpose => (
+                          <SelectItem key={purpose.id} value={purpose.id}>{purpose.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      disabled={!mappings[legacy.purpose] || mapMutation.isPending}
+                      onClick={() => mapMutation.mutate({ purpose: legacy.purpose, purposeId: mappings[legacy.purpose] })}
+                    >
+                      Link
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  receiptSeriesConfigSchema,
+  defaultReceiptSeriesConfig,
+  formatReceiptNumber,
+  type ReceiptSeriesConfig,
+} from "@shared/receiptSeries";
+
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+// Sample donation used to preview the configured format
+const previewDonation = {
+  date: new Date().toISOString().split("T")[0],
+  paymentMode: "cash",
+  purpose: "General",
+};
+
+export default function ReceiptSeriesTab() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: config, isLoading } = useQuery<ReceiptSeriesConfig>({
+    queryKey: ['/api/settings/receipt-series'],
+  });
+
+  const form = useForm<ReceiptSeriesConfig>({
+    resolver: zodResolver(receiptSeriesConfigSchema),
+    defaultValues: defaultReceiptSeriesConfig,
+  });
+
+  // Load the saved configuration into the form once it arrives
+  useEffect(() => {
+    if (config) form.reset(config);
+  }, [config]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ReceiptSeriesConfig) => {
+      const response = await apiRequest("PUT", "/api/settings/receipt-series", values);
+      return response.json();
+    },
+    onSuccess: (saved: ReceiptSeriesConfig) => {
+      toast({
+        title: "Receipt series saved",
+        description: "New receipts will be numbered using this format.",
+      });
+      queryClient.setQueryData(['/api/settings/receipt-series'], saved);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save receipt series",
+      });
+    },
+  });
+
+  function onSubmit(values: ReceiptSeriesConfig) {
+    saveMutation.mutate(values);
+  }
+
+  const values = form.watch();
+  const preview = receiptSeriesConfigSchema.safeParse(values);
+
+  if (isLoading) {
+    return <div className="text-center py-4">Loading receipt series...</div>;
+  }
+
+  return (
+    <div className="p-6">
+      <h2 className="text-xl font-medium text-gray-800 mb-2">Receipt Numbering</h2>
+      <p className="text-sm text-gray-500 mb-6">
+        Changes apply to receipts created from now on. Existing receipts keep their numbers.
+      </p>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <FormField
+            control={form.control}
+            name="template"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Format</FormLabel>
+                <FormControl>
+                  <Input {...field} placeholder="AAS/{FY}/{SEQ}" />
+                </FormControl>
+                <FormDescription>
+                  Use {"{SEQ}"} for the running number, {"{FY}"} for the financial year (e.g. 2026-27),
+                  {" "}{"{MODE}"} for the payment mode and {"{PURPOSE}"} for the code of the purpose.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="padding"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum Digits</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min={1} max={10} />
+                  </FormControl>
+                  <FormDescription>The running number is padded with leading zeros.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="startNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Start Number</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="number" min={1} />
+                  </FormControl>
+                  <FormDescription>First running number of each new series.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <FormField
+              control={form.control}
+              name="resetRule"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Restart Numbering</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select when to restart" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="never">Never</SelectItem>
+                      <SelectItem value="financialYear">Every financial year (1 April)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="separateBy"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Separate Series By</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select series separation" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">One series for all receipts</SelectItem>
+                      <SelectItem value="paymentMode">Payment mode</SelectItem>
+                      <SelectItem value="purpose">Purpose</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="rounded-md bg-gray-50 border border-gray-200 p-4">
+            <p className="text-sm text-gray-500">Next receipt would look like</p>
+            <p className="text-lg font-mono">
+              {preview.success
+                ? formatReceiptNumber(preview.data, previewDonation, preview.data.startNumber)
+                : "—"}
+            </p>
+          </div>
+
+          <div className="pt-4">
+            <Button type="submit" disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? "Saving..." : "Save Receipt Series"}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { StorageHealth } from "@shared/storageHealth";
+
+// Poll often enough that the banner clears soon after the database recovers
+const HEALTH_REFRESH_MS = 30000;
+
+// Warns admins while the server is saving to its local fallback journal instead of the database,
+// and separately when the database answers but needs its data fixed before it can be used
+export default function StorageHealthBanner() {
+  const { data: health } = useQuery<StorageHealth>({
+    queryKey: ["/api/health"],
+    refetchInterval: HEALTH_REFRESH_MS,
+  });
+
+  if (!health?.usingFallback) {
+    return null;
+  }
+
+  if (health.status === "migration_failed") {
+    return (
+      <Alert variant="destructive" className="mb-6 bg-white">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertTitle>The {health.primary} database could not be updated for this version</AlertTitle>
+        <AlertDescription>
+          <p>
+            Its data must be fixed by an administrator before it can be used. Until then, changes are being saved
+            to the server's local fallback journal and will be copied into the database once the update succeeds.
+          </p>
+          <p className="mt-1">
+            {health.pendingWrites} change{health.pendingWrites === 1 ? "" : "s"} waiting to be copied.
+            {health.lastFailure?.message && ` Error: ${health.lastFailure.message}`}
+          </p>
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert variant="destructive" className="mb-6 bg-white">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>The {health.primary} database is unavailable</AlertTitle>
+      <AlertDescription>
+        <p>
+          Since {new Date(health.activeSince).toLocaleString("en-IN")}, changes are being saved to the server's
+          local fallback journal. They will be copied into the database automatically once it is reachable again.
+        </p>
+        <p className="mt-1">
+          {health.pendingWrites} change{health.pendingWrites === 1 ? "" : "s"} waiting to be copied.
+          {health.lastFailure?.message && ` Last error: ${health.lastFailure.message}`}
+        </p>
+      </AlertDescription>
+    </Alert>
+  );
+}
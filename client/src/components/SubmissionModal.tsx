@@ -7,15 +7,23 @@ import {
   DialogDescription
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-import { CheckCircle } from "lucide-react";
+import { CheckCircle, Download } from "lucide-react";
+import type { RecordId } from "@shared/ids";
+
+export interface SubmittedReceipt {
+  id: RecordId;
+  receiptNumber: string;
+  email: string;
+  emailSent: boolean;
+}
 
 interface SubmissionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  email: string;
+  receipt: SubmittedReceipt | null;
 }
 
-export default function SubmissionModal({ isOpen, onClose, email }: SubmissionModalProps) {
+export default function SubmissionModal({ isOpen, onClose, receipt }: SubmissionModalProps) {
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md" aria-describedby="submission-success-description">
@@ -29,12 +37,26 @@ export default function SubmissionModal({ isOpen, onClose, email }: SubmissionMo
           </DialogDescription>
         </DialogHeader>
         <div className="text-center py-4">
-          <p className="text-gray-600">
-            A receipt has been sent to{" "}
-            <span className="font-medium">{email}</span>
-          </p>
+          {receipt?.emailSent ? (
+            <p className="text-gray-600">
+              Receipt {receipt.receiptNumber} has been sent to{" "}
+              <span className="font-medium">{receipt.email}</span>
+            </p>
+          ) : (
+            <p className="text-gray-600">
+              Receipt {receipt?.receiptNumber} was saved but could not be emailed.
+            </p>
+          )}
         </div>
-        <DialogFooter className="sm:justify-center">
+        <DialogFooter className="sm:justify-center gap-2">
+          {receipt && (
+            <Button variant="outline" asChild>
+              <a href={`/api/donations/${receipt.id}/receipt.pdf`} download>
+                <Download className="mr-2 h-4 w-4" />
+                Download receipt
+              </a>
+            </Button>
+          )}
           <Button onClick={onClose}>
             Close
           </Button>
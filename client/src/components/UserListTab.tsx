@@ -1,11 +1,13 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/context/AuthContext";
 import { useToast } from "@/hooks/use-toast";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
 import {
   Table,
   TableBody,
@@ -14,11 +16,12 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Search, CheckCircle, XCircle } from "lucide-react";
+import { Search, CheckCircle, XCircle, Lock } from "lucide-react";
+import type { RecordId } from "@shared/ids";
 
 // Define User interface
 interface User {
-  id: string | number;
+  id: RecordId;
   username: string;
   fullName: string;
   role: string;
@@ -26,9 +29,18 @@ interface User {
   createdAt?: Date;
 }
 
+// Account locked after repeated failed logins
+interface Lockout {
+  username: string;
+  failedCount: number;
+  lastFailedAt: string | null;
+  lockedUntil: string;
+}
+
 export default function UserListTab() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { logout } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
 
   // Fetch users
@@ -36,6 +48,15 @@ export default function UserListTab() {
     queryKey: ["/api/users"],
   });
 
+  // Fetch locked accounts
+  const { data: lockouts = [] } = useQuery<Lockout[]>({
+    queryKey: ["/api/users/lockouts"],
+    staleTime: 0,
+  });
+
+  const getLockout = (username: string) =>
+    lockouts.find((lockout) => lockout.username === username.toLowerCase());
+
   // Filter users based on search query
   const filteredUsers = users.filter(
     (user) =>
@@ -45,7 +66,7 @@ export default function UserListTab() {
 
   // Delete user mutation
   const deleteUserMutation = useMutation({
-    mutationFn: async (userId: string | number) => {
+    mutationFn: async (userId: RecordId) => {
       await apiRequest("DELETE", `/api/users/${userId}`);
     },
     onSuccess: () => {
@@ -61,11 +82,48 @@ export default function UserListTab() {
     },
   });
 
+  // Unlock account mutation
+  const unlockUserMutation = useMutation({
+    mutationFn: async (userId: RecordId) => {
+      const response = await apiRequest("DELETE", `/api/users/${userId}/lockout`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/lockouts"] });
+      toast({ title: "Account unlocked", description: data.message });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to unlock account.",
+      });
+    },
+  });
+
+  // Password reset mutation - emails the user a one-time reset link
+  const resetPasswordMutation = useMutation({
+    mutationFn: async (userId: RecordId) => {
+      const response = await apiRequest("POST", `/api/users/${userId}/reset-password`);
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: (data) => {
+      toast({ title: "Reset link sent", description: data.message });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send reset link.",
+      });
+    },
+  });
+
   // Toggle user active status mutation
   const toggleUserStatusMutation = useMutation({
-    mutationFn: async ({ userId, isActive }: { userId: string | number; isActive: boolean }) => {
+    mutationFn: async ({ userId, isActive }: { userId: RecordId; isActive: boolean }) => {
       try {
-        console.log(`Updating user ${userId} (type: ${typeof userId})`);
+        console.log(`Updating user ${userId}`);
 
         // Ensure user exists before making API call
         const existingUser = users.find((u) => u.id === userId);
@@ -73,11 +131,8 @@ export default function UserListTab() {
           throw new Error("User not found. Refresh the list.");
         }
 
-        // Convert ID to string for consistency
-        const idString = userId.toString();
-
         // API request
-        const response = await apiRequest("PATCH", `/api/users/${idString}/status`, { isActive });
+        const response = await apiRequest("PATCH", `/api/users/${userId}/status`, { isActive });
 
         // Validate response
         if (!response.ok) {
@@ -103,9 +158,8 @@ export default function UserListTab() {
           variant: "destructive",
         });
 
-        setTimeout(() => {
-          localStorage.removeItem("isAuthenticated");
-          localStorage.removeItem("user");
+        setTimeout(async () => {
+          await logout();
           window.location.href = "/";
         }, 1000);
       }
@@ -119,7 +173,7 @@ export default function UserListTab() {
     },
   });
 
-  const handleToggleStatus = (userId: string | number, currentStatus: boolean) => {
+  const handleToggleStatus = (userId: RecordId, currentStatus: boolean) => {
     const newStatus = !currentStatus;
     const action = newStatus ? "activate" : "deactivate";
 
@@ -128,7 +182,13 @@ export default function UserListTab() {
     }
   };
 
-  const handleDeleteUser = (userId: string | number) => {
+  const handleResetPassword = (user: User) => {
+    if (window.confirm(`Send a password reset link to ${user.username}?`)) {
+      resetPasswordMutation.mutate(user.id);
+    }
+  };
+
+  const handleDeleteUser = (userId: RecordId) => {
     if (window.confirm("Are you sure you want to delete this user?")) {
       deleteUserMutation.mutate(userId);
     }
@@ -138,6 +198,13 @@ export default function UserListTab() {
     return name.split(" ").map((n) => n[0]).join("").toUpperCase();
   };
 
+  const formatTime = (dateString: string) => {
+    return new Date(dateString).toLocaleTimeString("en-US", {
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
   const formatDate = (dateString: Date) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       month: "short",
@@ -163,6 +230,13 @@ export default function UserListTab() {
         </div>
       </div>
 
+      {lockouts.length > 0 && (
+        <div className="flex items-center gap-2 mb-4 p-3 rounded-md bg-amber-50 text-amber-800 text-sm">
+          <Lock className="h-4 w-4" />
+          {lockouts.length} account{lockouts.length === 1 ? " is" : "s are"} temporarily locked after repeated failed logins.
+        </div>
+      )}
+
       <div className="overflow-x-auto">
         <Table>
           <TableHeader>
@@ -200,15 +274,30 @@ export default function UserListTab() {
                   <TableCell>{user.username}</TableCell>
                   <TableCell>{user.role}</TableCell>
                   <TableCell>
-                    <Switch
-                      checked={user.isActive}
-                      onCheckedChange={() => handleToggleStatus(user.id, user.isActive)}
-                    />
+                    <div className="flex items-center gap-2">
+                      <Switch
+                        checked={user.isActive}
+                        onCheckedChange={() => handleToggleStatus(user.id, user.isActive)}
+                      />
+                      {getLockout(user.username) && (
+                        <Badge variant="destructive" title={`${getLockout(user.username)!.failedCount} failed attempts`}>
+                          Locked until {formatTime(getLockout(user.username)!.lockedUntil)}
+                        </Badge>
+                      )}
+                    </div>
                   </TableCell>
                   <TableCell className="text-right">
+                    {getLockout(user.username) && (
+                      <Button variant="ghost" onClick={() => unlockUserMutation.mutate(user.id)}>
+                        Unlock
+                      </Button>
+                    )}
                     <Button variant="ghost" onClick={() => handleToggleStatus(user.id, user.isActive)}>
                       {user.isActive ? "Deactivate" : "Activate"}
                     </Button>
+                    <Button variant="ghost" onClick={() => handleResetPassword(user)}>
+                      Reset Password
+                    </Button>
                     <Button variant="ghost" className="text-red-500" onClick={() => handleDeleteUser(user.id)}>
                       Delete
                     </Button>
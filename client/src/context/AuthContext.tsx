@@ -1,53 +1,81 @@
 import { createContext, useContext, useState, ReactNode, useEffect } from "react";
+import { AUTH_EXPIRED_EVENT, queryClient } from "@/lib/queryClient";
+import { hasPermission, type Permission } from "@shared/permissions";
+import type { RecordId } from "@shared/ids";
 
 interface AuthContextType {
   isAuthenticated: boolean;
+  isLoading: boolean;
   user: {
-    id: number;
+    id: RecordId;
     username: string;
     fullName: string;
     role: string;
   } | null;
   login: (userData: any) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  // Initialize state from localStorage
-  const [user, setUser] = useState<AuthContextType["user"]>(() => {
-    const savedUser = localStorage.getItem('user');
-    return savedUser ? JSON.parse(savedUser) : null;
-  });
-  
-  const [isAuthenticated, setIsAuthenticated] = useState<boolean>(() => {
-    return localStorage.getItem('isAuthenticated') === 'true';
-  });
-
-  // Persist authentication state to localStorage when it changes
+  const [user, setUser] = useState<AuthContextType["user"]>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Resolve the current user from the server session on load
   useEffect(() => {
-    if (isAuthenticated && user) {
-      localStorage.setItem('isAuthenticated', 'true');
-      localStorage.setItem('user', JSON.stringify(user));
-    } else {
-      localStorage.removeItem('isAuthenticated');
-      localStorage.removeItem('user');
-    }
-  }, [isAuthenticated, user]);
+    let cancelled = false;
+
+    fetch("/api/me", { credentials: "include" })
+      .then(async (res) => {
+        if (!cancelled) {
+          setUser(res.ok ? await res.json() : null);
+        }
+      })
+      .catch((error) => {
+        console.error("Error restoring session:", error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Drop the user and their cached data as soon as the server reports the session has expired
+  useEffect(() => {
+    const handleExpired = () => {
+      setUser(null);
+      queryClient.clear();
+    };
+    window.addEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+    return () => window.removeEventListener(AUTH_EXPIRED_EVENT, handleExpired);
+  }, []);
 
   const login = (userData: any) => {
     setUser(userData);
-    setIsAuthenticated(true);
   };
 
-  const logout = () => {
+  const logout = async () => {
+    try {
+      await fetch("/api/logout", { method: "POST", credentials: "include" });
+    } catch (error) {
+      console.error("Error logging out:", error);
+    }
     setUser(null);
-    setIsAuthenticated(false);
+    // Cached queries never go stale, so the next user to sign in would otherwise see this user's data
+    queryClient.clear();
   };
 
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, user, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated: user !== null, isLoading, user, login, logout, can }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,6 +1,12 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// Fired when the server rejects a request because the session is missing or expired
+export const AUTH_EXPIRED_EVENT = "auth:expired";
+
 async function throwIfResNotOk(res: Response) {
+  if (res.status === 401) {
+    window.dispatchEvent(new Event(AUTH_EXPIRED_EVENT));
+  }
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
     throw new Error(`${res.status}: ${text}`);
@@ -16,25 +22,12 @@ export async function apiRequest(
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
   
-  // Get the current user ID from localStorage
+  // The caller is identified by the session cookie sent with credentials: "include"
   let headers: Record<string, string> = {};
   if (data) {
     headers["Content-Type"] = "application/json";
   }
   
-  // Add user ID to headers if available
-  try {
-    const userJson = localStorage.getItem('user');
-    if (userJson) {
-      const user = JSON.parse(userJson);
-      if (user && user.id) {
-        headers["user-id"] = user.id.toString();
-      }
-    }
-  } catch (e) {
-    console.error("Error getting user from localStorage:", e);
-  }
-  
   try {
     const res = await fetch(url, {
       method,
@@ -104,3 +97,10 @@ export const queryClient = new QueryClient({
     },
   },
 });
+
+// Invalidate every query whose URL starts with the prefix, including ones with query strings
+export function invalidateQueriesByPrefix(prefix: string) {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith(prefix),
+  });
+}
@@ -17,6 +17,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
+import type { RecordId } from "@shared/ids";
 
 const formSchema = z.object({
   username: z.string().min(1, "Username is required"),
@@ -26,7 +27,7 @@ const formSchema = z.object({
 type FormValues = z.infer<typeof formSchema>;
 
 interface AdminLoginPageProps {
-  onAdminLoginSuccess: () => void;
+  onAdminLoginSuccess: (user: { id: RecordId; username: string; fullName: string; role: string }) => void;
 }
 
 export default function AdminLoginPage({ onAdminLoginSuccess }: AdminLoginPageProps) {
@@ -53,11 +54,10 @@ export default function AdminLoginPage({ onAdminLoginSuccess }: AdminLoginPagePr
         throw new Error(errorData.message || "Invalid admin credentials");
       }
       
-      // Store admin authentication in localStorage
-      localStorage.setItem('isAdminAuthenticated', 'true');
+      const adminUser = await response.json();
       
       // Notify parent component of successful login
-      onAdminLoginSuccess();
+      onAdminLoginSuccess(adminUser);
       
       // Show success message
       toast({
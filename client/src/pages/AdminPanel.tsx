@@ -4,9 +4,32 @@ import { Button } from "@/components/ui/button";
 import UserListTab from "@/components/UserListTab";
 import RegisterUserTab from "@/components/RegisterUserTab";
 import DonorListTab from "@/components/DonorListTab";
+import DonorRecordsTab from "@/components/DonorRecordsTab";
+import ReceiptSeriesTab from "@/components/ReceiptSeriesTab";
+import OrganizationSettingsTab from "@/components/OrganizationSettingsTab";
+import PurposesTab from "@/components/PurposesTab";
+import Form10BETab from "@/components/Form10BETab";
+import Form10BDTab from "@/components/Form10BDTab";
+import AuditLogTab from "@/components/AuditLogTab";
 import AdminHeader from "@/components/AdminHeader";
+import StorageHealthBanner from "@/components/StorageHealthBanner";
+import { useAuth } from "@/context/AuthContext";
+import type { Permission } from "@shared/permissions";
 
-type TabType = "users" | "register" | "donors";
+type TabType = "users" | "register" | "donors" | "donorRecords" | "receiptSeries" | "organization" | "purposes" | "form10bd" | "form10be" | "activity";
+
+const tabs: { id: TabType; label: string; permission: Permission }[] = [
+  { id: "users", label: "User List", permission: "users:manage" },
+  { id: "register", label: "Register User", permission: "users:manage" },
+  { id: "donors", label: "Donor List", permission: "donations:read:all" },
+  { id: "donorRecords", label: "Donor Records", permission: "donations:read:all" },
+  { id: "form10bd", label: "Form 10BD", permission: "reports:tax" },
+  { id: "form10be", label: "Form 10BE", permission: "reports:tax" },
+  { id: "receiptSeries", label: "Receipt Series", permission: "settings:manage" },
+  { id: "organization", label: "Organisation", permission: "settings:manage" },
+  { id: "purposes", label: "Purposes", permission: "settings:manage" },
+  { id: "activity", label: "Activity", permission: "audit:read" },
+];
 
 interface AdminPanelProps {
   onLogout: () => void;
@@ -14,6 +37,7 @@ interface AdminPanelProps {
 
 export default function AdminPanel({ onLogout }: AdminPanelProps) {
   const [, setLocation] = useLocation();
+  const { can } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>("users");
 
   const handleLogout = () => {
@@ -33,43 +57,36 @@ export default function AdminPanel({ onLogout }: AdminPanelProps) {
       />
 
       <div className="container mx-auto px-4 py-8">
+        <StorageHealthBanner />
         <div className="bg-white rounded-lg shadow-md overflow-hidden">
           <div className="border-b border-gray-200">
             <nav className="flex flex-wrap -mb-px">
-              <Button
-                variant={activeTab === "users" ? "default" : "ghost"}
-                className={activeTab === "users" 
-                  ? "rounded-none border-b-2 border-primary" 
-                  : "rounded-none border-b-2 border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
-                onClick={() => setActiveTab("users")}
-              >
-                User List
-              </Button>
-              <Button
-                variant={activeTab === "register" ? "default" : "ghost"}
-                className={activeTab === "register" 
-                  ? "rounded-none border-b-2 border-primary" 
-                  : "rounded-none border-b-2 border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
-                onClick={() => setActiveTab("register")}
-              >
-                Register User
-              </Button>
-              <Button
-                variant={activeTab === "donors" ? "default" : "ghost"}
-                className={activeTab === "donors" 
-                  ? "rounded-none border-b-2 border-primary" 
-                  : "rounded-none border-b-2 border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
-                onClick={() => setActiveTab("donors")}
-              >
-                Donor List
-              </Button>
+              {tabs.filter(tab => can(tab.permission)).map(tab => (
+                <Button
+                  key={tab.id}
+                  variant={activeTab === tab.id ? "default" : "ghost"}
+                  className={activeTab === tab.id 
+                    ? "rounded-none border-b-2 border-primary" 
+                    : "rounded-none border-b-2 border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"}
+                  onClick={() => setActiveTab(tab.id)}
+                >
+                  {tab.label}
+                </Button>
+              ))}
             </nav>
           </div>
 
           <div className="p-6">
-            {activeTab === "users" && <UserListTab />}
-            {activeTab === "register" && <RegisterUserTab />}
-            {activeTab === "donors" && <DonorListTab />}
+            {activeTab === "users" && can("users:manage") && <UserListTab />}
+            {activeTab === "register" && can("users:manage") && <RegisterUserTab />}
+            {activeTab === "donors" && can("donations:read:all") && <DonorListTab />}
+            {activeTab === "donorRecords" && can("donations:read:all") && <DonorRecordsTab />}
+            {activeTab === "form10bd" && can("reports:tax") && <Form10BDTab />}
+            {activeTab === "form10be" && can("reports:tax") && <Form10BETab />}
+            {activeTab === "receiptSeries" && can("settings:manage") && <ReceiptSeriesTab />}
+            {activeTab === "organization" && can("settings:manage") && <OrganizationSettingsTab />}
+            {activeTab === "purposes" && can("settings:manage") && <PurposesTab />}
+            {activeTab === "activity" && can("audit:read") && <AuditLogTab />}
           </div>
         </div>
       </div>
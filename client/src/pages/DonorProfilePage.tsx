@@ -0,0 +1,241 @@
+import { useLocation, useParams } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import AdminHeader from "@/components/AdminHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Download, Mail } from "lucide-react";
+import { financialYear } from "@shared/receiptSeries";
+import type { RecordId } from "@shared/ids";
+
+interface Donor {
+  id: RecordId;
+  name: string;
+  contactNumber: string;
+  address: string;
+  email: string;
+  panNumber: string | null;
+}
+
+interface Donation {
+  id: RecordId;
+  receiptNumber: string;
+  date: string;
+  amount: number;
+  paymentMode: string;
+  purpose: string;
+  email: string;
+  cancelledAt: string | null;
+}
+
+interface DonationBreakdown {
+  key: string;
+  count: number;
+  total: number;
+}
+
+interface DonorProfile {
+  donor: Donor;
+  donations: Donation[];
+  summary: {
+    donationCount: number;
+    lifetimeTotal: number;
+    firstDonationDate: string | null;
+    lastDonationDate: string | null;
+    byFinancialYear: DonationBreakdown[];
+    byPaymentMode: DonationBreakdown[];
+    byPurpose: DonationBreakdown[];
+  };
+}
+
+interface DonorProfilePageProps {
+  onLogout: () => void;
+}
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN')}`;
+}
+
+function formatDate(date: string | null): string {
+  return date ? new Date(date).toLocaleDateString("en-IN") : "N/A";
+}
+
+function BreakdownCard({ title, rows, formatKey }: { title: string; rows: DonationBreakdown[]; formatKey?: (key: string) => string }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-gray-500">None</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {rows.map(row => (
+              <li key={row.key} className="flex justify-between gap-4">
+                <span>{formatKey ? formatKey(row.key) : row.key} ({row.count})</span>
+                <span className="font-medium">{formatAmount(row.total)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function DonorProfilePage({ onLogout }: DonorProfilePageProps) {
+  const [, setLocation] = useLocation();
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+
+  const { data: profile, isLoading, error } = useQuery<DonorProfile>({
+    queryKey: [`/api/donors/${id}`],
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: async (donation: Donation) => {
+      await apiRequest("POST", `/api/donations/${donation.id}/send-email`, undefined, 30000);
+      return donation;
+    },
+    onSuccess: (donation) => {
+      toast({
+        title: "Receipt sent",
+        description: `Receipt ${donation.receiptNumber} has been emailed to ${donation.email}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to send receipt",
+      });
+    },
+  });
+
+  const currentYear = financialYear(new Date().toISOString().split("T")[0]);
+  const currentYearTotal = profile?.summary.byFinancialYear.find(row => row.key === currentYear)?.total ?? 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AdminHeader
+        onBackToForm={() => setLocation("/form")}
+        onLogout={() => {
+          onLogout();
+          setLocation("/");
+        }}
+      />
+
+      <div className="container mx-auto px-4 py-8 space-y-6">
+        <Button variant="outline" onClick={() => setLocation("/admin")}>
+          <span className="mr-2">←</span> Back to Admin Panel
+        </Button>
+
+        {isLoading ? (
+          <Skeleton className="h-40 w-full" />
+        ) : error || !profile ? (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-600">
+            Donor not found.
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h2 className="text-2xl font-bold text-gray-800">{profile.donor.name}</h2>
+              <div className="mt-2 grid grid-cols-1 md:grid-cols-2 gap-1 text-sm text-gray-600">
+                <p>PAN: {profile.donor.panNumber || "N/A"}</p>
+                <p>Email: {profile.donor.email || "N/A"}</p>
+                <p>Contact: {profile.donor.contactNumber}</p>
+                <p>Address: {profile.donor.address}</p>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-gray-500">Lifetime total</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{formatAmount(profile.summary.lifetimeTotal)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-gray-500">FY {currentYear}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{formatAmount(currentYearTotal)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-gray-500">Donations</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{profile.summary.donationCount}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm text-gray-500">Giving since</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-bold">{formatDate(profile.summary.firstDonationDate)}</CardContent>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <BreakdownCard title="By financial year" rows={profile.summary.byFinancialYear} formatKey={(key) => `FY ${key}`} />
+              <BreakdownCard title="By payment mode" rows={profile.summary.byPaymentMode} formatKey={(key) => key.toUpperCase()} />
+              <BreakdownCard title="Purposes supported" rows={profile.summary.byPurpose} />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <h3 className="text-lg font-medium text-gray-800 mb-4">Receipts</h3>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Receipt No.</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Mode of Payment</TableHead>
+                      <TableHead>Purpose</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {profile.donations.map(donation => (
+                      <TableRow key={donation.id} className={donation.cancelledAt ? "text-gray-400" : undefined}>
+                        <TableCell className="font-medium">
+                          {donation.receiptNumber}
+                          {donation.cancelledAt && <Badge variant="destructive" className="ml-2">Cancelled</Badge>}
+                        </TableCell>
+                        <TableCell>{donation.date}</TableCell>
+                        <TableCell>{formatAmount(donation.amount)}</TableCell>
+                        <TableCell>{donation.paymentMode}</TableCell>
+                        <TableCell>{donation.purpose}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href={`/api/donations/${donation.id}/receipt.pdf`} download title="Download receipt">
+                              <Download className="h-4 w-4" />
+                            </a>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            title="Email receipt"
+                            onClick={() => emailMutation.mutate(donation)}
+                            disabled={emailMutation.isPending}
+                          >
+                            <Mail className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,8 @@ import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import DonationForm from "@/components/DonationForm";
 import PaymentInfoSection from "@/components/PaymentInfoSection";
-import SubmissionModal from "@/components/SubmissionModal";
+import SubmissionModal, { type SubmittedReceipt } from "@/components/SubmissionModal";
+import ChangePasswordModal from "@/components/ChangePasswordModal";
 import anantamanLogo from "../assets/Anant-Aman_Logo-1.png";
 import LogoutIcon from '@mui/icons-material/Logout';
 
@@ -14,15 +15,16 @@ interface FormPageProps {
 export default function FormPage({ onLogout }: FormPageProps) {
   const [, setLocation] = useLocation();
   const [showSubmissionModal, setShowSubmissionModal] = useState(false);
-  const [submittedEmail, setSubmittedEmail] = useState("");
+  const [submittedReceipt, setSubmittedReceipt] = useState<SubmittedReceipt | null>(null);
+  const [showChangePasswordModal, setShowChangePasswordModal] = useState(false);
 
   const handleLogout = () => {
     onLogout();
     setLocation("/");
   };
 
-  const handleSubmissionSuccess = (email: string) => {
-    setSubmittedEmail(email);
+  const handleSubmissionSuccess = (receipt: SubmittedReceipt) => {
+    setSubmittedReceipt(receipt);
     setShowSubmissionModal(true);
   };
 
@@ -44,6 +46,13 @@ export default function FormPage({ onLogout }: FormPageProps) {
             >
               <span className="mr-2">👤</span> Admin Login
             </Button>
+            <Button 
+              variant="ghost" 
+              className="text-white hover:bg-white/20"
+              onClick={() => setShowChangePasswordModal(true)}
+            >
+              <span className="mr-2">🔑</span> Change Password
+            </Button>
             <Button 
               variant="ghost" 
               className="text-white hover:bg-white/20"
@@ -66,7 +75,12 @@ export default function FormPage({ onLogout }: FormPageProps) {
         <SubmissionModal 
           isOpen={showSubmissionModal} 
           onClose={handleCloseSubmissionModal}
-          email={submittedEmail}
+          receipt={submittedReceipt}
+        />
+
+        <ChangePasswordModal
+          isOpen={showChangePasswordModal}
+          onClose={() => setShowChangePasswordModal(false)}
         />
       </main>
     </div>
@@ -7,9 +7,10 @@ import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import LoginSuccessModal from "@/components/LoginSuccessModal";
+import type { RecordId } from "@shared/ids";
 
 interface LoginPageProps {
-  onLoginSuccess: () => void;
+  onLoginSuccess: (user: { id: RecordId; username: string; fullName: string; role: string }) => void;
 }
 
 export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
@@ -41,7 +42,7 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
       return;
     }
 
-    console.log('Attempting login with:', credentials);
+    console.log('Attempting login for:', credentials.username);
     setLoading(true);
     
     // Set a timeout to automatically stop the loading state if it takes too long
@@ -61,8 +62,8 @@ export default function LoginPage({ onLoginSuccess }: LoginPageProps) {
       const userData = await response.json();
       console.log('Login response data:', userData);
       
-      // Call the login function from props
-      onLoginSuccess();
+      // Call the login function from props with the session user
+      onLoginSuccess(userData);
       setShowSuccessModal(true);
     } catch (error) {
       console.error('Login error:', error);
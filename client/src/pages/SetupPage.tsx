@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { z } from "zod";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { setupAdminSchema } from "@shared/schema";
+import anantamanLogo from "../assets/Anant-Aman_Logo-1.png";
+
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import type { RecordId } from "@shared/ids";
+
+// Extend the API schema to add password confirmation
+const formSchema = setupAdminSchema.extend({
+  confirmPassword: z.string().min(1, "Password confirmation is required"),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface SetupPageProps {
+  requiresSetupToken: boolean;
+  onSetupComplete: (user: { id: RecordId; username: string; fullName: string; role: string }) => void;
+}
+
+export default function SetupPage({ requiresSetupToken, onSetupComplete }: SetupPageProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      username: "",
+      fullName: "",
+      password: "",
+      confirmPassword: "",
+      setupToken: "",
+    },
+  });
+
+  const onSubmit = async (values: FormValues) => {
+    setIsLoading(true);
+    try {
+      const { confirmPassword, ...setupData } = values;
+      const response = await apiRequest("POST", "/api/setup", setupData);
+      const admin = await response.json();
+
+      toast({
+        title: "Setup complete",
+        description: "The admin account has been created.",
+      });
+
+      onSetupComplete(admin);
+    } catch (error) {
+      console.error("Setup error:", error);
+      toast({
+        variant: "destructive",
+        title: "Setup failed",
+        description: error instanceof Error ? error.message : "Failed to create admin account",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col justify-center items-center p-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-md p-6">
+        <div className="flex justify-center mb-6">
+          <img src={anantamanLogo} alt="Anantaman Logo" className="h-20 object-contain" />
+        </div>
+
+        <h1 className="text-2xl font-bold text-center mb-2">First-time Setup</h1>
+        <p className="text-center text-gray-600 mb-6">
+          Create the administrator account for this installation.
+        </p>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} placeholder="Enter full name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="email" placeholder="Enter admin email" autoComplete="username" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input {...field} type="password" autoComplete="new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {requiresSetupToken && (
+              <FormField
+                control={form.control}
+                name="setupToken"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Setup Token</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="password" placeholder="Value of SETUP_TOKEN on the server" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="pt-4">
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? "Creating..." : "Create Admin Account"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+}
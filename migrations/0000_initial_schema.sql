@@ -0,0 +1,112 @@
+CREATE TABLE "audit_log" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"action" text NOT NULL,
+	"actor" text,
+	"target_type" text NOT NULL,
+	"target_id" text,
+	"before" jsonb,
+	"after" jsonb,
+	"ip" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "counters" (
+	"name" text PRIMARY KEY NOT NULL,
+	"seq" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "donation_revisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"donation_id" integer NOT NULL,
+	"changed_by" text NOT NULL,
+	"changed_at" timestamp DEFAULT now() NOT NULL,
+	"reason" text,
+	"changes" jsonb NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "donations" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"receipt_number" text NOT NULL,
+	"date" date NOT NULL,
+	"donor_name" text NOT NULL,
+	"contact_number" text NOT NULL,
+	"address" text NOT NULL,
+	"email" text NOT NULL,
+	"pan_number" text,
+	"payment_mode" text NOT NULL,
+	"amount" integer NOT NULL,
+	"amount_in_words" text NOT NULL,
+	"purpose" text NOT NULL,
+	"instrument_date" date,
+	"drawn_on" text,
+	"instrument_number" text,
+	"created_by" text,
+	"donor_id" integer,
+	"created_at" timestamp DEFAULT now(),
+	"revised_at" timestamp,
+	"revised_by" text,
+	"cancelled_at" timestamp,
+	"cancelled_by" text,
+	"cancellation_reason" text,
+	"replacement_donation_id" integer,
+	CONSTRAINT "donations_receipt_number_unique" UNIQUE("receipt_number")
+);
+--> statement-breakpoint
+CREATE TABLE "donors" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"contact_number" text NOT NULL,
+	"address" text NOT NULL,
+	"email" text NOT NULL,
+	"pan_number" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "login_attempts" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"key" text NOT NULL,
+	"failed_count" integer DEFAULT 0 NOT NULL,
+	"last_failed_at" timestamp,
+	"locked_until" timestamp,
+	CONSTRAINT "login_attempts_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+CREATE TABLE "password_reset_tokens" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "password_reset_tokens_token_hash_unique" UNIQUE("token_hash")
+);
+--> statement-breakpoint
+CREATE TABLE "settings" (
+	"key" text PRIMARY KEY NOT NULL,
+	"value" jsonb NOT NULL,
+	"updated_by" text,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"full_name" text NOT NULL,
+	"role" text DEFAULT 'staff' NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "donation_revisions" ADD CONSTRAINT "donation_revisions_donation_id_donations_id_fk" FOREIGN KEY ("donation_id") REFERENCES "public"."donations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "donations" ADD CONSTRAINT "donations_donor_id_donors_id_fk" FOREIGN KEY ("donor_id") REFERENCES "public"."donors"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_log_action_idx" ON "audit_log" USING btree ("action","id");--> statement-breakpoint
+CREATE INDEX "audit_log_actor_idx" ON "audit_log" USING btree ("actor","id");--> statement-breakpoint
+CREATE INDEX "audit_log_target_idx" ON "audit_log" USING btree ("target_type","target_id","id");--> statement-breakpoint
+CREATE INDEX "donation_revisions_donation_id_idx" ON "donation_revisions" USING btree ("donation_id","id");--> statement-breakpoint
+CREATE INDEX "donations_date_idx" ON "donations" USING btree ("date","id");--> statement-breakpoint
+CREATE INDEX "donations_created_by_idx" ON "donations" USING btree ("created_by","date");--> statement-breakpoint
+CREATE INDEX "donations_donor_id_idx" ON "donations" USING btree ("donor_id");--> statement-breakpoint
+CREATE INDEX "donors_pan_number_idx" ON "donors" USING btree ("pan_number");--> statement-breakpoint
+CREATE INDEX "donors_email_idx" ON "donors" USING btree ("email");
\ No newline at end of file
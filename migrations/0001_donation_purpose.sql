@@ -0,0 +1,2 @@
+ALTER TABLE "donations" ADD COLUMN "purpose_id" text;--> statement-breakpoint
+CREATE INDEX "donations_purpose_id_idx" ON "donations" USING btree ("purpose_id");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "purposes" (
+	"id" text PRIMARY KEY NOT NULL,
+	"name" text NOT NULL,
+	"code" text NOT NULL,
+	"active_from" text DEFAULT '' NOT NULL,
+	"active_until" text DEFAULT '' NOT NULL,
+	"target_amount" integer DEFAULT 0 NOT NULL,
+	"eligible_80g" boolean DEFAULT true NOT NULL,
+	CONSTRAINT "purposes_code_unique" UNIQUE("code")
+);
+--> statement-breakpoint
+-- Move the catalog out of the "purposes" setting it was kept in before
+INSERT INTO "purposes" ("id", "name", "code", "active_from", "active_until", "target_amount", "eligible_80g")
+SELECT "purpose"->>'id', "purpose"->>'name', "purpose"->>'code',
+	coalesce("purpose"->>'activeFrom', ''), coalesce("purpose"->>'activeUntil', ''),
+	coalesce(("purpose"->>'targetAmount')::integer, 0), coalesce(("purpose"->>'eligible80G')::boolean, true)
+FROM "settings", jsonb_array_elements("settings"."value") AS "catalog"("purpose")
+WHERE "settings"."key" = 'purposes' AND jsonb_typeof("settings"."value") = 'array'
+ON CONFLICT DO NOTHING;--> statement-breakpoint
+DELETE FROM "settings" WHERE "key" = 'purposes';
@@ -0,0 +1,69 @@
+import type { Request } from 'express';
+import { storage } from './storage';
+import type { AuditLogEntry } from '@shared/schema';
+import type { AuditAction } from '@shared/auditLog';
+import { toCsv } from './csv';
+
+export interface AuditEvent {
+  action: AuditAction;
+  targetType: string;
+  targetId?: string | number | null;
+  before?: unknown;
+  after?: unknown;
+  // Defaults to the signed-in user; sign-in and reset flows name the account instead
+  actor?: string | null;
+}
+
+// Secrets are never written to the log
+const REDACTED_FIELDS = new Set(['password', 'tokenHash']);
+
+// Long values such as the signature image are summarised rather than copied
+const MAX_SNAPSHOT_STRING_LENGTH = 500;
+
+function snapshot(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  return JSON.parse(JSON.stringify(value, (key, field) => {
+    if (REDACTED_FIELDS.has(key)) return '[redacted]';
+    if (typeof field === 'string' && field.length > MAX_SNAPSHOT_STRING_LENGTH) {
+      return `[${field.length} characters omitted]`;
+    }
+    return field;
+  }));
+}
+
+// Append an entry for a change that has just been made. A failure to write the
+// entry is logged rather than thrown, since the change itself already succeeded.
+export async function recordAudit(req: Request, event: AuditEvent): Promise<void> {
+  try {
+    await storage.appendAuditLog({
+      action: event.action,
+      actor: event.actor !== undefined ? event.actor : req.user?.username ?? null,
+      targetType: event.targetType,
+      targetId: event.targetId !== undefined && event.targetId !== null ? String(event.targetId) : null,
+      before: snapshot(event.before),
+      after: snapshot(event.after),
+      ip: req.ip ?? null,
+      createdAt: new Date()
+    });
+  } catch (error: unknown) {
+    console.error('Failed to write audit log entry for', event.action, error);
+  }
+}
+
+export const AUDIT_LOG_CSV_COLUMNS = ['Time', 'Action', 'Actor', 'Target Type', 'Target ID', 'IP Address', 'Before', 'After'];
+
+export function toAuditLogCsv(entries: AuditLogEntry[]): string {
+  return toCsv([
+    AUDIT_LOG_CSV_COLUMNS,
+    ...entries.map(entry => [
+      entry.createdAt.toISOString(),
+      entry.action,
+      entry.actor ?? '',
+      entry.targetType,
+      entry.targetId ?? '',
+      entry.ip ?? '',
+      entry.before === null ? '' : JSON.stringify(entry.before),
+      entry.after === null ? '' : JSON.stringify(entry.after)
+    ])
+  ]);
+}
@@ -0,0 +1,13 @@
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string): string {
+  // A leading apostrophe makes the app show user-entered text as it is instead of running it
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Render rows as RFC 4180 CSV with CRLF line endings
+export function toCsv(rows: string[][]): string {
+  return rows.map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,62 @@
+import { storage } from './storage';
+import type {
+  Donation,
+  DonationFieldChange,
+  InsertDonation,
+  UpdateDonationInput
+} from '@shared/schema';
+import { normalizePan } from '@shared/donors';
+
+// Optional fields are stored as null rather than empty strings
+const optionalFields = ['panNumber', 'purposeId', 'instrumentDate', 'drawnOn', 'instrumentNumber'] as const;
+
+function normalizeUpdates(input: UpdateDonationInput): Partial<InsertDonation> {
+  const { reason, ...updates } = input;
+  const normalized: Partial<InsertDonation> = { ...updates };
+  for (const field of optionalFields) {
+    if (field in updates) {
+      normalized[field] = updates[field]?.trim() || null;
+    }
+  }
+  if ('panNumber' in updates) {
+    normalized.panNumber = normalizePan(updates.panNumber);
+  }
+  return normalized;
+}
+
+// Fields whose submitted value differs from the stored donation, with both values
+export function diffDonation(donation: Donation, updates: Partial<InsertDonation>): DonationFieldChange[] {
+  return Object.entries(updates)
+    .filter(([, value]) => value !== undefined)
+    .map(([field, value]) => ({
+      field,
+      oldValue: (donation[field as keyof InsertDonation] ?? null) as DonationFieldChange['oldValue'],
+      newValue: (value ?? null) as DonationFieldChange['newValue']
+    }))
+    .filter(change => change.oldValue !== change.newValue);
+}
+
+// The donation as it would look after the edit, used to validate the result before saving it
+export function previewRevision(donation: Donation, input: UpdateDonationInput): Donation {
+  return { ...donation, ...normalizeUpdates(input) };
+}
+
+// Apply an admin edit and record who changed which fields.
+// Returns the donation unchanged when the edit does not change anything.
+export async function reviseDonation(donation: Donation, input: UpdateDonationInput, changedBy: string): Promise<{ donation: Donation; changed: boolean }> {
+  const updates = normalizeUpdates(input);
+  const changes = diffDonation(donation, updates);
+  if (changes.length === 0) {
+    return { donation, changed: false };
+  }
+
+  const changedFields = Object.fromEntries(changes.map(change => [change.field, change.newValue]));
+  const revised = await storage.reviseDonation(donation.id, changedFields, {
+    donationId: donation.id,
+    changedBy,
+    changedAt: new Date(),
+    reason: input.reason || null,
+    changes
+  });
+  return { donation: revised ?? donation, changed: revised !== undefined };
+}
@@ -0,0 +1,190 @@
+import { storage } from './storage';
+import type { Donation, Donor, InsertDonor } from '@shared/schema';
+import type { RecordId } from '@shared/ids';
+import { financialYear } from '@shared/receiptSeries';
+import {
+  normalizePan,
+  normalizeEmail,
+  normalizePhone,
+  normalizeName
+} from '@shared/donors';
+
+export interface DonorDetails {
+  donorName: string;
+  contactNumber: string;
+  address: string;
+  email: string;
+  panNumber?: string | null;
+}
+
+function toInsertDonor(details: DonorDetails): InsertDonor {
+  return {
+    name: details.donorName.trim(),
+    contactNumber: details.contactNumber.trim(),
+    address: details.address.trim(),
+    email: normalizeEmail(details.email),
+    panNumber: normalizePan(details.panNumber)
+  };
+}
+
+// Rank a candidate: a PAN match beats an email match, which beats a phone match
+function matchScore(donor: Donor, details: InsertDonor): number {
+  if (details.panNumber && donor.panNumber === details.panNumber) return 3;
+  if (details.email && donor.email === details.email) return 2;
+  if (normalizePhone(donor.contactNumber) === normalizePhone(details.contactNumber)) return 1;
+  return 0;
+}
+
+// Fields the existing record is missing but the new details provide
+function missingFields(donor: Donor, details: InsertDonor): Partial<InsertDonor> {
+  const updates: Partial<InsertDonor> = {};
+  if (!donor.panNumber && details.panNumber) updates.panNumber = details.panNumber;
+  if (!donor.email && details.email) updates.email = details.email;
+  if (!donor.contactNumber && details.contactNumber) updates.contactNumber = details.contactNumber;
+  if (!donor.address && details.address) updates.address = details.address;
+  return updates;
+}
+
+function createdTime(donor: Donor): number {
+  return donor.createdAt?.getTime() ?? 0;
+}
+
+// Find the donor these details belong to, matching on PAN, email or phone, or create a new one
+export async function resolveDonor(details: DonorDetails): Promise<Donor> {
+  const insertDonor = toInsertDonor(details);
+  const candidates = await storage.findDonors(insertDonor);
+
+  // Two different PANs are two different people, whatever else they share
+  const match = candidates
+    .filter(donor => !insertDonor.panNumber || !donor.panNumber || donor.panNumber === insertDonor.panNumber)
+    .map(donor => ({ donor, score: matchScore(donor, insertDonor) }))
+    .filter(candidate => candidate.score > 0)
+    // Between equal matches, the longest-standing record wins
+    .sort((a, b) => b.score - a.score || createdTime(a.donor) - createdTime(b.donor))[0];
+
+  if (!match) {
+    return storage.createDonor(insertDonor);
+  }
+
+  const updates = missingFields(match.donor, insertDonor);
+  if (Object.keys(updates).length === 0) {
+    return match.donor;
+  }
+  return (await storage.updateDonor(match.donor.id, updates)) ?? match.donor;
+}
+
+// Link donations saved before donors were tracked to their donor records
+export async function linkUnassignedDonations(): Promise<number> {
+  const donations = await storage.getDonations();
+  let linked = 0;
+
+  for (const donation of donations) {
+    if (donation.donorId) continue;
+    const donor = await resolveDonor(donation);
+    await storage.setDonationDonor(donation.id, donor.id);
+    linked++;
+  }
+
+  return linked;
+}
+
+// Groups of donors that look like the same person: same PAN, email, phone or name
+export function findDuplicateDonors(donors: Donor[]): Donor[][] {
+  const parent = new Map<RecordId, RecordId>();
+  const find = (id: RecordId): RecordId => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  const firstByKey = new Map<string, RecordId>();
+  for (const donor of donors) {
+    const keys = [
+      donor.panNumber && `pan:${donor.panNumber}`,
+      donor.email && `email:${donor.email}`,
+      normalizePhone(donor.contactNumber) && `phone:${normalizePhone(donor.contactNumber)}`,
+      `name:${normalizeName(donor.name)}`
+    ].filter((key): key is string => !!key);
+
+    for (const key of keys) {
+      const other = firstByKey.get(key);
+      if (other === undefined) {
+        firstByKey.set(key, donor.id);
+      } else {
+        parent.set(find(donor.id), find(other));
+      }
+    }
+  }
+
+  const groups = new Map<RecordId, Donor[]>();
+  for (const donor of donors) {
+    const root = find(donor.id);
+    groups.set(root, [...(groups.get(root) ?? []), donor]);
+  }
+  return Array.from(groups.values()).filter(group => group.length > 1);
+}
+
+// Merge duplicates into the target, keeping the target's details and filling any gaps from the others
+export async function mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<Donor | undefined> {
+  const target = await storage.getDonor(targetId);
+  if (!target) return undefined;
+
+  const sources = (await Promise.all(sourceIds.map(id => storage.getDonor(id))))
+    .filter((donor): donor is Donor => !!donor);
+
+  const updates = sources.reduce<Partial<InsertDonor>>(
+    (filled, source) => ({ ...missingFields({ ...target, ...filled } as Donor, source), ...filled }),
+    {}
+  );
+
+  await storage.mergeDonors(targetId, sources.map(source => source.id));
+  if (Object.keys(updates).length > 0) {
+    return storage.updateDonor(targetId, updates);
+  }
+  return storage.getDonor(targetId);
+}
+
+export interface DonationBreakdown {
+  key: string;
+  count: number;
+  total: number;
+}
+
+export interface DonationSummary {
+  donationCount: number;
+  lifetimeTotal: number;
+  firstDonationDate: string | null;
+  lastDonationDate: string | null;
+  byFinancialYear: DonationBreakdown[];
+  byPaymentMode: DonationBreakdown[];
+  byPurpose: DonationBreakdown[];
+}
+
+function breakdown(donations: Donation[], keyOf: (donation: Donation) => string): DonationBreakdown[] {
+  const totals = new Map<string, DonationBreakdown>();
+  for (const donation of donations) {
+    const key = keyOf(donation);
+    const current = totals.get(key) ?? { key, count: 0, total: 0 };
+    totals.set(key, { key, count: current.count + 1, total: current.total + donation.amount });
+  }
+  return Array.from(totals.values());
+}
+
+// Totals and breakdowns of one donor's giving history
+export function summarizeDonations(donations: Donation[]): DonationSummary {
+  const dates = donations.map(donation => donation.date).sort();
+  return {
+    donationCount: donations.length,
+    lifetimeTotal: donations.reduce((sum, donation) => sum + donation.amount, 0),
+    firstDonationDate: dates[0] ?? null,
+    lastDonationDate: dates[dates.length - 1] ?? null,
+    byFinancialYear: breakdown(donations, donation => financialYear(donation.date))
+      .sort((a, b) => b.key.localeCompare(a.key)),
+    byPaymentMode: breakdown(donations, donation => donation.paymentMode)
+      .sort((a, b) => b.total - a.total),
+    byPurpose: breakdown(donations, donation => donation.purpose.trim())
+      .sort((a, b) => b.total - a.total)
+  };
+}
@@ -22,7 +22,13 @@ const transporter = nodemailer.createTransport({
 });
 
 // Function to send email with PDF attachment
-export async function sendEmailWithAttachment(to: string, subject: string, text: string, pdfBuffer: Buffer): Promise<void> {
+export async function sendEmailWithAttachment(
+  to: string,
+  subject: string,
+  text: string,
+  pdfBuffer: Buffer,
+  filename: string = 'donation-receipt.pdf'
+): Promise<void> {
   try {
     // Verify connection configuration
     await transporter.verify();
@@ -35,7 +41,7 @@ export async function sendEmailWithAttachment(to: string, subject: string, text:
       text,
       attachments: [
         {
-          filename: 'donation-receipt.pdf',
+          filename,
           content: pdfBuffer,
           contentType: 'application/pdf',
         },
@@ -48,3 +54,28 @@ export async function sendEmailWithAttachment(to: string, subject: string, text:
     throw error;
   }
 }
+
+// Function to send the one-time password reset link
+export async function sendPasswordResetEmail(to: string, resetLink: string, expiresInMinutes: number): Promise<void> {
+  try {
+    const info = await transporter.sendMail({
+      from: process.env.EMAIL_FROM || 'noreply@example.com',
+      to,
+      subject: 'Reset your password',
+      text: [
+        'A password reset was requested for your Anant Aman account by an administrator.',
+        '',
+        `Use the link below to choose a new password. It can be used once and expires in ${expiresInMinutes} minutes.`,
+        '',
+        resetLink,
+        '',
+        'If you did not expect this email, please contact your administrator.',
+      ].join('\n'),
+    });
+    
+    console.log('Password reset email sent successfully:', info.messageId);
+  } catch (error) {
+    console.error('Error sending password reset email:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,649 @@
+import fs from 'fs';
+import path from 'path';
+import type {
+  User,
+  InsertUser,
+  Donation,
+  InsertDonation,
+  NewDonation,
+  DonationRevision,
+  InsertDonationRevision,
+  DonationCancellation,
+  Donor,
+  InsertDonor,
+  PasswordResetToken,
+  LoginAttempt,
+  InsertLoginAttempt,
+  Setting,
+  AuditLogEntry,
+  InsertAuditLogEntry
+} from '@shared/schema';
+import type { AuditLogQuery } from '@shared/auditLog';
+import type { RecordId } from '@shared/ids';
+import type { DonorMatchCriteria } from '@shared/donors';
+import type { Purpose, PurposeInput } from '@shared/purposes';
+import type { DonationQuery, PagedResult } from '@shared/donationQuery';
+import { MemStorage } from './memStorage';
+import type { IStorage } from './storage';
+import { StorageUnavailableError } from './storageErrors';
+
+// Starts the ids of users, donors and donations created in the journal, which the
+// database never hands out, so a journal id cannot point at a database record
+const JOURNAL_ID_PREFIX = 'j-';
+
+// IStorage methods that change data; every call is written to the journal
+type JournaledOperation =
+  | 'createUser' | 'updateUserStatus' | 'deleteUser' | 'updateUserPassword'
+  | 'createPasswordResetToken' | 'consumePasswordResetToken'
+  | 'saveLoginAttempt' | 'deleteLoginAttempt'
+  | 'nextSequence'
+  | 'createDonor' | 'updateDonor' | 'mergeDonors' | 'setDonationDonor'
+  | 'createDonation' | 'reviseDonation' | 'cancelDonation' | 'assignLegacyPurpose'
+  | 'appendAuditLog';
+
+interface JournalEntry {
+  seq: number;
+  at: Date;
+  op: JournaledOperation;
+  args: unknown[];
+  result: unknown;
+}
+
+// Saved after every replayed entry, so a replay interrupted by another outage resumes where it stopped
+interface ReplayProgress {
+  replayedSeq: number;
+  // Ids the primary store gave to records first created in the journal, keyed by their journal id
+  userIds: Record<string, RecordId>;
+  donorIds: Record<string, RecordId>;
+  donationIds: Record<string, RecordId>;
+  // Records that could not be replayed; later changes to them are set aside as well
+  conflictedUserIds: RecordId[];
+  conflictedDonationIds: RecordId[];
+}
+
+// Users, settings, purposes, donors and counters copied from the database while it
+// was reachable, so users can sign in, donations can be entered against the catalog
+// and linked to existing donors, and receipts carry on from the database's numbering
+// while the journal is in use. The snapshot is never replayed.
+interface Snapshot {
+  takenAt: Date | null;
+  users: User[];
+  settings: Setting[];
+  purposes: Purpose[];
+  donors: Donor[];
+  sequences: Record<string, number>;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflicts: number;
+}
+
+function emptySnapshot(): Snapshot {
+  return { takenAt: null, users: [], settings: [], purposes: [], donors: [], sequences: {} };
+}
+
+function emptyProgress(): ReplayProgress {
+  return {
+    replayedSeq: 0,
+    userIds: {},
+    donorIds: {},
+    donationIds: {},
+    conflictedUserIds: [],
+    conflictedDonationIds: []
+  };
+}
+
+// Dates are tagged so they come back as Date objects rather than strings
+function serialize(value: unknown): string {
+  return JSON.stringify(value, function (this: Record<string, unknown>, key: string, field: unknown) {
+    const original = this[key];
+    return original instanceof Date ? { $date: original.toISOString() } : field;
+  });
+}
+
+function deserialize<T>(text: string): T {
+  return JSON.parse(text, (_key, field) =>
+    field && typeof field === 'object' && typeof field.$date === 'string' && Object.keys(field).length === 1
+      ? new Date(field.$date)
+      : field
+  );
+}
+
+// Fallback store used while the database is unavailable. State is held in memory
+// and every write is appended to a journal file, so nothing is lost on restart;
+// the journal is replayed into the database once it is reachable again.
+export class JournalStorage implements IStorage {
+  private journalPath: string;
+  private state: MemStorage;
+  private entries: JournalEntry[] = [];
+  private nextSeq: number = 1;
+  private progress: ReplayProgress = emptyProgress();
+  private snapshot: Snapshot = emptySnapshot();
+  private fd: number | null = null;
+  // Timestamp handed to the in-memory store while an entry is applied
+  private clock: Date | null = null;
+  private ready: Promise<void>;
+  private replaying: Promise<ReplayResult> | null = null;
+
+  constructor(journalPath: string) {
+    this.journalPath = journalPath;
+    this.state = this.createState();
+    this.ready = this.load();
+    this.ready.catch(error => console.error('Failed to load the fallback journal:', error));
+  }
+
+  private get progressPath(): string {
+    return `${this.journalPath}.replay.json`;
+  }
+
+  private get snapshotPath(): string {
+    return `${this.journalPath}.snapshot.json`;
+  }
+
+  // Entries that could not be replayed are kept here for an admin to resolve by hand
+  get conflictsPath(): string {
+    return `${this.journalPath}.conflicts.jsonl`;
+  }
+
+  // Journaled writes not yet copied into the database
+  get pendingWrites(): number {
+    return this.entries.filter(entry => entry.seq > this.progress.replayedSeq && entry.op !== 'nextSequence').length;
+  }
+
+  private createState(): MemStorage {
+    const state = new MemStorage(() => this.clock ?? new Date(), JOURNAL_ID_PREFIX);
+    state.restore(this.snapshot);
+    return state;
+  }
+
+  // Rebuild the in-memory state from writes journaled before the last restart
+  private async load(): Promise<void> {
+    if (fs.existsSync(this.snapshotPath)) {
+      this.snapshot = deserialize<Snapshot>(fs.readFileSync(this.snapshotPath, 'utf8'));
+      this.state = this.createState();
+    }
+    if (fs.existsSync(this.progressPath)) {
+      this.progress = deserialize<ReplayProgress>(fs.readFileSync(this.progressPath, 'utf8'));
+    }
+    if (!fs.existsSync(this.journalPath)) return;
+
+    const lines = fs.readFileSync(this.journalPath, 'utf8').split('\n').filter(line => line.trim());
+    for (const line of lines) {
+      let entry: JournalEntry;
+      try {
+        entry = deserialize<JournalEntry>(line);
+      } catch (error: unknown) {
+        // Only the last line can be cut short, by a crash while it was being written
+        console.error('Skipping unreadable fallback journal line:', line.slice(0, 200));
+        continue;
+      }
+
+      await this.apply(entry.at, state => entry.op === 'nextSequence'
+        // Seeded so the counter lands on the value handed out originally
+        ? state.nextSequence(entry.args[0] as string, async () => (entry.result as number) - 1)
+        : (state[entry.op] as (...args: unknown[]) => Promise<unknown>).apply(state, entry.args));
+      this.entries.push(entry);
+      this.nextSeq = entry.seq + 1;
+    }
+    console.log(`Restored ${lines.length} writes from the fallback journal, ${this.pendingWrites} not yet in the database`);
+  }
+
+  // Run an operation on the in-memory store with its clock fixed at `at`. The
+  // clock only needs to hold while the operation starts, since the in-memory
+  // store reads it before its first await.
+  private apply<T>(at: Date, operation: (state: MemStorage) => Promise<T>): Promise<T> {
+    this.clock = at;
+    try {
+      return operation(this.state);
+    } finally {
+      this.clock = null;
+    }
+  }
+
+  private async read<T>(operation: (state: MemStorage) => Promise<T>): Promise<T> {
+    await this.ready;
+    return operation(this.state);
+  }
+
+  private async write<T>(op: JournaledOperation, args: unknown[], operation: (state: MemStorage) => Promise<T>): Promise<T> {
+    await this.ready;
+    const at = new Date();
+    const result = await this.apply(at, operation);
+    this.append({ seq: this.nextSeq++, at, op, args, result });
+    return result;
+  }
+
+  private append(entry: JournalEntry): void {
+    if (this.fd === null) {
+      fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+      this.fd = fs.openSync(this.journalPath, 'a');
+    }
+    fs.writeSync(this.fd, serialize(entry) + '\n');
+    // On disk before the request is answered, so an acknowledged write survives a crash
+    fs.fsyncSync(this.fd);
+    this.entries.push(entry);
+  }
+
+  private saveProgress(): void {
+    fs.writeFileSync(this.progressPath, serialize(this.progress));
+  }
+
+  private saveSnapshot(): void {
+    fs.mkdirSync(path.dirname(this.snapshotPath), { recursive: true });
+    fs.writeFileSync(this.snapshotPath, serialize(this.snapshot));
+  }
+
+  // Copy users, settings, purposes, donors and counters from the database. Skipped
+  // while journaled writes are waiting, since those were made on top of the current
+  // snapshot.
+  async takeSnapshot(primary: IStorage): Promise<void> {
+    await this.ready;
+    if (this.entries.length > 0 || this.replaying) return;
+
+    const [users, settings, purposes, donors, sequences] = await Promise.all([
+      primary.getUsers(),
+      primary.getSettings(),
+      primary.getPurposes(),
+      primary.getDonors(),
+      primary.getSequences()
+    ]);
+    // A write may have reached the journal while the database was being read
+    if (this.entries.length > 0 || this.replaying) return;
+
+    // Counters only move forward; a value noted while they were read may be newer
+    for (const [name, value] of Object.entries(this.snapshot.sequences)) {
+      sequences[name] = Math.max(sequences[name] ?? value, value);
+    }
+    this.snapshot = { takenAt: new Date(), users, settings, purposes, donors, sequences };
+    this.saveSnapshot();
+    this.state = this.createState();
+  }
+
+  // Note a counter value the database handed out, so the journal never hands it out again
+  noteSequence(name: string, value: number): void {
+    const sequences = this.snapshot.sequences;
+    sequences[name] = Math.max(sequences[name] ?? value, value);
+    this.saveSnapshot();
+    this.state.restore({ sequences: { [name]: value } });
+  }
+
+  private recordConflict(entry: JournalEntry, reason: string): void {
+    console.error(`Fallback journal entry ${entry.seq} (${entry.op}) was not replayed: ${reason}`);
+    fs.appendFileSync(this.conflictsPath, serialize({ ...entry, reason, detectedAt: new Date() }) + '\n');
+  }
+
+  // Start again from an empty journal once everything has been replayed
+  private clear(): void {
+    if (this.fd !== null) {
+      fs.closeSync(this.fd);
+      this.fd = null;
+    }
+    fs.rmSync(this.journalPath, { force: true });
+    fs.rmSync(this.progressPath, { force: true });
+    this.entries = [];
+    this.nextSeq = 1;
+    this.progress = emptyProgress();
+    this.state = this.createState();
+  }
+
+  // Copy the journaled writes into the primary store in their original order,
+  // then clear the journal. A failure stops the replay and leaves the remaining
+  // entries for the next attempt.
+  async replayInto(primary: IStorage): Promise<ReplayResult> {
+    if (!this.replaying) {
+      this.replaying = this.replay(primary).finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replay(primary: IStorage): Promise<ReplayResult> {
+    await this.ready;
+    const result: ReplayResult = { replayed: 0, conflicts: 0 };
+
+    // Writes made while the replay runs are appended to `entries` and picked up by this loop
+    for (let index = 0; index < this.entries.length; index++) {
+      const entry = this.entries[index];
+      if (entry.seq <= this.progress.replayedSeq) continue;
+
+      // Counters are local to each store, so only the values they produced are replayed
+      if (entry.op !== 'nextSequence') {
+        const conflict = await this.replayEntry(primary, entry);
+        if (conflict) {
+          this.recordConflict(entry, conflict);
+          result.conflicts++;
+        } else {
+          result.replayed++;
+        }
+      }
+      this.progress.replayedSeq = entry.seq;
+      this.saveProgress();
+    }
+
+    this.clear();
+    return result;
+  }
+
+  // Apply one entry to the primary store, translating ids assigned by the journal
+  // into the ones the primary store assigned. Returns why the entry was set
+  // aside, or null once it has been applied.
+  private async replayEntry(primary: IStorage, entry: JournalEntry): Promise<string | null> {
+    const ids = this.progress;
+    const userId = (id: RecordId) => ids.userIds[id] ?? id;
+    const donorId = (id: RecordId) => ids.donorIds[id] ?? id;
+    const donationId = (id: RecordId) => ids.donationIds[id] ?? id;
+    const userConflict = (id: RecordId) =>
+      ids.conflictedUserIds.includes(id) ? `User ${id} was set aside as a conflict` : null;
+    const donationConflict = (id: RecordId) =>
+      ids.conflictedDonationIds.includes(id) ? `Donation ${id} was set aside as a conflict` : null;
+
+    switch (entry.op) {
+      case 'createUser': {
+        const [insertUser] = entry.args as [InsertUser];
+        const created = entry.result as User;
+        if (await primary.getUserByUsername(insertUser.username)) {
+          ids.conflictedUserIds.push(created.id);
+          return `A user named ${insertUser.username} already exists`;
+        }
+        ids.userIds[created.id] = (await primary.createUser(insertUser)).id;
+        return null;
+      }
+      case 'updateUserStatus': {
+        const [id, isActive] = entry.args as [RecordId, boolean];
+        const conflict = userConflict(id);
+        if (!conflict) await primary.updateUserStatus(userId(id), isActive);
+        return conflict;
+      }
+      case 'deleteUser': {
+        const [id] = entry.args as [RecordId];
+        const conflict = userConflict(id);
+        if (!conflict) await primary.deleteUser(userId(id));
+        return conflict;
+      }
+      case 'updateUserPassword': {
+        const [id, password] = entry.args as [RecordId, string];
+        const conflict = userConflict(id);
+        if (!conflict) await primary.updateUserPassword(userId(id), password);
+        return conflict;
+      }
+      case 'createPasswordResetToken': {
+        const [id, tokenHash, expiresAt] = entry.args as [RecordId, string, Date];
+        const conflict = userConflict(id);
+        if (!conflict) await primary.createPasswordResetToken(userId(id), tokenHash, expiresAt);
+        return conflict;
+      }
+      case 'consumePasswordResetToken': {
+        const [tokenHash] = entry.args as [string];
+        await primary.consumePasswordResetToken(tokenHash);
+        return null;
+      }
+      case 'saveLoginAttempt': {
+        const [attempt] = entry.args as [InsertLoginAttempt];
+        await primary.saveLoginAttempt(attempt);
+        return null;
+      }
+      case 'deleteLoginAttempt': {
+        const [key] = entry.args as [string];
+        await primary.deleteLoginAttempt(key);
+        return null;
+      }
+      case 'createDonor': {
+        const [insertDonor] = entry.args as [InsertDonor];
+        ids.donorIds[(entry.result as Donor).id] = (await primary.createDonor(insertDonor)).id;
+        return null;
+      }
+      case 'updateDonor': {
+        const [id, updates] = entry.args as [RecordId, Partial<InsertDonor>];
+        await primary.updateDonor(donorId(id), updates);
+        return null;
+      }
+      case 'mergeDonors': {
+        const [targetId, sourceIds] = entry.args as [RecordId, RecordId[]];
+        await primary.mergeDonors(donorId(targetId), sourceIds.map(donorId));
+        return null;
+      }
+      case 'setDonationDonor': {
+        const [id, donor] = entry.args as [RecordId, RecordId];
+        const conflict = donationConflict(id);
+        if (!conflict) await primary.setDonationDonor(donationId(id), donorId(donor));
+        return conflict;
+      }
+      case 'createDonation': {
+        const [newDonation] = entry.args as [NewDonation];
+        const created = entry.result as Donation;
+        // Receipt numbers handed out during the outage may already be used by the database
+        if (await primary.getDonationByReceiptNumber(newDonation.receiptNumber)) {
+          ids.conflictedDonationIds.push(created.id);
+          return `Receipt number ${newDonation.receiptNumber} is already in use in the database`;
+        }
+        const donation = await primary.createDonation({
+          ...newDonation,
+          donorId: newDonation.donorId != null ? donorId(newDonation.donorId) : newDonation.donorId
+        });
+        ids.donationIds[created.id] = donation.id;
+        return null;
+      }
+      case 'reviseDonation': {
+        const [id, updates, revision] = entry.args as [RecordId, Partial<InsertDonation>, InsertDonationRevision];
+        const conflict = donationConflict(id);
+        if (!conflict) {
+          await primary.reviseDonation(donationId(id), updates, { ...revision, donationId: donationId(revision.donationId) });
+        }
+        return conflict;
+      }
+      case 'cancelDonation': {
+        const [id, cancellation] = entry.args as [RecordId, DonationCancellation];
+        const conflict = donationConflict(id);
+        if (!conflict) {
+          await primary.cancelDonation(donationId(id), {
+            ...cancellation,
+            replacementDonationId: cancellation.replacementDonationId !== null
+              ? donationId(cancellation.replacementDonationId)
+              : null
+          });
+        }
+        return conflict;
+      }
+      case 'assignLegacyPurpose': {
+        // Also links matching donations the database received from elsewhere during the outage
+        const [purpose, purposeId] = entry.args as [string, RecordId];
+        await primary.assignLegacyPurpose(purpose, purposeId);
+        return null;
+      }
+      case 'appendAuditLog': {
+        const [auditEntry] = entry.args as [InsertAuditLogEntry];
+        const targetId = auditEntry.targetId;
+        const mappedTargetId = targetId === null ? null
+          : auditEntry.targetType === 'user' ? userId(targetId)
+          : auditEntry.targetType === 'donor' ? donorId(targetId)
+          : auditEntry.targetType === 'donation' ? donationId(targetId)
+          : targetId;
+        await primary.appendAuditLog({ ...auditEntry, targetId: mappedTargetId });
+        return null;
+      }
+      case 'nextSequence':
+        return null;
+    }
+  }
+
+  // User operations
+  async getUser(id: RecordId): Promise<User | undefined> {
+    return this.read(state => state.getUser(id));
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.read(state => state.getUserByUsername(username));
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    return this.write('createUser', [user], state => state.createUser(user));
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.read(state => state.getUsers());
+  }
+
+  async updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined> {
+    return this.write('updateUserStatus', [id, isActive], state => state.updateUserStatus(id, isActive));
+  }
+
+  async deleteUser(id: RecordId): Promise<void> {
+    return this.write('deleteUser', [id], state => state.deleteUser(id));
+  }
+
+  async updateUserPassword(id: RecordId, password: string): Promise<User | undefined> {
+    return this.write('updateUserPassword', [id, password], state => state.updateUserPassword(id, password));
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void> {
+    return this.write('createPasswordResetToken', [userId, tokenHash, expiresAt],
+      state => state.createPasswordResetToken(userId, tokenHash, expiresAt));
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.write('consumePasswordResetToken', [tokenHash], state => state.consumePasswordResetToken(tokenHash));
+  }
+
+  // Login throttling operations
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    return this.read(state => state.getLoginAttempt(key));
+  }
+
+  async getLoginAttempts(): Promise<LoginAttempt[]> {
+    return this.read(state => state.getLoginAttempts());
+  }
+
+  async saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    return this.write('saveLoginAttempt', [attempt], state => state.saveLoginAttempt(attempt));
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    return this.write('deleteLoginAttempt', [key], state => state.deleteLoginAttempt(key));
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.read(state => state.getSetting(key));
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    return this.read(state => state.getSettings());
+  }
+
+  // Settings decide how receipts are numbered and printed, so they are only changed in the database
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting> {
+    throw new StorageUnavailableError('Settings cannot be changed while the database is unavailable', false);
+  }
+
+  async nextSequence(name: string, seed: () => Promise<number>): Promise<number> {
+    return this.write('nextSequence', [name], state => state.nextSequence(name, seed));
+  }
+
+  async getSequences(): Promise<Record<string, number>> {
+    return this.read(state => state.getSequences());
+  }
+
+  // Purpose catalog operations
+  async getPurposes(): Promise<Purpose[]> {
+    return this.read(state => state.getPurposes());
+  }
+
+  // The catalog decides which donations may be entered, so like settings it is only changed in the database
+  async createPurpose(purpose: PurposeInput): Promise<Purpose> {
+    throw new StorageUnavailableError('Purposes cannot be changed while the database is unavailable', false);
+  }
+
+  async updatePurpose(id: RecordId, purpose: PurposeInput): Promise<Purpose | undefined> {
+    throw new StorageUnavailableError('Purposes cannot be changed while the database is unavailable', false);
+  }
+
+  // Donor operations
+  async getDonor(id: RecordId): Promise<Donor | undefined> {
+    return this.read(state => state.getDonor(id));
+  }
+
+  async getDonors(): Promise<Donor[]> {
+    return this.read(state => state.getDonors());
+  }
+
+  async findDonors(criteria: DonorMatchCriteria): Promise<Donor[]> {
+    return this.read(state => state.findDonors(criteria));
+  }
+
+  async searchDonors(query: string, limit: number): Promise<Donor[]> {
+    return this.read(state => state.searchDonors(query, limit));
+  }
+
+  async createDonor(donor: InsertDonor): Promise<Donor> {
+    return this.write('createDonor', [donor], state => state.createDonor(donor));
+  }
+
+  async updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined> {
+    return this.write('updateDonor', [id, updates], state => state.updateDonor(id, updates));
+  }
+
+  async mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void> {
+    return this.write('mergeDonors', [targetId, sourceIds], state => state.mergeDonors(targetId, sourceIds));
+  }
+
+  async setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void> {
+    return this.write('setDonationDonor', [donationId, donorId], state => state.setDonationDonor(donationId, donorId));
+  }
+
+  // Donation operations
+  async createDonation(donation: NewDonation): Promise<Donation> {
+    return this.write('createDonation', [donation], state => state.createDonation(donation));
+  }
+
+  async getDonationsByDonor(donorId: RecordId): Promise<Donation[]> {
+    return this.read(state => state.getDonationsByDonor(donorId));
+  }
+
+  async getDonation(id: RecordId): Promise<Donation | undefined> {
+    return this.read(state => state.getDonation(id));
+  }
+
+  async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
+    return this.read(state => state.getDonationByReceiptNumber(receiptNumber));
+  }
+
+  async getDonations(): Promise<Donation[]> {
+    return this.read(state => state.getDonations());
+  }
+
+  async queryDonations(query: DonationQuery): Promise<PagedResult<Donation>> {
+    return this.read(state => state.queryDonations(query));
+  }
+
+  async reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined> {
+    return this.write('reviseDonation', [id, updates, revision], state => state.reviseDonation(id, updates, revision));
+  }
+
+  async getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]> {
+    return this.read(state => state.getDonationRevisions(donationId));
+  }
+
+  async cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined> {
+    return this.write('cancelDonation', [id, cancellation], state => state.cancelDonation(id, cancellation));
+  }
+
+  async assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number> {
+    return this.write('assignLegacyPurpose', [purpose, purposeId], state => state.assignLegacyPurpose(purpose, purposeId));
+  }
+
+  async getLastReceiptNumber(): Promise<string | undefined> {
+    return this.read(state => state.getLastReceiptNumber());
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    return this.write('appendAuditLog', [entry], state => state.appendAuditLog(entry));
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    return this.read(state => state.queryAuditLog(query));
+  }
+}
@@ -0,0 +1,143 @@
+import type { Donation } from "@shared/schema";
+import type { RecordId } from "@shared/ids";
+import {
+  panPattern,
+  CASH_DEDUCTION_LIMIT,
+  type OrganizationSettings
+} from "@shared/organization";
+import { financialYear } from "@shared/receiptSeries";
+import { toCsv } from "./csv";
+
+// Column headings of the Form 10BD CSV template published on the income tax portal
+export const FORM_10BD_COLUMNS = [
+  "Sr. No.",
+  "Pre Acknowledgement Number",
+  "ID Code",
+  "Unique Identification Number",
+  "Section Code",
+  "Unique Registration Number (URN)",
+  "Date of Issuance of Unique Registration Number",
+  "Name of donor",
+  "Address of donor",
+  "Donation Type",
+  "Mode of receipt",
+  "Amount of donation (Indian rupees)",
+] as const;
+
+// ID code used by the portal for a PAN in the donor identification column. Donations
+// only record the donor's PAN, so the portal's other identification types are not used.
+const ID_CODE_PAN = "1";
+
+export interface Form10BDReject {
+  donationId: RecordId;
+  receiptNumber: string;
+  donorName: string;
+  amount: number;
+  reasons: string[];
+}
+
+export interface Form10BDStatement {
+  // Problems with the organisation profile that make the whole file unusable
+  issues: string[];
+  rows: string[][];
+  rejects: Form10BDReject[];
+  total: number;
+}
+
+function modeOfReceipt(paymentMode: string): string {
+  switch (paymentMode) {
+    case "cash":
+      return "Cash";
+    case "cheque":
+    case "dd":
+    case "online":
+      return "Electronic modes including account payee cheque/draft";
+    default:
+      return "Others";
+  }
+}
+
+function donorIdentification(panNumber: string | null): { idCode: string; id: string } | string {
+  const id = panNumber?.trim().toUpperCase().replace(/\s/g, "");
+  if (!id) return "Missing donor PAN";
+  if (panPattern.test(id)) return { idCode: ID_CODE_PAN, id };
+  return `Invalid PAN "${panNumber}"`;
+}
+
+function formatDate(date: string): string {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// Why a donation cannot be reported on Form 10BD, if it cannot. Donations
+// rejected here are not deductible, so they get no Form 10BE certificate either.
+export function form10BDRejectReasons(donation: Donation): string[] {
+  const reasons: string[] = [];
+
+  const identification = donorIdentification(donation.panNumber);
+  if (typeof identification === "string") reasons.push(identification);
+  if (!donation.address?.trim()) reasons.push("Missing donor address");
+  if (donation.paymentMode === "cash" && donation.amount > CASH_DEDUCTION_LIMIT) {
+    reasons.push(`Cash donation above ₹${CASH_DEDUCTION_LIMIT} is not eligible under Section 80G`);
+  }
+  if (!(donation.amount > 0)) reasons.push("Amount must be positive");
+  return reasons;
+}
+
+// Build the statement for a financial year; donations that fail validation are
+// reported as rejects instead of being written to the file
+export function buildForm10BDStatement(
+  donations: Donation[],
+  year: string,
+  organization: OrganizationSettings
+): Form10BDStatement {
+  const issues: string[] = [];
+  if (!organization.registration80G) issues.push("The 80G registration number (URN) is not set in Organisation settings");
+  if (!organization.registration80GValidFrom) issues.push("The 80G approval date is not set in Organisation settings");
+
+  const rows: string[][] = [];
+  const rejects: Form10BDReject[] = [];
+  let total = 0;
+
+  const inYear = donations
+    .filter(donation => financialYear(donation.date) === year)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.receiptNumber.localeCompare(b.receiptNumber));
+
+  for (const donation of inYear) {
+    const reasons = form10BDRejectReasons(donation);
+    const identification = donorIdentification(donation.panNumber);
+
+    if (typeof identification === "string" || reasons.length > 0) {
+      rejects.push({
+        donationId: donation.id,
+        receiptNumber: donation.receiptNumber,
+        donorName: donation.donorName,
+        amount: donation.amount,
+        reasons,
+      });
+      continue;
+    }
+
+    rows.push([
+      String(rows.length + 1),
+      "",
+      identification.idCode,
+      identification.id,
+      "Section 80G",
+      organization.registration80G,
+      organization.registration80GValidFrom ? formatDate(organization.registration80GValidFrom) : "",
+      donation.donorName.trim(),
+      donation.address.replace(/\s*\n\s*/g, ", ").trim(),
+      "Others",
+      modeOfReceipt(donation.paymentMode),
+      String(donation.amount),
+    ]);
+    total += donation.amount;
+  }
+
+  return { issues, rows, rejects, total };
+}
+
+export function toForm10BDCsv(statement: Form10BDStatement): string {
+  return toCsv([Array.from(FORM_10BD_COLUMNS), ...statement.rows]);
+}
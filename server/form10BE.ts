@@ -0,0 +1,154 @@
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import type { Donation } from "@shared/schema";
+import type { OrganizationSettings } from "@shared/organization";
+import { financialYear } from "@shared/receiptSeries";
+
+// All donations made by one donor in a financial year, certified together on one Form 10BE
+export interface DonorCertificate {
+  // Stable identity used to group the donor's receipts: PAN when known, otherwise email or name and phone
+  donorKey: string;
+  donorName: string;
+  panNumber: string | null;
+  address: string;
+  email: string;
+  donations: Donation[];
+  total: number;
+}
+
+export function donorKey(donation: Pick<Donation, "panNumber" | "email" | "donorName" | "contactNumber">): string {
+  const pan = donation.panNumber?.trim().toUpperCase();
+  if (pan) return `pan:${pan}`;
+  const email = donation.email?.trim().toLowerCase();
+  if (email) return `email:${email}`;
+  return `name:${donation.donorName.trim().toLowerCase()}|${donation.contactNumber.trim()}`;
+}
+
+export function groupDonationsByDonor(donations: Donation[], year: string): DonorCertificate[] {
+  const certificates = new Map<string, DonorCertificate>();
+
+  for (const donation of donations) {
+    if (financialYear(donation.date) !== year) continue;
+
+    const key = donorKey(donation);
+    let certificate = certificates.get(key);
+    if (!certificate) {
+      certificate = {
+        donorKey: key,
+        donorName: donation.donorName,
+        panNumber: donation.panNumber?.trim().toUpperCase() || null,
+        address: donation.address,
+        email: donation.email,
+        donations: [],
+        total: 0,
+      };
+      certificates.set(key, certificate);
+    }
+    certificate.donations.push(donation);
+    certificate.total += donation.amount;
+  }
+
+  return Array.from(certificates.values())
+    .map(certificate => ({
+      ...certificate,
+      donations: certificate.donations.sort((a, b) => a.date.localeCompare(b.date)),
+    }))
+    .sort((a, b) => a.donorName.localeCompare(b.donorName));
+}
+
+// Assessment year in which the deduction is claimed, e.g. 2027-28 for FY 2026-27
+function assessmentYear(year: string): string {
+  const start = parseInt(year.split("-")[0]) + 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, "0")}`;
+}
+
+function formatDate(date: string | null | undefined): string {
+  return date ? new Date(date).toLocaleDateString("en-IN") : "N/A";
+}
+
+// Render the Form 10BE certificate of donation for one donor
+export function generateForm10BEPdf(
+  certificate: DonorCertificate,
+  year: string,
+  organization: OrganizationSettings,
+  acknowledgementNumber?: string
+): Buffer {
+  // autoTable records where the last table ended on the document
+  const doc = new jsPDF() as jsPDF & { lastAutoTable: { finalY: number } };
+
+  doc.setFontSize(14);
+  doc.text("FORM No. 10BE", 105, 18, { align: "center" });
+  doc.setFontSize(9);
+  doc.text("[See rule 18AB of the Income-tax Rules, 1962]", 105, 24, { align: "center" });
+  doc.setFontSize(11);
+  doc.text("Certificate of donation under clause (ix) of sub-section (5) of section 80G", 105, 31, { align: "center" });
+
+  autoTable(doc, {
+    startY: 38,
+    theme: "grid",
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { cellWidth: 75, fontStyle: "bold" } },
+    body: [
+      ["Name of the reporting person", organization.name],
+      ["Address", organization.address],
+      ["PAN of the reporting person", organization.pan || "N/A"],
+      ["Approval number under section 80G", organization.registration80G || "N/A"],
+      ["Date of approval", formatDate(organization.registration80GValidFrom)],
+      ["Approval valid until", formatDate(organization.registration80GValidUntil)],
+      ["Acknowledgement number of Form 10BD", acknowledgementNumber || "N/A"],
+      ["Financial year / Assessment year", `${year} / ${assessmentYear(year)}`],
+      ["Donor identification number (PAN)", certificate.panNumber || "Not provided"],
+      ["Name of donor", certificate.donorName],
+      ["Address of donor", certificate.address],
+      ["Section", "80G"],
+      ["Type of donation", "Others"],
+    ],
+  });
+
+  autoTable(doc, {
+    startY: doc.lastAutoTable.finalY + 8,
+    theme: "grid",
+    styles: { fontSize: 9 },
+    headStyles: { fillColor: [63, 81, 181] },
+    head: [["Receipt No.", "Date", "Mode of receipt", "Purpose", "Amount (Rs.)"]],
+    body: certificate.donations.map(donation => [
+      donation.receiptNumber,
+      formatDate(donation.date),
+      donation.paymentMode.toUpperCase(),
+      donation.purpose,
+      donation.amount.toLocaleString("en-IN"),
+    ]),
+    foot: [["", "", "", "Total", certificate.total.toLocaleString("en-IN")]],
+  });
+
+  let y = doc.lastAutoTable.finalY + 10;
+  if (organization.eligibilityStatement) {
+    const statement = doc.splitTextToSize(organization.eligibilityStatement, 170);
+    doc.setFontSize(9);
+    doc.text(statement, 20, y);
+    y += statement.length * 4.5;
+  }
+
+  // Authorised signatory block
+  y += 8;
+  if (organization.signatureImage) {
+    const format = organization.signatureImage.startsWith("data:image/png") ? "PNG" : "JPEG";
+    doc.addImage(organization.signatureImage, format, 140, y, 45, 18);
+  }
+  y += 22;
+  doc.setFontSize(10);
+  doc.text("Authorised Signatory", 162, y, { align: "center" });
+  if (organization.signatoryName) {
+    doc.text(organization.signatoryName, 162, y + 5, { align: "center" });
+  }
+  if (organization.signatoryDesignation) {
+    doc.text(organization.signatoryDesignation, 162, y + 10, { align: "center" });
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
+
+export function form10BEFilename(certificate: DonorCertificate, year: string): string {
+  const name = `${certificate.donorName}-${certificate.panNumber || "NOPAN"}`.replace(/[^A-Za-z0-9-]/g, "_");
+  return `10BE-${year}-${name}.pdf`;
+}
@@ -8,7 +8,11 @@ import dotenv from 'dotenv';
 dotenv.config();
 
 const app = express();
-app.use(express.json());
+// Deployed behind a reverse proxy: needed for the client IP used by login
+// throttling and for secure session cookies
+app.set('trust proxy', 1);
+// Signature images are uploaded as base64 JSON
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 // Request logging middleware
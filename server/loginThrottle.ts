@@ -0,0 +1,113 @@
+import { storage } from './storage';
+import type { LoginAttempt } from '@shared/schema';
+
+interface ThrottlePolicy {
+  // Failures allowed before the key is locked out
+  maxFailures: number;
+  // Delay after the second failure; doubles with every further failure
+  baseDelayMs: number;
+  lockoutMs: number;
+}
+
+// Failures older than this are forgotten
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+
+const USERNAME_POLICY: ThrottlePolicy = {
+  maxFailures: 5,
+  baseDelayMs: 1000,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+// Several staff may share one office IP, so the IP limit is more lenient
+const IP_POLICY: ThrottlePolicy = {
+  maxFailures: 30,
+  baseDelayMs: 500,
+  lockoutMs: 15 * 60 * 1000,
+};
+
+export interface ThrottleResult {
+  allowed: boolean;
+  retryAfterSeconds: number;
+  locked: boolean;
+}
+
+export function usernameKey(username: string): string {
+  return `user:${username.trim().toLowerCase()}`;
+}
+
+function ipKey(ip: string): string {
+  return `ip:${ip}`;
+}
+
+export function isLockedOut(attempt: LoginAttempt, now: Date = new Date()): boolean {
+  return attempt.failedCount >= USERNAME_POLICY.maxFailures &&
+    attempt.lockedUntil !== null &&
+    attempt.lockedUntil > now;
+}
+
+function isStale(attempt: LoginAttempt, now: Date): boolean {
+  const lastFailedAt = attempt.lastFailedAt?.getTime() ?? 0;
+  const lockedUntil = attempt.lockedUntil?.getTime() ?? 0;
+  return now.getTime() - lastFailedAt > ATTEMPT_WINDOW_MS && lockedUntil <= now.getTime();
+}
+
+async function check(key: string, policy: ThrottlePolicy, now: Date): Promise<ThrottleResult> {
+  const attempt = await storage.getLoginAttempt(key);
+  if (!attempt || !attempt.lockedUntil || attempt.lockedUntil <= now) {
+    return { allowed: true, retryAfterSeconds: 0, locked: false };
+  }
+  return {
+    allowed: false,
+    retryAfterSeconds: Math.ceil((attempt.lockedUntil.getTime() - now.getTime()) / 1000),
+    locked: attempt.failedCount >= policy.maxFailures,
+  };
+}
+
+async function recordFailure(key: string, policy: ThrottlePolicy, now: Date): Promise<void> {
+  const existing = await storage.getLoginAttempt(key);
+  const failedCount = existing && !isStale(existing, now) ? existing.failedCount + 1 : 1;
+
+  let lockedUntil: Date | null = null;
+  if (failedCount >= policy.maxFailures) {
+    lockedUntil = new Date(now.getTime() + policy.lockoutMs);
+  } else if (failedCount >= 2) {
+    lockedUntil = new Date(now.getTime() + policy.baseDelayMs * 2 ** (failedCount - 2));
+  }
+
+  await storage.saveLoginAttempt({ key, failedCount, lastFailedAt: now, lockedUntil });
+}
+
+// Check both the username and the client IP before verifying a password
+export async function checkLoginAllowed(username: string, ip: string): Promise<ThrottleResult> {
+  const now = new Date();
+  const [byUser, byIp] = await Promise.all([
+    check(usernameKey(username), USERNAME_POLICY, now),
+    check(ipKey(ip), IP_POLICY, now),
+  ]);
+  if (!byUser.allowed) return byUser;
+  return byIp;
+}
+
+export async function recordLoginFailure(username: string, ip: string): Promise<void> {
+  const now = new Date();
+  await Promise.all([
+    recordFailure(usernameKey(username), USERNAME_POLICY, now),
+    recordFailure(ipKey(ip), IP_POLICY, now),
+  ]);
+}
+
+// A successful login clears the username counter; the IP counter is left to
+// expire on its own so one valid account cannot reset it for an attacker
+export async function recordLoginSuccess(username: string): Promise<void> {
+  await storage.deleteLoginAttempt(usernameKey(username));
+}
+
+export async function getLockedAccounts(): Promise<LoginAttempt[]> {
+  const now = new Date();
+  const attempts = await storage.getLoginAttempts();
+  return attempts.filter(attempt => attempt.key.startsWith('user:') && isLockedOut(attempt, now));
+}
+
+export async function unlockAccount(username: string): Promise<void> {
+  await storage.deleteLoginAttempt(usernameKey(username));
+}
@@ -0,0 +1,533 @@
+import { randomUUID } from "crypto";
+import type {
+  User,
+  InsertUser,
+  Donation,
+  InsertDonation,
+  NewDonation,
+  DonationRevision,
+  InsertDonationRevision,
+  DonationCancellation,
+  Donor,
+  InsertDonor,
+  PasswordResetToken,
+  LoginAttempt,
+  InsertLoginAttempt,
+  Setting,
+  AuditLogEntry,
+  InsertAuditLogEntry
+} from "../shared/schema";
+import type { AuditLogQuery } from "../shared/auditLog";
+import type { RecordId } from "../shared/ids";
+import { normalizePhone, type DonorMatchCriteria } from "../shared/donors";
+import type { Purpose, PurposeInput } from "../shared/purposes";
+import {
+  UNASSIGNED_CREATOR,
+  donationSearchFields,
+  isCancelled,
+  type DonationQuery,
+  type PagedResult
+} from "../shared/donationQuery";
+import type { IStorage } from './storage';
+
+export class MemStorage implements IStorage {
+  private users: Map<RecordId, User>;
+  private donations: Map<RecordId, Donation>;
+  private donors: Map<RecordId, Donor>;
+  private purposes: Map<RecordId, Purpose>;
+  private donationRevisions: DonationRevision[];
+  private auditLog: AuditLogEntry[];
+  private passwordResetTokens: Map<string, PasswordResetToken>;
+  private loginAttempts: Map<string, LoginAttempt>;
+  private settings: Map<string, Setting>;
+  private counters: Map<string, number>;
+  private userCurrentId: number;
+  private donationCurrentId: number;
+  private donationRevisionCurrentId: number;
+  private auditLogCurrentId: number;
+  private donorCurrentId: number;
+  private passwordResetTokenCurrentId: number;
+  private loginAttemptCurrentId: number;
+  private now: () => Date;
+  private idPrefix: string;
+
+  // `now` supplies timestamps, so a store rebuilt from a journal keeps the original times.
+  // `idPrefix` starts every user, donor and donation id, so they cannot be mistaken for
+  // ids handed out by another store.
+  constructor(now: () => Date = () => new Date(), idPrefix: string = '') {
+    this.now = now;
+    this.idPrefix = idPrefix;
+    this.users = new Map();
+    this.donations = new Map();
+    this.purposes = new Map();
+    this.donors = new Map();
+    this.donationRevisions = [];
+    this.auditLog = [];
+    this.passwordResetTokens = new Map();
+    this.loginAttempts = new Map();
+    this.settings = new Map();
+    this.counters = new Map();
+    this.userCurrentId = 1;
+    this.donationCurrentId = 1;
+    this.donationRevisionCurrentId = 1;
+    this.auditLogCurrentId = 1;
+    this.donorCurrentId = 1;
+    this.passwordResetTokenCurrentId = 1;
+    this.loginAttemptCurrentId = 1;
+  }
+
+  // Load records copied from another store, keeping their ids. Counters only move
+  // forward, so no value already handed out is handed out again.
+  restore(records: {
+    users?: User[];
+    settings?: Setting[];
+    purposes?: Purpose[];
+    donors?: Donor[];
+    sequences?: Record<string, number>;
+  }): void {
+    for (const user of records.users ?? []) {
+      this.users.set(user.id, user);
+      // New users must not take an id the other store already uses
+      const numericId = Number(user.id);
+      if (Number.isInteger(numericId) && numericId >= this.userCurrentId) {
+        this.userCurrentId = numericId + 1;
+      }
+    }
+    for (const setting of records.settings ?? []) {
+      this.settings.set(setting.key, setting);
+    }
+    for (const purpose of records.purposes ?? []) {
+      this.purposes.set(purpose.id, purpose);
+    }
+    for (const donor of records.donors ?? []) {
+      this.donors.set(donor.id, donor);
+    }
+    for (const [name, value] of Object.entries(records.sequences ?? {})) {
+      this.counters.set(name, Math.max(this.counters.get(name) ?? value, value));
+    }
+  }
+
+  // User operations
+  async getUser(id: RecordId): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username,
+    );
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    // Usernames are unique in the databases as well
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`Username ${insertUser.username} is already taken`);
+    }
+    
+    const id = this.idPrefix + this.userCurrentId++;
+    const now = this.now();
+    const user: User = { 
+      ...insertUser, 
+      id, 
+      isActive: true,
+      createdAt: now,
+      // Ensure role is set with a default if not provided
+      role: insertUser.role || "staff"
+    };
+    this.users.set(id, user);
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
+  async updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined> {
+    const user = this.users.get(id);
+    
+    if (!user) {
+      return undefined;
+    }
+    
+    const updatedUser = { ...user, isActive };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async deleteUser(id: RecordId): Promise<void> {
+    this.users.delete(id);
+  }
+
+  async updateUserPassword(id: RecordId, password: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    
+    if (!user) {
+      return undefined;
+    }
+    
+    const updatedUser = { ...user, password };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void> {
+    const id = String(this.passwordResetTokenCurrentId++);
+    this.passwordResetTokens.set(tokenHash, {
+      id,
+      userId,
+      tokenHash,
+      expiresAt,
+      createdAt: this.now()
+    });
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(tokenHash);
+    if (!token) return undefined;
+    
+    // Tokens are single use, so remove it whether or not it has expired
+    this.passwordResetTokens.delete(tokenHash);
+    return token.expiresAt > this.now() ? token : undefined;
+  }
+
+  // Login throttling operations
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    return this.loginAttempts.get(key);
+  }
+
+  async getLoginAttempts(): Promise<LoginAttempt[]> {
+    return Array.from(this.loginAttempts.values());
+  }
+
+  async saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    const existing = this.loginAttempts.get(attempt.key);
+    const saved: LoginAttempt = {
+      id: existing ? existing.id : String(this.loginAttemptCurrentId++),
+      key: attempt.key,
+      failedCount: attempt.failedCount ?? 0,
+      lastFailedAt: attempt.lastFailedAt ?? null,
+      lockedUntil: attempt.lockedUntil ?? null
+    };
+    this.loginAttempts.set(attempt.key, saved);
+    return saved;
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    this.loginAttempts.delete(key);
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.settings.get(key);
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    return Array.from(this.settings.values());
+  }
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting> {
+    const setting: Setting = { key, value, updatedBy, updatedAt: this.now() };
+    this.settings.set(key, setting);
+    return setting;
+  }
+
+  async nextSequence(name: string, seed: () => Promise<number>): Promise<number> {
+    if (!this.counters.has(name)) {
+      const initial = await seed();
+      // Another caller may have seeded the counter while we were waiting
+      if (!this.counters.has(name)) {
+        this.counters.set(name, initial);
+      }
+    }
+    
+    // Read and increment without awaiting in between, so no two callers share a value
+    const next = this.counters.get(name)! + 1;
+    this.counters.set(name, next);
+    return next;
+  }
+
+  async getSequences(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.counters);
+  }
+
+  // Purpose catalog operations
+  async getPurposes(): Promise<Purpose[]> {
+    return Array.from(this.purposes.values()).sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  }
+
+  // Codes are unique in the databases as well
+  private assertCodeFree(code: string, id?: RecordId): void {
+    if (Array.from(this.purposes.values()).some(purpose => purpose.code === code && purpose.id !== id)) {
+      throw new Error(`Purpose code ${code} is already in use`);
+    }
+  }
+
+  async createPurpose(input: PurposeInput): Promise<Purpose> {
+    this.assertCodeFree(input.code);
+    const purpose: Purpose = { ...input, id: randomUUID() };
+    this.purposes.set(purpose.id, purpose);
+    return purpose;
+  }
+
+  async updatePurpose(id: RecordId, input: PurposeInput): Promise<Purpose | undefined> {
+    if (!this.purposes.has(id)) {
+      return undefined;
+    }
+    this.assertCodeFree(input.code, id);
+    const purpose: Purpose = { ...input, id };
+    this.purposes.set(id, purpose);
+    return purpose;
+  }
+
+  // Donor operations
+  async getDonor(id: RecordId): Promise<Donor | undefined> {
+    return this.donors.get(id);
+  }
+
+  async getDonors(): Promise<Donor[]> {
+    return Array.from(this.donors.values());
+  }
+
+  async findDonors(criteria: DonorMatchCriteria): Promise<Donor[]> {
+    const phone = criteria.contactNumber ? normalizePhone(criteria.contactNumber) : undefined;
+    return Array.from(this.donors.values()).filter(donor =>
+      (criteria.panNumber && donor.panNumber === criteria.panNumber) ||
+      (criteria.email && donor.email === criteria.email) ||
+      (phone && normalizePhone(donor.contactNumber) === phone)
+    );
+  }
+
+  async searchDonors(query: string, limit: number): Promise<Donor[]> {
+    const text = query.trim().toLowerCase();
+    const phone = normalizePhone(query);
+    return Array.from(this.donors.values())
+      .filter(donor =>
+        donor.name.toLowerCase().includes(text) ||
+        donor.email.includes(text) ||
+        (donor.panNumber ?? '').toLowerCase().includes(text) ||
+        (phone.length >= 3 && normalizePhone(donor.contactNumber).includes(phone))
+      )
+      .slice(0, limit);
+  }
+
+  async createDonor(insertDonor: InsertDonor): Promise<Donor> {
+    const id = this.idPrefix + this.donorCurrentId++;
+    const now = this.now();
+    const donor: Donor = { ...insertDonor, id, createdAt: now, updatedAt: now };
+    this.donors.set(id, donor);
+    return donor;
+  }
+
+  async updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined> {
+    const donor = this.donors.get(id);
+    if (!donor) return undefined;
+    
+    const updatedDonor = { ...donor, ...updates, updatedAt: this.now() };
+    this.donors.set(id, updatedDonor);
+    return updatedDonor;
+  }
+
+  async mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void> {
+    for (const donation of Array.from(this.donations.values())) {
+      if (donation.donorId !== null && sourceIds.includes(donation.donorId)) {
+        this.donations.set(donation.id, { ...donation, donorId: targetId });
+      }
+    }
+    sourceIds.forEach(id => this.donors.delete(id));
+  }
+
+  async setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void> {
+    const donation = this.donations.get(donationId);
+    if (donation) {
+      this.donations.set(donationId, { ...donation, donorId });
+    }
+  }
+
+  // Donation operations
+  async createDonation(insertDonation: NewDonation): Promise<Donation> {
+    // Receipt numbers are unique in the databases as well
+    if (await this.getDonationByReceiptNumber(insertDonation.receiptNumber)) {
+      throw new Error(`Receipt number ${insertDonation.receiptNumber} is already in use`);
+    }
+    
+    const id = this.idPrefix + this.donationCurrentId++;
+    const now = this.now();
+    
+    // Create a donation object with all required fields
+    const donation = {
+      id,
+      receiptNumber: insertDonation.receiptNumber,
+      date: insertDonation.date,
+      donorName: insertDonation.donorName,
+      contactNumber: insertDonation.contactNumber,
+      address: insertDonation.address,
+      email: insertDonation.email,
+      panNumber: insertDonation.panNumber || null,
+      paymentMode: insertDonation.paymentMode,
+      amount: insertDonation.amount,
+      amountInWords: insertDonation.amountInWords,
+      purpose: insertDonation.purpose,
+      purposeId: insertDonation.purposeId || null,
+      instrumentDate: insertDonation.instrumentDate || null,
+      drawnOn: insertDonation.drawnOn || null,
+      instrumentNumber: insertDonation.instrumentNumber || null,
+      createdBy: insertDonation.createdBy || null,
+      donorId: insertDonation.donorId ?? null,
+      createdAt: now,
+      revisedAt: null,
+      revisedBy: null,
+      cancelledAt: null,
+      cancelledBy: null,
+      cancellationReason: null,
+      replacementDonationId: null
+    } as Donation;
+    
+    this.donations.set(id, donation);
+    return donation;
+  }
+
+  async getDonation(id: RecordId): Promise<Donation | undefined> {
+    return this.donations.get(id);
+  }
+
+  async getDonationsByDonor(donorId: RecordId): Promise<Donation[]> {
+    return Array.from(this.donations.values()).filter(donation => donation.donorId === donorId);
+  }
+
+  async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
+    return Array.from(this.donations.values()).find(
+      (donation) => donation.receiptNumber === receiptNumber
+    );
+  }
+
+  async getDonations(): Promise<Donation[]> {
+    return Array.from(this.donations.values());
+  }
+
+  // Position of a record in the order its id was handed out
+  private entryOrder(id: RecordId): number {
+    return Number(id.slice(this.idPrefix.length));
+  }
+
+  async queryDonations(query: DonationQuery): Promise<PagedResult<Donation>> {
+    const search = query.search?.toLowerCase();
+    const matches = Array.from(this.donations.values()).filter(donation =>
+      (!query.dateFrom || donation.date >= query.dateFrom) &&
+      (!query.dateTo || donation.date <= query.dateTo) &&
+      (query.amountMin === undefined || donation.amount >= query.amountMin) &&
+      (query.amountMax === undefined || donation.amount <= query.amountMax) &&
+      (!query.paymentMode || donation.paymentMode === query.paymentMode) &&
+      (!query.purpose || donation.purpose.toLowerCase() === query.purpose.toLowerCase()) &&
+      (!query.createdBy || (query.createdBy === UNASSIGNED_CREATOR
+        ? !donation.createdBy
+        : donation.createdBy === query.createdBy)) &&
+      (query.status === 'all' || isCancelled(donation) === (query.status === 'cancelled')) &&
+      (!search || donationSearchFields.some(field => donation[field]?.toLowerCase().includes(search)))
+    );
+    
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    matches.sort((a, b) => {
+      const left = a[query.sortBy] ?? '';
+      const right = b[query.sortBy] ?? '';
+      const order = left < right ? -1 : left > right ? 1 : 0;
+      // Ids here are counter values, so they also give the order of entry
+      return order * direction || (this.entryOrder(a.id) - this.entryOrder(b.id)) * direction;
+    });
+    
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize
+    };
+  }
+
+  async reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    this.donationRevisions.push({ ...revision, id: this.donationRevisionCurrentId++ });
+    const revisedDonation = {
+      ...donation,
+      ...updates,
+      revisedAt: revision.changedAt,
+      revisedBy: revision.changedBy
+    };
+    this.donations.set(id, revisedDonation);
+    return revisedDonation;
+  }
+
+  async getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]> {
+    return this.donationRevisions.filter(revision => revision.donationId === donationId);
+  }
+
+  async cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined> {
+    const donation = this.donations.get(id);
+    if (!donation) return undefined;
+    
+    const cancelledDonation = { ...donation, ...cancellation };
+    this.donations.set(id, cancelledDonation);
+    return cancelledDonation;
+  }
+
+  async assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number> {
+    const key = purpose.trim().toLowerCase();
+    let assigned = 0;
+    for (const donation of Array.from(this.donations.values())) {
+      if (donation.purposeId === null && donation.purpose.trim().toLowerCase() === key) {
+        this.donations.set(donation.id, { ...donation, purposeId });
+        assigned++;
+      }
+    }
+    return assigned;
+  }
+
+  async getLastReceiptNumber(): Promise<string | undefined> {
+    const donations = Array.from(this.donations.values());
+    if (donations.length === 0) return undefined;
+    
+    // Sort donations by receipt number (assuming numeric format)
+    donations.sort((a, b) => {
+      // If both are numeric, sort numerically
+      if (/^\d+$/.test(a.receiptNumber) && /^\d+$/.test(b.receiptNumber)) {
+        return parseInt(b.receiptNumber) - parseInt(a.receiptNumber);
+      }
+      // Otherwise use string comparison
+      return b.receiptNumber.localeCompare(a.receiptNumber);
+    });
+    
+    console.log('Last receipt number from memory storage:', donations[0].receiptNumber);
+    return donations[0].receiptNumber;
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const saved: AuditLogEntry = { ...entry, id: this.auditLogCurrentId++ };
+    this.auditLog.push(saved);
+    return saved;
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    const search = query.search?.toLowerCase();
+    const matches = this.auditLog.filter(entry => {
+      const date = entry.createdAt.toISOString().split('T')[0];
+      return (!query.action || entry.action === query.action) &&
+        (!query.actor || entry.actor?.toLowerCase() === query.actor.toLowerCase()) &&
+        (!query.targetType || entry.targetType === query.targetType) &&
+        (!query.targetId || entry.targetId === query.targetId) &&
+        (!query.dateFrom || date >= query.dateFrom) &&
+        (!query.dateTo || date <= query.dateTo) &&
+        (!search || [entry.actor, entry.targetId, entry.ip].some(value => value?.toLowerCase().includes(search)));
+    }).reverse();
+    
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize
+    };
+  }
+}
@@ -0,0 +1,142 @@
+import { Request, Response, NextFunction } from 'express';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
+import dotenv from 'dotenv';
+import { storage } from '../storage';
+import type { User } from '@shared/schema';
+import type { RecordId } from '@shared/ids';
+import { hasPermission, type Permission } from '@shared/permissions';
+
+// Load environment variables before reading the session secret
+dotenv.config();
+
+// User details that are safe to expose to route handlers and the client
+export type SessionUser = Omit<User, 'password'>;
+
+declare module 'express-session' {
+  interface SessionData {
+    userId: RecordId;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface User extends SessionUser {}
+    interface Request {
+      user?: User;
+    }
+  }
+}
+
+export const SESSION_COOKIE_NAME = 'aas.sid';
+
+// Sessions expire after 8 hours, i.e. roughly one working day
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+const SESSION_SECRET = process.env.SESSION_SECRET || 'dev-session-secret-change-me';
+if (!process.env.SESSION_SECRET) {
+  console.warn('SESSION_SECRET is not set, using an insecure development secret');
+}
+
+const MemoryStore = createMemoryStore(session);
+
+const sessionStore = new MemoryStore({ checkPeriod: 60 * 60 * 1000 });
+
+// Signed, httpOnly session cookie; the session itself lives on the server
+// so logging out or expiring removes it for good
+export const sessionMiddleware = session({
+  name: SESSION_COOKIE_NAME,
+  secret: SESSION_SECRET,
+  resave: false,
+  saveUninitialized: false,
+  store: sessionStore,
+  cookie: {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_TTL_MS,
+  },
+});
+
+export function toSessionUser(user: User): SessionUser {
+  return {
+    id: user.id,
+    username: user.username,
+    fullName: user.fullName,
+    role: user.role,
+    isActive: user.isActive,
+    createdAt: user.createdAt,
+  };
+}
+
+// Start a fresh session for the user, discarding any previous session id
+export function establishSession(req: Request, user: User): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) return reject(err);
+      req.session.userId = user.id;
+      req.session.save((saveErr) => (saveErr ? reject(saveErr) : resolve()));
+    });
+  });
+}
+
+export function destroySession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.destroy((err) => (err ? reject(err) : resolve()));
+  });
+}
+
+// Sign the user out everywhere except in the session `keepSessionId`, e.g. after their
+// password changes so that anyone holding an old session loses access
+export function revokeUserSessions(userId: RecordId, keepSessionId?: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    sessionStore.all((err, sessions) => {
+      if (err) return reject(err);
+      const sessionIds = Object.entries(sessions ?? {})
+        .filter(([sid, data]) => data?.userId === userId && sid !== keepSessionId)
+        .map(([sid]) => sid);
+      Promise.all(sessionIds.map(sid => new Promise<void>((done, fail) => {
+        sessionStore.destroy(sid, (destroyErr) => (destroyErr ? fail(destroyErr) : done()));
+      }))).then(() => resolve(), reject);
+    });
+  });
+}
+
+// Resolve the caller from the session and reject the request if there is none,
+// or if the account has since been removed or deactivated
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userId = req.session?.userId;
+    if (!userId) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    const user = await storage.getUser(userId);
+    if (!user || !user.isActive) {
+      await destroySession(req);
+      return res.status(401).json({ message: "Session is no longer valid" });
+    }
+
+    req.user = toSessionUser(user);
+    next();
+  } catch (error: unknown) {
+    next(error);
+  }
+}
+
+// Allow the request through when the caller's role grants any of the given permissions.
+// Must run after requireAuth.
+export function requirePermission(...anyOf: Permission[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.user) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+
+    if (!anyOf.some(permission => hasPermission(req.user!.role, permission))) {
+      console.log(`Permission denied for ${req.user.username} (${req.user.role}) on ${req.method} ${req.originalUrl}`);
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,12 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+
+// Reject changes that may only be made in the database, such as settings, while
+// the local fallback journal is serving requests
+export function requirePrimaryStorage(req: Request, res: Response, next: NextFunction) {
+  if (storage.getHealth().usingFallback) {
+    return res.status(503).json({ message: "This change cannot be made while the database is unavailable. Please try again later." });
+  }
+
+  next();
+}
@@ -0,0 +1,35 @@
+// Applies pending MongoDB migrations without starting the server.
+//   npm run mongo:migrate              apply pending migrations
+//   npm run mongo:migrate -- --status  list applied and pending migrations
+import 'dotenv/config';
+import { MongoClient } from 'mongodb';
+import { MONGODB_DB_NAME, MONGODB_URI } from './mongodb';
+import { getMigrationStatus, runMongoMigrations } from './mongoMigrations';
+
+async function main(): Promise<void> {
+  const client = new MongoClient(MONGODB_URI);
+  try {
+    await client.connect();
+    const db = client.db(MONGODB_DB_NAME);
+
+    if (process.argv.includes('--status')) {
+      for (const migration of await getMigrationStatus(db)) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : 'pending';
+        console.log(`${migration.id}  ${state}  ${migration.description}`);
+      }
+      return;
+    }
+
+    const applied = await runMongoMigrations(db);
+    console.log(applied.length > 0
+      ? `Applied ${applied.length} migration(s)`
+      : 'No pending migrations');
+  } finally {
+    await client.close();
+  }
+}
+
+main().catch(error => {
+  console.error('MongoDB migration failed:', error);
+  process.exit(1);
+});
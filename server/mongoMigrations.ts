@@ -0,0 +1,224 @@
+import type { Collection, Db } from 'mongodb';
+
+// A one-off change to the documents or indexes in MongoDB. Migrations run in
+// array order and each is recorded once applied, so a shipped migration must
+// never be renamed or reordered. A migration that fails partway is run again
+// from the start next time, so every step must be safe to repeat.
+export interface MongoMigration {
+  id: string;
+  description: string;
+  up(db: Db): Promise<void>;
+}
+
+export interface MigrationStatus {
+  id: string;
+  description: string;
+  appliedAt: Date | null;
+}
+
+interface AppliedMigration {
+  _id: string;
+  description: string;
+  appliedAt: Date;
+}
+
+const MIGRATIONS_COLLECTION = 'migrations';
+
+// Donation fields added after the first release; older documents lack them entirely
+const OPTIONAL_DONATION_FIELDS = [
+  'panNumber',
+  'instrumentDate',
+  'drawnOn',
+  'instrumentNumber',
+  'createdBy',
+  'donorId',
+  'revisedAt',
+  'revisedBy',
+  'cancelledAt',
+  'cancelledBy',
+  'cancellationReason',
+  'replacementDonationId'
+];
+
+// A unique index cannot be created over duplicate values, so report them instead
+async function assertNoDuplicates(collection: Collection, field: string): Promise<void> {
+  const duplicates = await collection.aggregate([
+    { $match: { [field]: { $type: 'string' } } },
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } },
+    { $limit: 10 }
+  ]).toArray();
+
+  if (duplicates.length > 0) {
+    const values = duplicates.map(duplicate => `"${duplicate._id}" (${duplicate.count} times)`).join(', ');
+    throw new Error(`${collection.collectionName}.${field} has duplicate values: ${values}. Resolve them and run the migrations again.`);
+  }
+}
+
+async function dropIndexUnlessUnique(collection: Collection, name: string): Promise<void> {
+  const indexes = await collection.indexes().catch(() => []);
+  const index = indexes.find(existing => existing.name === name);
+  if (index && !index.unique) {
+    await collection.dropIndex(name);
+  }
+}
+
+export const mongoMigrations: MongoMigration[] = [
+  {
+    id: '001-backfill-user-defaults',
+    description: 'Set isActive, role and createdAt on users saved without them',
+    async up(db) {
+      const users = db.collection('users');
+      await users.updateMany({ isActive: null }, { $set: { isActive: true } });
+      // Older records were created with the generic "user" role
+      await users.updateMany({ role: { $in: [null, ''] } }, { $set: { role: 'user' } });
+      // The ObjectId holds the time the document was inserted
+      await users.updateMany({ createdAt: null }, [{ $set: { createdAt: { $toDate: '$_id' } } }]);
+    }
+  },
+  {
+    id: '002-backfill-donation-defaults',
+    description: 'Store null for optional donation fields missing from older documents',
+    async up(db) {
+      const donations = db.collection('donations');
+      for (const field of OPTIONAL_DONATION_FIELDS) {
+        await donations.updateMany({ [field]: { $exists: false } }, { $set: { [field]: null } });
+      }
+      await donations.updateMany({ createdAt: null }, [{ $set: { createdAt: { $toDate: '$_id' } } }]);
+    }
+  },
+  {
+    id: '003-unique-username-and-receipt-number',
+    description: 'Enforce unique usernames and receipt numbers',
+    async up(db) {
+      const users = db.collection('users');
+      const donations = db.collection('donations');
+      await assertNoDuplicates(users, 'username');
+      await assertNoDuplicates(donations, 'receiptNumber');
+
+      // Replaces the plain index created before receipt numbers had to be unique
+      await dropIndexUnlessUnique(donations, 'receiptNumber_1');
+      await users.createIndex({ username: 1 }, { unique: true });
+      await donations.createIndex({ receiptNumber: 1 }, { unique: true });
+    }
+  },
+  {
+    id: '004-string-record-ids',
+    description: 'Store donation ids and references to them as strings, and drop legacy numeric user ids',
+    async up(db) {
+      const donations = db.collection('donations');
+
+      // Users are identified by their ObjectId alone
+      await db.collection('users').updateMany({ id: { $exists: true } }, { $unset: { id: '' } });
+
+      // Continue the donation id counter after the highest id in use, so the
+      // documents given an id below never share one
+      const [numbered] = await donations.aggregate([
+        { $group: { _id: null, highest: { $max: { $convert: { input: '$id', to: 'long', onError: null, onNull: null } } } } }
+      ]).toArray();
+      const counters = db.collection<{ _id: string; seq: number }>('counters');
+      await counters.updateOne({ _id: 'donationId' }, { $max: { seq: Number(numbered?.highest ?? 0) } }, { upsert: true });
+
+      await donations.updateMany({ id: { $type: 'number' } }, [{ $set: { id: { $toString: '$id' } } }]);
+      await donations.updateMany({ replacementDonationId: { $type: 'number' } }, [{ $set: { replacementDonationId: { $toString: '$replacementDonationId' } } }]);
+      await db.collection('donationRevisions').updateMany({ donationId: { $type: 'number' } }, [{ $set: { donationId: { $toString: '$donationId' } } }]);
+
+      // The oldest donations were saved before they had an id of their own
+      for (const doc of await donations.find({ id: null }, { projection: { _id: 1 } }).toArray()) {
+        const counter = await counters.findOneAndUpdate({ _id: 'donationId' }, { $inc: { seq: 1 } }, { returnDocument: 'after' });
+        await donations.updateOne({ _id: doc._id }, { $set: { id: String(counter!.seq) } });
+      }
+      await donations.createIndex({ id: 1 }, { unique: true });
+
+      // Replaced by an index on the ObjectId, which orders donations entered on the same date
+      await dropIndexUnlessUnique(donations, 'date_-1_id_-1');
+    }
+  },
+  {
+    id: '005-donation-purpose-id',
+    description: 'Store null for the catalog purpose of donations entered before the catalog existed',
+    async up(db) {
+      await db.collection('donations').updateMany({ purposeId: { $exists: false } }, { $set: { purposeId: null } });
+    }
+  },
+  {
+    id: '006-string-donor-ids',
+    description: 'Store donor ids and references to them as strings',
+    async up(db) {
+      const donors = db.collection('donors');
+
+      // New donors continue after the highest id in use
+      const [numbered] = await donors.aggregate([
+        { $group: { _id: null, highest: { $max: { $convert: { input: '$id', to: 'long', onError: null, onNull: null } } } } }
+      ]).toArray();
+      await db.collection<{ _id: string; seq: number }>('counters')
+        .updateOne({ _id: 'donorId' }, { $max: { seq: Number(numbered?.highest ?? 0) } }, { upsert: true });
+
+      await donors.updateMany({ id: { $type: 'number' } }, [{ $set: { id: { $toString: '$id' } } }]);
+      await db.collection('donations').updateMany({ donorId: { $type: 'number' } }, [{ $set: { donorId: { $toString: '$donorId' } } }]);
+    }
+  },
+  {
+    id: '007-purpose-records',
+    description: 'Move the purposes catalog from the "purposes" setting into its own collection',
+    async up(db) {
+      const purposes = db.collection('purposes');
+      const settings = db.collection<{ _id: string; value: unknown }>('settings');
+
+      const setting = await settings.findOne({ _id: 'purposes' });
+      for (const purpose of Array.isArray(setting?.value) ? setting.value : []) {
+        const { id, name, code, activeFrom, activeUntil, targetAmount, eligible80G } = purpose;
+        await purposes.updateOne(
+          { id },
+          { $setOnInsert: { id, name, code, activeFrom: activeFrom ?? '', activeUntil: activeUntil ?? '', targetAmount: targetAmount ?? 0, eligible80G: eligible80G ?? true } },
+          { upsert: true }
+        );
+      }
+
+      await purposes.createIndex({ id: 1 }, { unique: true });
+      await purposes.createIndex({ code: 1 }, { unique: true });
+      await settings.deleteOne({ _id: 'purposes' });
+    }
+  }
+];
+
+async function appliedMigrations(db: Db): Promise<Map<string, AppliedMigration>> {
+  const applied = await db.collection<AppliedMigration>(MIGRATIONS_COLLECTION).find().toArray();
+  return new Map(applied.map(migration => [migration._id, migration]));
+}
+
+export async function getMigrationStatus(db: Db): Promise<MigrationStatus[]> {
+  const applied = await appliedMigrations(db);
+  return mongoMigrations.map(migration => ({
+    id: migration.id,
+    description: migration.description,
+    appliedAt: applied.get(migration.id)?.appliedAt ?? null
+  }));
+}
+
+// Apply every migration not yet recorded, stopping at the first failure since
+// later migrations may rely on earlier ones. Returns the ids applied.
+export async function runMongoMigrations(db: Db): Promise<string[]> {
+  const applied = await appliedMigrations(db);
+  const ran: string[] = [];
+
+  for (const migration of mongoMigrations) {
+    if (applied.has(migration.id)) continue;
+
+    console.log(`Applying MongoDB migration ${migration.id}: ${migration.description}`);
+    await migration.up(db);
+    try {
+      await db.collection<AppliedMigration>(MIGRATIONS_COLLECTION).insertOne({
+        _id: migration.id,
+        description: migration.description,
+        appliedAt: new Date()
+      });
+    } catch (error: any) {
+      // Another server starting at the same time recorded it first, which is fine
+      if (error?.code !== 11000) throw error;
+    }
+    ran.push(migration.id);
+  }
+
+  return ran;
+}
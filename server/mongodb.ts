@@ -1,26 +1,80 @@
-import { MongoClient, ObjectId, ServerApiVersion } from 'mongodb';
+import { randomUUID } from 'crypto';
+import {
+  MongoClient,
+  MongoNetworkError,
+  MongoNotConnectedError,
+  MongoServerSelectionError,
+  MongoTopologyClosedError,
+  ObjectId,
+  ServerApiVersion
+} from 'mongodb';
 import { 
   users, 
   type User, 
   type InsertUser,
   donations,
   type Donation,
-  type InsertDonation 
+  type InsertDonation,
+  type NewDonation,
+  type DonationRevision,
+  type InsertDonationRevision,
+  type DonationCancellation,
+  type Donor,
+  type InsertDonor,
+  type PasswordResetToken,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type Setting,
+  type AuditLogEntry,
+  type InsertAuditLogEntry
 } from "@shared/schema";
+import type { AuditLogQuery } from '@shared/auditLog';
+import type { RecordId } from '@shared/ids';
 import { IStorage } from './storage';
+import { runMongoMigrations } from './mongoMigrations';
+import { MigrationError, StorageUnavailableError } from './storageErrors';
+import { normalizePhone, type DonorMatchCriteria } from '@shared/donors';
+import type { Purpose, PurposeInput } from '@shared/purposes';
+import {
+  UNASSIGNED_CREATOR,
+  donationSearchFields,
+  type DonationQuery,
+  type PagedResult
+} from '@shared/donationQuery';
+
+// MongoDB connection URI and database name
+export const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/anant_aman';
+export const MONGODB_DB_NAME = process.env.MONGODB_DB_NAME || 'anant_aman_donation_system';
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
 
 export class MongoDBStorage implements IStorage {
   private client: MongoClient;
   private db: any;
   private usersCollection: any;
   private donationsCollection: any;
+  private passwordResetTokensCollection: any;
+  private loginAttemptsCollection: any;
+  private countersCollection: any;
+  private settingsCollection: any;
+  private donorsCollection: any;
+  private purposesCollection: any;
+  private donationRevisionsCollection: any;
+  private auditLogCollection: any;
   private connected: boolean = false;
   private connectionPromise: Promise<void> | null = null;
   private connectionAttempts: number = 0;
+  // Why the last connection attempt could not bring the documents up to date
+  private migrationError: MigrationError | null = null;
+  private dbName: string;
   private readonly MAX_CONNECTION_ATTEMPTS = 3;
   private readonly OPERATION_TIMEOUT_MS = 5000; // Standard timeout for operations
 
   constructor(uri: string, dbName: string) {
+    this.dbName = dbName;
+    
     // Configure MongoDB client with standard settings
     this.client = new MongoClient(uri, {
       serverApi: {
@@ -32,6 +86,42 @@ export class MongoDBStorage implements IStorage {
     
     // Initialize connection
     this.connectionPromise = this.initConnection(dbName);
+    // Let ping() start over if every attempt fails before any query has waited on them
+    this.connectionPromise.catch(() => {
+      this.connectionPromise = null;
+    });
+  }
+
+  // Indexes behind the donation list's filters and sort orders; creating an existing index is a no-op
+  private async ensureIndexes(): Promise<void> {
+    try {
+      await this.donationsCollection.createIndexes([
+        { key: { date: -1, _id: -1 } },
+        { key: { createdBy: 1, date: -1 } },
+        { key: { paymentMode: 1, date: -1 } },
+        { key: { purpose: 1, date: -1 } },
+        { key: { amount: -1 } },
+        { key: { donorName: 1 } },
+        { key: { donorId: 1 } },
+        { key: { purposeId: 1 } }
+      ]);
+      await this.donorsCollection.createIndexes([
+        { key: { id: 1 } },
+        { key: { panNumber: 1 } },
+        { key: { email: 1 } },
+        { key: { phoneKey: 1 } }
+      ]);
+      await this.donationRevisionsCollection.createIndex({ donationId: 1, id: 1 });
+      await this.auditLogCollection.createIndexes([
+        { key: { id: -1 } },
+        { key: { action: 1, id: -1 } },
+        { key: { actor: 1, id: -1 } },
+        { key: { targetType: 1, targetId: 1, id: -1 } }
+      ]);
+    } catch (error: unknown) {
+      // Missing indexes slow queries down but do not break them
+      console.error('Failed to create MongoDB indexes:', error);
+    }
   }
 
   private async initConnection(dbName: string): Promise<void> {
@@ -45,18 +135,37 @@ export class MongoDBStorage implements IStorage {
       this.db = this.client.db(dbName);
       this.usersCollection = this.db.collection('users');
       this.donationsCollection = this.db.collection('donations');
+      this.passwordResetTokensCollection = this.db.collection('passwordResetTokens');
+      this.loginAttemptsCollection = this.db.collection('loginAttempts');
+      this.countersCollection = this.db.collection('counters');
+      this.settingsCollection = this.db.collection('settings');
+      this.donorsCollection = this.db.collection('donors');
+      this.purposesCollection = this.db.collection('purposes');
+      this.donationRevisionsCollection = this.db.collection('donationRevisions');
+      this.auditLogCollection = this.db.collection('auditLog');
+
+      // Documents must be in the current shape before anything reads them
+      try {
+        await runMongoMigrations(this.db);
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new MigrationError('MongoDB migration failed: ' + message, error);
+      }
+      this.migrationError = null;
       this.connected = true;
       console.log('Connected to MongoDB successfully');
-
-      // Check if admin user exists, if not create one - but don't make this part of the connection process
-      this.checkAndCreateAdminUser().catch(error => {
-        // Just log the error but don't fail the connection
-        console.error('Error checking/creating admin user:', error);
-      });
+      
+      await this.ensureIndexes();
     } catch (error: unknown) {
       console.error('Failed to connect to MongoDB:', error);
       this.connected = false;
       
+      // Retrying does not help until the data is fixed; ping() tries again at each health check
+      if (error instanceof MigrationError) {
+        this.migrationError = error;
+        throw error;
+      }
+      
       // Retry connection if we haven't exceeded max attempts
       if (this.connectionAttempts < this.MAX_CONNECTION_ATTEMPTS) {
         console.log(`Retrying MongoDB connection in 2 seconds... (Attempt ${this.connectionAttempts}/${this.MAX_CONNECTION_ATTEMPTS})`);
@@ -68,43 +177,12 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  // Separate method to check and create admin user
-  private async checkAndCreateAdminUser(): Promise<void> {
-    try {
-      console.log('Checking for admin user...');
-      // Directly query the collection instead of using getUserByUsername to avoid circular dependency
-      const adminUser = await this.executeWithTimeout(async () => {
-        return await this.usersCollection.findOne({ username: 'admin@example.com' });
-      });
-      
-      console.log('Admin user exists:', adminUser ? 'Yes' : 'No');
-      if (!adminUser) {
-        console.log('Creating admin user...');
-        // Directly insert into the collection instead of using createUser
-        await this.executeWithTimeout(async () => {
-          await this.usersCollection.insertOne({
-            username: "admin@example.com",
-            password: "admin123",
-            fullName: "Admin User",
-            role: "admin",
-            isActive: true,
-            createdAt: new Date()
-          });
-        });
-        console.log('Admin user created successfully');
-      }
-    } catch (error) {
-      console.error('Error in checkAndCreateAdminUser:', error);
-      throw error;
-    }
-  }
-
   // Helper method to execute operations with timeout
   private async executeWithTimeout<T>(operation: () => Promise<T>): Promise<T> {
     return Promise.race([
       operation(),
       new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error(`MongoDB operation timed out after ${this.OPERATION_TIMEOUT_MS}ms`)), 
+        setTimeout(() => reject(new StorageUnavailableError(`MongoDB operation timed out after ${this.OPERATION_TIMEOUT_MS}ms`, true)), 
           this.OPERATION_TIMEOUT_MS);
       })
     ]);
@@ -133,75 +211,36 @@ export class MongoDBStorage implements IStorage {
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error('MongoDB connection failed:', errorMessage);
         this.connectionPromise = null; // Clear the promise to avoid getting stuck
-        throw new Error('MongoDB connection failed: ' + errorMessage);
+        throw new StorageUnavailableError('MongoDB connection failed: ' + errorMessage, false, error);
       }
     }
     
     // If we're still not connected after waiting for the connection promise,
     // something went wrong
     if (!this.connected) {
-      throw new Error('MongoDB is not connected');
+      throw new StorageUnavailableError('MongoDB is not connected', false);
     }
   }
 
-  async getUser(id: number | string): Promise<User | undefined> {
+  // Missing fields on older user documents are backfilled by migrations, so none are defaulted here
+  private mapUser(doc: any): User {
+    return {
+      id: doc._id.toString(),
+      username: doc.username,
+      password: doc.password,
+      fullName: doc.fullName,
+      role: doc.role,
+      isActive: doc.isActive,
+      createdAt: doc.createdAt
+    };
+  }
+
+  async getUser(id: RecordId): Promise<User | undefined> {
     try {
       await this.ensureConnected();
-      
-      // Log the incoming ID for debugging
-      console.log(`Getting user with ID: ${id}, type: ${typeof id}`);
-      
       return await this.executeWithTimeout(async () => {
-        let user;
-        
-        // If id is a string that looks like an ObjectId, try that first
-        if (typeof id === 'string' && id.length === 24) {
-          try {
-            const objectId = new ObjectId(id);
-            console.log(`Trying to find with ObjectId: ${objectId}`);
-            
-            user = await this.usersCollection.findOne({ _id: objectId });
-            
-            if (user) {
-              console.log(`User found by ObjectId: ${user.username}`);
-              return {
-                id: user._id.toString(),
-                username: user.username,
-                password: user.password,
-                fullName: user.fullName,
-                role: user.role,
-                isActive: user.isActive ?? true,
-                createdAt: user.createdAt ?? new Date()
-              };
-            }
-          } catch (err) {
-            console.error('Error finding user by ObjectId:', err);
-          }
-        }
-        
-        // Try to find by numeric ID
-        if (!user) {
-          const numericId = typeof id === 'string' ? parseInt(id) : id;
-          if (!isNaN(numericId)) {
-            user = await this.usersCollection.findOne({ id: numericId });
-            
-            if (user) {
-              console.log(`User found by numeric ID: ${user.username}`);
-              return {
-                id: user._id.toString(),
-                username: user.username,
-                password: user.password,
-                fullName: user.fullName,
-                role: user.role,
-                isActive: user.isActive ?? true,
-                createdAt: user.createdAt ?? new Date()
-              };
-            }
-          }
-        }
-        
-        console.log(`User not found with id: ${id}`);
-        return undefined;
+        const doc = await this.usersCollection.findOne(this.userIdFilter(id));
+        return doc ? this.mapUser(doc) : undefined;
       });
     } catch (error: unknown) {
       console.error('Error in getUser:', error);
@@ -216,15 +255,7 @@ export class MongoDBStorage implements IStorage {
         const doc = await this.usersCollection.findOne({ username });
         if (!doc) return undefined;
         
-        return {
-          id: doc._id.toString(),
-          username: doc.username,
-          password: doc.password,
-          fullName: doc.fullName,
-          role: doc.role || 'user', // Ensure role is always a string
-          isActive: doc.isActive ?? true,
-          createdAt: doc.createdAt ?? new Date()
-        };
+        return this.mapUser(doc);
       });
     } catch (error: unknown) {
       console.error(`Error getting user by username (${username}):`, error);
@@ -238,16 +269,13 @@ export class MongoDBStorage implements IStorage {
       return await this.executeWithTimeout(async () => {
         const newUser = {
           ...insertUser,
-          role: insertUser.role || 'user', // Ensure role is always a string
+          role: insertUser.role || 'staff', // Ensure role is always a string
           isActive: true,
           createdAt: new Date()
         };
         
         const result = await this.usersCollection.insertOne(newUser);
-        return {
-          id: result.insertedId.toString(),
-          ...newUser
-        };
+        return this.mapUser({ ...newUser, _id: result.insertedId });
       });
     } catch (error: unknown) {
       console.error('Error creating user:', error);
@@ -260,15 +288,7 @@ export class MongoDBStorage implements IStorage {
       await this.ensureConnected();
       return await this.executeWithTimeout(async () => {
         const result = await this.usersCollection.find({}).toArray();
-        return result.map((doc: any) => ({
-          id: doc._id.toString(),
-          username: doc.username,
-          password: doc.password,
-          fullName: doc.fullName,
-          role: doc.role,
-          isActive: doc.isActive ?? true,
-          createdAt: doc.createdAt ?? new Date()
-        }));
+        return result.map((doc: any) => this.mapUser(doc));
       });
     } catch (error: unknown) {
       console.error('Error getting users:', error);
@@ -276,149 +296,505 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  async updateUserStatus(id: number | string, isActive: boolean): Promise<User | undefined> {
+  async updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined> {
     try {
       await this.ensureConnected();
-      
-      // Log the incoming ID for debugging
-      console.log(`MongoDB: Updating user status for ID: ${id}, type: ${typeof id}, setting isActive to: ${isActive}`);
-      
       return await this.executeWithTimeout(async () => {
-        let user;
-        let objectId;
-        
-        // If id is a string that looks like an ObjectId, try to convert it
-        if (typeof id === 'string' && id.length === 24) {
-          try {
-            objectId = new ObjectId(id);
-            console.log(`MongoDB: Valid ObjectId: ${objectId}`);
-          } catch (err) {
-            console.error('MongoDB: Invalid ObjectId format:', err);
-          }
-        }
-        
-        // Try to find the user with the appropriate query
-        if (objectId) {
-          // First try by ObjectId
-          user = await this.usersCollection.findOne({ _id: objectId });
-          console.log(`MongoDB: User lookup by ObjectId result: ${user ? 'Found' : 'Not found'}`);
-        }
-        
-        // If not found and id is numeric, try by numeric id
-        if (!user && (typeof id === 'number' || !isNaN(Number(id)))) {
-          const numericId = typeof id === 'number' ? id : Number(id);
-          user = await this.usersCollection.findOne({ id: numericId });
-          console.log(`MongoDB: User lookup by numeric ID result: ${user ? 'Found' : 'Not found'}`);
-        }
-        
-        // If still not found, try by string id as a last resort
-        if (!user && typeof id === 'string') {
-          user = await this.usersCollection.findOne({ id: id });
-          console.log(`MongoDB: User lookup by string ID result: ${user ? 'Found' : 'Not found'}`);
-        }
-        
-        if (!user) {
-          console.log(`MongoDB: User not found with id: ${id}`);
-          return undefined;
-        }
-        
-        console.log(`MongoDB: User found: ${user.username}, _id: ${user._id}, current isActive: ${user.isActive}`);
-        
-        // Update the user with the correct query based on how we found them
-        const updateResult = await this.usersCollection.findOneAndUpdate(
-          { _id: user._id },
+        const doc = await this.usersCollection.findOneAndUpdate(
+          this.userIdFilter(id),
           { $set: { isActive } },
           { returnDocument: 'after' }
         );
+        return doc ? this.mapUser(doc) : undefined;
+      });
+    } catch (error: unknown) {
+      console.error('Error in updateUserStatus:', error);
+      throw error;
+    }
+  }
+
+  async deleteUser(id: RecordId): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.executeWithTimeout(async () => {
+        await this.usersCollection.deleteOne(this.userIdFilter(id));
+      });
+    } catch (error: unknown) {
+      console.error('Error in deleteUser:', error);
+      throw error;
+    }
+  }
+
+  // User ids are ObjectId strings; any other id matches no user
+  private userIdFilter(id: RecordId): Record<string, unknown> {
+    return { _id: ObjectId.isValid(id) && id.length === 24 ? new ObjectId(id) : null };
+  }
+
+  async updateUserPassword(id: RecordId, password: string): Promise<User | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.usersCollection.findOneAndUpdate(
+          this.userIdFilter(id),
+          { $set: { password } },
+          { returnDocument: 'after' }
+        );
+        if (!doc) return undefined;
         
-        if (!updateResult.value) {
-          console.log(`MongoDB: Failed to update user: ${user.username}`);
-          return undefined;
-        }
-        
-        console.log(`MongoDB: User updated successfully: ${updateResult.value.username}, new isActive: ${updateResult.value.isActive}`);
+        return this.mapUser(doc);
+      });
+    } catch (error: unknown) {
+      console.error('Error in updateUserPassword:', error);
+      throw error;
+    }
+  }
+
+  async createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.executeWithTimeout(async () => {
+        await this.passwordResetTokensCollection.insertOne({
+          userId,
+          tokenHash,
+          expiresAt,
+          createdAt: new Date()
+        });
+      });
+    } catch (error: unknown) {
+      console.error('Error in createPasswordResetToken:', error);
+      throw error;
+    }
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        // Delete and return in one step so a token can never be used twice
+        const doc = await this.passwordResetTokensCollection.findOneAndDelete({ tokenHash });
+        if (!doc || doc.expiresAt <= new Date()) return undefined;
         
         return {
-          id: updateResult.value._id.toString(),
-          username: updateResult.value.username,
-          password: updateResult.value.password,
-          fullName: updateResult.value.fullName,
-          role: updateResult.value.role,
-          isActive: updateResult.value.isActive ?? true,
-          createdAt: updateResult.value.createdAt ?? new Date()
+          id: doc._id.toString(),
+          userId: doc.userId,
+          tokenHash: doc.tokenHash,
+          expiresAt: doc.expiresAt,
+          createdAt: doc.createdAt ?? null
         };
       });
     } catch (error: unknown) {
-      console.error('MongoDB: Error in updateUserStatus:', error);
+      console.error('Error in consumePasswordResetToken:', error);
       throw error;
     }
   }
 
-  async deleteUser(id: number | string): Promise<void> {
+  private mapLoginAttempt(doc: any): LoginAttempt {
+    return {
+      id: doc._id.toString(),
+      key: doc.key,
+      failedCount: doc.failedCount ?? 0,
+      lastFailedAt: doc.lastFailedAt ?? null,
+      lockedUntil: doc.lockedUntil ?? null
+    };
+  }
+
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
     try {
       await this.ensureConnected();
-      
-      // Log the incoming ID for debugging
-      console.log(`Deleting user with ID: ${id}, type: ${typeof id}`);
-      
-      await this.executeWithTimeout(async () => {
-        let deleted = false;
-        
-        // If id is a string that looks like an ObjectId, try that first
-        if (typeof id === 'string' && id.length === 24) {
-          try {
-            const objectId = new ObjectId(id);
-            console.log(`Trying to delete with ObjectId: ${objectId}`);
-            
-            const result = await this.usersCollection.deleteOne({ _id: objectId });
-            
-            if (result.deletedCount > 0) {
-              console.log(`User deleted with ObjectId: ${objectId}`);
-              deleted = true;
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.loginAttemptsCollection.findOne({ key });
+        return doc ? this.mapLoginAttempt(doc) : undefined;
+      });
+    } catch (error: unknown) {
+      console.error('Error in getLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  async getLoginAttempts(): Promise<LoginAttempt[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.loginAttemptsCollection.find({}).toArray();
+        return result.map((doc: any) => this.mapLoginAttempt(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getLoginAttempts:', error);
+      throw error;
+    }
+  }
+
+  async saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.loginAttemptsCollection.findOneAndUpdate(
+          { key: attempt.key },
+          {
+            $set: {
+              failedCount: attempt.failedCount ?? 0,
+              lastFailedAt: attempt.lastFailedAt ?? null,
+              lockedUntil: attempt.lockedUntil ?? null
             }
-          } catch (err) {
-            console.error('Error deleting user by ObjectId:', err);
-          }
+          },
+          { upsert: true, returnDocument: 'after' }
+        );
+        return this.mapLoginAttempt(doc);
+      });
+    } catch (error: unknown) {
+      console.error('Error in saveLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.executeWithTimeout(async () => {
+        await this.loginAttemptsCollection.deleteOne({ key });
+      });
+    } catch (error: unknown) {
+      console.error('Error in deleteLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  private mapSetting(doc: any): Setting {
+    return {
+      key: doc._id,
+      value: doc.value,
+      updatedBy: doc.updatedBy ?? null,
+      updatedAt: doc.updatedAt ?? null
+    };
+  }
+
+  async getSetting(key: string): Promise<Setting | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.settingsCollection.findOne({ _id: key });
+        return doc ? this.mapSetting(doc) : undefined;
+      });
+    } catch (error: unknown) {
+      console.error('Error in getSetting:', error);
+      throw error;
+    }
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const docs = await this.settingsCollection.find({}).toArray();
+        return docs.map((doc: any) => this.mapSetting(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getSettings:', error);
+      throw error;
+    }
+  }
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const updatedAt = new Date();
+        await this.settingsCollection.updateOne(
+          { _id: key },
+          { $set: { value, updatedBy, updatedAt } },
+          { upsert: true }
+        );
+        return { key, value, updatedBy, updatedAt };
+      });
+    } catch (error: unknown) {
+      console.error('Error in saveSetting:', error);
+      throw error;
+    }
+  }
+
+  // Atomically increment and return a named counter. The counter document is
+  // seeded the first time it is used.
+  async nextSequence(name: string, seed: () => Promise<number>): Promise<number> {
+    try {
+      await this.ensureConnected();
+      
+      const existing = await this.executeWithTimeout(() => this.countersCollection.findOne({ _id: name }));
+      if (!existing) {
+        const initial = await seed();
+        try {
+          await this.executeWithTimeout(() => this.countersCollection.insertOne({ _id: name, seq: initial }));
+        } catch (error: any) {
+          // Another request seeded the counter first, which is fine
+          if (error?.code !== 11000) throw error;
         }
-        
-        // If not deleted yet, try by numeric ID
-        if (!deleted) {
-          const numericId = typeof id === 'string' ? parseInt(id) : id;
-          if (!isNaN(numericId)) {
-            const result = await this.usersCollection.deleteOne({ id: numericId });
-            
-            if (result.deletedCount > 0) {
-              console.log(`User deleted with numeric id: ${numericId}`);
-              deleted = true;
-            }
-          }
+      }
+      
+      return await this.executeWithTimeout(async () => {
+        const counter = await this.countersCollection.findOneAndUpdate(
+          { _id: name },
+          { $inc: { seq: 1 } },
+          { returnDocument: 'after' }
+        );
+        return counter.seq;
+      });
+    } catch (error: unknown) {
+      console.error('Error in nextSequence:', error);
+      throw error;
+    }
+  }
+
+  async getSequences(): Promise<Record<string, number>> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const docs = await this.countersCollection.find({}).toArray();
+        return Object.fromEntries(docs.map((doc: any) => [doc._id, doc.seq]));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getSequences:', error);
+      throw error;
+    }
+  }
+
+  private mapPurpose(doc: any): Purpose {
+    return {
+      id: doc.id,
+      name: doc.name,
+      code: doc.code,
+      activeFrom: doc.activeFrom ?? '',
+      activeUntil: doc.activeUntil ?? '',
+      targetAmount: doc.targetAmount ?? 0,
+      eligible80G: doc.eligible80G ?? true
+    };
+  }
+
+  async getPurposes(): Promise<Purpose[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.purposesCollection.find().sort({ name: 1 }).toArray();
+        return result.map((doc: any) => this.mapPurpose(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getPurposes:', error);
+      throw error;
+    }
+  }
+
+  async createPurpose(input: PurposeInput): Promise<Purpose> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const purpose: Purpose = { ...input, id: randomUUID() };
+        await this.purposesCollection.insertOne({ ...purpose });
+        return purpose;
+      });
+    } catch (error: unknown) {
+      console.error('Error in createPurpose:', error);
+      throw error;
+    }
+  }
+
+  async updatePurpose(id: RecordId, input: PurposeInput): Promise<Purpose | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.purposesCollection.findOneAndUpdate(
+          { id },
+          { $set: { ...input } },
+          { returnDocument: 'after' }
+        );
+        return doc ? this.mapPurpose(doc) : undefined;
+      });
+    } catch (error: unknown) {
+      console.error('Error in updatePurpose:', error);
+      throw error;
+    }
+  }
+
+  private mapDonor(doc: any): Donor {
+    return {
+      id: doc.id,
+      name: doc.name,
+      contactNumber: doc.contactNumber,
+      address: doc.address,
+      email: doc.email,
+      panNumber: doc.panNumber ?? null,
+      createdAt: doc.createdAt ?? null,
+      updatedAt: doc.updatedAt ?? null
+    };
+  }
+
+  private async highestDonorId(): Promise<number> {
+    const [result] = await this.donorsCollection.aggregate([
+      { $group: { _id: null, highest: { $max: { $convert: { input: '$id', to: 'long', onError: null, onNull: null } } } } }
+    ]).toArray();
+    return Number(result?.highest ?? 0);
+  }
+
+  async getDonor(id: RecordId): Promise<Donor | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.donorsCollection.findOne({ id });
+        return doc ? this.mapDonor(doc) : undefined;
+      });
+    } catch (error: unknown) {
+      console.error('Error in getDonor:', error);
+      throw error;
+    }
+  }
+
+  async getDonors(): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donorsCollection.find().toArray();
+        return result.map((doc: any) => this.mapDonor(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getDonors:', error);
+      throw error;
+    }
+  }
+
+  async findDonors(criteria: DonorMatchCriteria): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+      
+      const conditions: any[] = [];
+      if (criteria.panNumber) conditions.push({ panNumber: criteria.panNumber });
+      if (criteria.email) conditions.push({ email: criteria.email });
+      const phone = criteria.contactNumber ? normalizePhone(criteria.contactNumber) : '';
+      if (phone) conditions.push({ phoneKey: phone });
+      if (conditions.length === 0) return [];
+      
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donorsCollection.find({ $or: conditions }).toArray();
+        return result.map((doc: any) => this.mapDonor(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in findDonors:', error);
+      throw error;
+    }
+  }
+
+  async searchDonors(query: string, limit: number): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+      
+      const pattern = new RegExp(escapeRegExp(query.trim()), 'i');
+      const conditions: any[] = [
+        { name: pattern },
+        { email: pattern },
+        { panNumber: pattern }
+      ];
+      const phone = normalizePhone(query);
+      if (phone.length >= 3) conditions.push({ phoneKey: { $regex: phone } });
+      
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donorsCollection.find({ $or: conditions }).limit(limit).toArray();
+        return result.map((doc: any) => this.mapDonor(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in searchDonors:', error);
+      throw error;
+    }
+  }
+
+  async createDonor(insertDonor: InsertDonor): Promise<Donor> {
+    try {
+      await this.ensureConnected();
+      
+      const id = String(await this.nextSequence('donorId', () => this.highestDonorId()));
+      const now = new Date();
+      const donor: Donor = { ...insertDonor, id, createdAt: now, updatedAt: now };
+      
+      return await this.executeWithTimeout(async () => {
+        // phoneKey holds the normalised number so lookups ignore formatting
+        await this.donorsCollection.insertOne({ ...donor, phoneKey: normalizePhone(donor.contactNumber) });
+        return donor;
+      });
+    } catch (error: unknown) {
+      console.error('Error in createDonor:', error);
+      throw error;
+    }
+  }
+
+  async updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const $set: any = { ...updates, updatedAt: new Date() };
+        if (updates.contactNumber !== undefined) {
+          $set.phoneKey = normalizePhone(updates.contactNumber);
         }
         
-        if (!deleted) {
-          console.log(`User not found with id: ${id}`);
-        }
+        const doc = await this.donorsCollection.findOneAndUpdate(
+          { id },
+          { $set },
+          { returnDocument: 'after' }
+        );
+        return doc ? this.mapDonor(doc) : undefined;
       });
     } catch (error: unknown) {
-      console.error('Error in deleteUser:', error);
+      console.error('Error in updateDonor:', error);
       throw error;
     }
   }
 
-  async createDonation(insertDonation: InsertDonation): Promise<Donation> {
+  async mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void> {
     try {
       await this.ensureConnected();
-      
-      // Get the highest ID to ensure we increment properly
-      const highestDonation = await this.executeWithTimeout(async () => {
-        const result = await this.donationsCollection.find().sort({ id: -1 }).limit(1).toArray();
-        return result.length > 0 ? result[0] : null;
+      await this.executeWithTimeout(async () => {
+        // Donations are moved before the sources are removed, so none is ever left pointing at a deleted donor
+        await this.donationsCollection.updateMany(
+          { donorId: { $in: sourceIds } },
+          { $set: { donorId: targetId } }
+        );
+        await this.donorsCollection.deleteMany({ id: { $in: sourceIds } });
       });
+    } catch (error: unknown) {
+      console.error('Error in mergeDonors:', error);
+      throw error;
+    }
+  }
+
+  async setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.executeWithTimeout(() =>
+        this.donationsCollection.updateOne({ id: donationId }, { $set: { donorId } })
+      );
+    } catch (error: unknown) {
+      console.error('Error in setDonationDonor:', error);
+      throw error;
+    }
+  }
+
+  // Donations are identified by their own counter-based id rather than the ObjectId
+  private mapDonation(doc: any): Donation {
+    const { _id, ...donation } = doc;
+    return donation;
+  }
+
+  private async highestDonationId(): Promise<number> {
+    const [result] = await this.donationsCollection.aggregate([
+      { $group: { _id: null, highest: { $max: { $convert: { input: '$id', to: 'long', onError: null, onNull: null } } } } }
+    ]).toArray();
+    return Number(result?.highest ?? 0);
+  }
+
+  async createDonation(insertDonation: NewDonation): Promise<Donation> {
+    try {
+      await this.ensureConnected();
       
-      const nextId = highestDonation ? highestDonation.id + 1 : 1;
+      // Allocate the id from a counter so concurrent submissions never share one
+      const nextId = await this.nextSequence('donationId', () => this.highestDonationId());
       
       const now = new Date();
       const donation: Donation = {
-        id: nextId,
+        id: String(nextId),
         date: insertDonation.date,
         receiptNumber: insertDonation.receiptNumber,
         donorName: insertDonation.donorName,
@@ -430,15 +806,23 @@ export class MongoDBStorage implements IStorage {
         amount: insertDonation.amount,
         amountInWords: insertDonation.amountInWords,
         purpose: insertDonation.purpose,
+        purposeId: insertDonation.purposeId || null,
         drawnOn: insertDonation.drawnOn || null,
         instrumentDate: insertDonation.instrumentDate || null,
         instrumentNumber: insertDonation.instrumentNumber || null,
         createdBy: insertDonation.createdBy || null,
-        createdAt: now
+        donorId: insertDonation.donorId ?? null,
+        createdAt: now,
+        revisedAt: null,
+        revisedBy: null,
+        cancelledAt: null,
+        cancelledBy: null,
+        cancellationReason: null,
+        replacementDonationId: null
       };
       
       await this.executeWithTimeout(async () => {
-        await this.donationsCollection.insertOne(donation);
+        await this.donationsCollection.insertOne({ ...donation });
       });
       
       return donation;
@@ -448,17 +832,14 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  async getDonation(id: number): Promise<Donation | undefined> {
+  async getDonation(id: RecordId): Promise<Donation | undefined> {
     try {
       await this.ensureConnected();
       return await this.executeWithTimeout(async () => {
         const donation = await this.donationsCollection.findOne({ id });
         if (!donation) return undefined;
         
-        return {
-          id: donation._id.toString(),
-          ...donation
-        };
+        return this.mapDonation(donation);
       });
     } catch (error: unknown) {
       console.error('Error in getDonation:', error);
@@ -466,6 +847,19 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
+  async getDonationsByDonor(donorId: RecordId): Promise<Donation[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donationsCollection.find({ donorId }).toArray();
+        return result.map((doc: any) => this.mapDonation(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getDonationsByDonor:', error);
+      throw error;
+    }
+  }
+
   async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
     try {
       await this.ensureConnected();
@@ -473,10 +867,7 @@ export class MongoDBStorage implements IStorage {
         const donation = await this.donationsCollection.findOne({ receiptNumber });
         if (!donation) return undefined;
         
-        return {
-          id: donation._id.toString(),
-          ...donation
-        };
+        return this.mapDonation(donation);
       });
     } catch (error: unknown) {
       console.error('Error in getDonationByReceiptNumber:', error);
@@ -489,13 +880,156 @@ export class MongoDBStorage implements IStorage {
       await this.ensureConnected();
       return await this.executeWithTimeout(async () => {
         const result = await this.donationsCollection.find().toArray();
+        return result.map((doc: any) => this.mapDonation(doc));
+      });
+    } catch (error: unknown) {
+      console.error('Error in getDonations:', error);
+      throw error;
+    }
+  }
+
+  async queryDonations(query: DonationQuery): Promise<PagedResult<Donation>> {
+    try {
+      await this.ensureConnected();
+      
+      const filter: any = {};
+      if (query.dateFrom || query.dateTo) {
+        filter.date = {
+          ...(query.dateFrom ? { $gte: query.dateFrom } : {}),
+          ...(query.dateTo ? { $lte: query.dateTo } : {})
+        };
+      }
+      if (query.amountMin !== undefined || query.amountMax !== undefined) {
+        filter.amount = {
+          ...(query.amountMin !== undefined ? { $gte: query.amountMin } : {}),
+          ...(query.amountMax !== undefined ? { $lte: query.amountMax } : {})
+        };
+      }
+      if (query.paymentMode) filter.paymentMode = query.paymentMode;
+      if (query.purpose) filter.purpose = new RegExp(`^${escapeRegExp(query.purpose)}$`, 'i');
+      if (query.createdBy) {
+        filter.createdBy = query.createdBy === UNASSIGNED_CREATOR
+          ? { $in: [null, ''] }
+          : query.createdBy;
+      }
+      // Donations saved before cancellation existed have no cancelledAt field, which also matches null
+      if (query.status === 'active') filter.cancelledAt = null;
+      if (query.status === 'cancelled') filter.cancelledAt = { $ne: null };
+      if (query.search) {
+        const pattern = new RegExp(escapeRegExp(query.search), 'i');
+        filter.$or = donationSearchFields.map(field => ({ [field]: pattern }));
+      }
+      
+      const direction = query.sortOrder === 'asc' ? 1 : -1;
+      return await this.executeWithTimeout(async () => {
+        const [docs, total] = await Promise.all([
+          this.donationsCollection.find(filter)
+            // Ties fall back to insertion order
+            .sort({ [query.sortBy]: direction, _id: direction })
+            .skip((query.page - 1) * query.pageSize)
+            .limit(query.pageSize)
+            .toArray(),
+          this.donationsCollection.countDocuments(filter)
+        ]);
+        
+        return {
+          items: docs.map((doc: any) => this.mapDonation(doc)),
+          total,
+          page: query.page,
+          pageSize: query.pageSize
+        };
+      });
+    } catch (error: unknown) {
+      console.error('Error in queryDonations:', error);
+      throw error;
+    }
+  }
+
+  private async highestDonationRevisionId(): Promise<number> {
+    const result = await this.donationRevisionsCollection.find().sort({ id: -1 }).limit(1).toArray();
+    return result.length > 0 && typeof result[0].id === 'number' ? result[0].id : 0;
+  }
+
+  async reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      
+      const existing = await this.executeWithTimeout(() => this.donationsCollection.findOne({ id }));
+      if (!existing) return undefined;
+      
+      const revisionId = await this.nextSequence('donationRevisionId', () => this.highestDonationRevisionId());
+      return await this.executeWithTimeout(async () => {
+        // The revision is written first, so no edit is ever applied without its history entry
+        await this.donationRevisionsCollection.insertOne({ ...revision, id: revisionId });
+        const doc = await this.donationsCollection.findOneAndUpdate(
+          { id },
+          { $set: { ...updates, revisedAt: revision.changedAt, revisedBy: revision.changedBy } },
+          { returnDocument: 'after' }
+        );
+        if (!doc) return undefined;
+        
+        return this.mapDonation(doc);
+      });
+    } catch (error: unknown) {
+      console.error('Error in reviseDonation:', error);
+      throw error;
+    }
+  }
+
+  async getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donationRevisionsCollection.find({ donationId }).sort({ id: 1 }).toArray();
         return result.map((doc: any) => ({
-          id: doc._id.toString(),
-          ...doc
+          id: doc.id,
+          donationId: doc.donationId,
+          changedBy: doc.changedBy,
+          changedAt: doc.changedAt,
+          reason: doc.reason ?? null,
+          changes: doc.changes ?? []
         }));
       });
     } catch (error: unknown) {
-      console.error('Error in getDonations:', error);
+      console.error('Error in getDonationRevisions:', error);
+      throw error;
+    }
+  }
+
+  async cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const doc = await this.donationsCollection.findOneAndUpdate(
+          { id },
+          { $set: cancellation },
+          { returnDocument: 'after' }
+        );
+        if (!doc) return undefined;
+        
+        return this.mapDonation(doc);
+      });
+    } catch (error: unknown) {
+      console.error('Error in cancelDonation:', error);
+      throw error;
+    }
+  }
+
+  async assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number> {
+    try {
+      await this.ensureConnected();
+      return await this.executeWithTimeout(async () => {
+        const result = await this.donationsCollection.updateMany(
+          {
+            purposeId: null,
+            $expr: { $eq: [{ $toLower: { $trim: { input: '$purpose' } } }, purpose.trim().toLowerCase()] }
+          },
+          { $set: { purposeId } }
+        );
+        return result.modifiedCount;
+      });
+    } catch (error: unknown) {
+      console.error('Error in assignLegacyPurpose:', error);
       throw error;
     }
   }
@@ -508,9 +1042,10 @@ export class MongoDBStorage implements IStorage {
       const donations = await this.executeWithTimeout(async () => {
         // First try to find donations with numeric receipt numbers
         const numericRegex = /^\d+$/;
+        // Compare as numbers so that "10" sorts after "9"
         const numericResults = await this.donationsCollection.find({
           receiptNumber: { $regex: numericRegex }
-        }).sort({ receiptNumber: -1 }).limit(1).toArray();
+        }).collation({ locale: 'en', numericOrdering: true }).sort({ receiptNumber: -1 }).limit(1).toArray();
         
         // If we found numeric receipt numbers, return the highest one
         if (numericResults.length > 0) {
@@ -534,10 +1069,124 @@ export class MongoDBStorage implements IStorage {
     }
   }
 
-  // Method to ping the MongoDB server to check connection
+  private async highestAuditLogId(): Promise<number> {
+    const result = await this.auditLogCollection.find().sort({ id: -1 }).limit(1).toArray();
+    return result.length > 0 && typeof result[0].id === 'number' ? result[0].id : 0;
+  }
+
+  private mapAuditLogEntry(doc: any): AuditLogEntry {
+    return {
+      id: doc.id,
+      action: doc.action,
+      actor: doc.actor ?? null,
+      targetType: doc.targetType,
+      targetId: doc.targetId ?? null,
+      before: doc.before ?? null,
+      after: doc.after ?? null,
+      ip: doc.ip ?? null,
+      createdAt: doc.createdAt
+    };
+  }
+
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    try {
+      await this.ensureConnected();
+      
+      const id = await this.nextSequence('auditLogId', () => this.highestAuditLogId());
+      const saved: AuditLogEntry = { ...entry, id };
+      await this.executeWithTimeout(async () => {
+        await this.auditLogCollection.insertOne({ ...saved });
+      });
+      return saved;
+    } catch (error: unknown) {
+      console.error('Error in appendAuditLog:', error);
+      throw error;
+    }
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    try {
+      await this.ensureConnected();
+      
+      const filter: any = {};
+      if (query.action) filter.action = query.action;
+      if (query.actor) filter.actor = new RegExp(`^${escapeRegExp(query.actor)}$`, 'i');
+      if (query.targetType) filter.targetType = query.targetType;
+      if (query.targetId) filter.targetId = query.targetId;
+      if (query.dateFrom || query.dateTo) {
+        filter.createdAt = {
+          ...(query.dateFrom ? { $gte: new Date(`${query.dateFrom}T00:00:00.000Z`) } : {}),
+          ...(query.dateTo ? { $lte: new Date(`${query.dateTo}T23:59:59.999Z`) } : {})
+        };
+      }
+      if (query.search) {
+        const pattern = new RegExp(escapeRegExp(query.search), 'i');
+        filter.$or = [{ actor: pattern }, { targetId: pattern }, { ip: pattern }];
+      }
+      
+      return await this.executeWithTimeout(async () => {
+        const [docs, total] = await Promise.all([
+          this.auditLogCollection.find(filter)
+            .sort({ id: -1 })
+            .skip((query.page - 1) * query.pageSize)
+            .limit(query.pageSize)
+            .toArray(),
+          this.auditLogCollection.countDocuments(filter)
+        ]);
+        
+        return {
+          items: docs.map((doc: any) => this.mapAuditLogEntry(doc)),
+          total,
+          page: query.page,
+          pageSize: query.pageSize
+        };
+      });
+    } catch (error: unknown) {
+      console.error('Error in queryAuditLog:', error);
+      throw error;
+    }
+  }
+
+  // Start a new round of connection attempts once the earlier ones have all failed,
+  // so the app can switch back to MongoDB when it becomes reachable again
+  private reconnect(): void {
+    if (this.connectionPromise) {
+      return;
+    }
+    
+    this.connectionAttempts = 0;
+    this.connectionPromise = this.initConnection(this.dbName).catch(() => {
+      this.connectionPromise = null;
+    });
+  }
+
+  // The error as a StorageUnavailableError when it means MongoDB could not be reached.
+  // Server selection fails before anything is sent; a network error may come after
+  // the server has already applied the operation.
+  unavailableError(error: unknown): StorageUnavailableError | undefined {
+    if (error instanceof StorageUnavailableError) return error;
+    if (error instanceof MongoServerSelectionError || error instanceof MongoNotConnectedError ||
+        error instanceof MongoTopologyClosedError) {
+      return new StorageUnavailableError(error.message, false, error);
+    }
+    if (error instanceof MongoNetworkError) {
+      return new StorageUnavailableError(error.message, true, error);
+    }
+    return undefined;
+  }
+
+  // Method to ping the MongoDB server to check connection. A failed migration is
+  // thrown rather than reported as an unreachable server.
   async ping(): Promise<boolean> {
+    if (!this.connected && this.migrationError) {
+      const error = this.migrationError;
+      this.reconnect();
+      throw error;
+    }
+    
     try {
       if (!this.connected) {
+        this.reconnect();
         return false;
       }
       
@@ -0,0 +1,15 @@
+import { storage } from './storage';
+import {
+  organizationSettingsSchema,
+  defaultOrganizationSettings,
+  type OrganizationSettings
+} from '@shared/organization';
+
+export const ORGANIZATION_SETTING = 'organization';
+
+export async function getOrganizationSettings(): Promise<OrganizationSettings> {
+  const setting = await storage.getSetting(ORGANIZATION_SETTING);
+  // Fields added after the profile was saved take their default values
+  const parsed = organizationSettingsSchema.safeParse({ ...defaultOrganizationSettings, ...(setting?.value as object) });
+  return parsed.success ? parsed.data : defaultOrganizationSettings;
+}
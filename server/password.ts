@@ -0,0 +1,61 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash, type ScryptOptions } from 'crypto';
+
+// scrypt parameters; stored alongside each hash so they can be raised later
+// without invalidating existing passwords
+const SCRYPT_N = 16384;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const KEY_LENGTH = 64;
+const HASH_PREFIX = 'scrypt';
+
+function scryptAsync(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (err, derivedKey) => (err ? reject(err) : resolve(derivedKey)));
+  });
+}
+
+// Hashes are stored as scrypt$N$r$p$salt$hash with base64 salt and hash
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, KEY_LENGTH, { N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P });
+  return [HASH_PREFIX, SCRYPT_N, SCRYPT_R, SCRYPT_P, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+export function isPasswordHash(stored: string): boolean {
+  return stored.startsWith(`${HASH_PREFIX}$`) && stored.split('$').length === 6;
+}
+
+// Records created before hashing was introduced hold the plaintext password;
+// those are still accepted so they can be upgraded on the next login
+export async function verifyPassword(stored: string, candidate: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const a = Buffer.from(stored);
+    const b = Buffer.from(candidate);
+    return a.length === b.length && timingSafeEqual(a, b);
+  }
+
+  const [, n, r, p, saltB64, hashB64] = stored.split('$');
+  const expected = Buffer.from(hashB64, 'base64');
+  const actual = await scryptAsync(candidate, Buffer.from(saltB64, 'base64'), expected.length, {
+    N: parseInt(n),
+    r: parseInt(r),
+    p: parseInt(p),
+  });
+  return timingSafeEqual(expected, actual);
+}
+
+export function needsRehash(stored: string): boolean {
+  if (!isPasswordHash(stored)) return true;
+  const [, n, r, p] = stored.split('$');
+  return parseInt(n) !== SCRYPT_N || parseInt(r) !== SCRYPT_R || parseInt(p) !== SCRYPT_P;
+}
+
+// One-time tokens are random and only their SHA-256 digest is persisted
+export function generateResetToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('hex');
+  return { token, tokenHash: hashResetToken(token) };
+}
+
+export function hashResetToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,899 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { and, asc, desc, eq, gte, ilike, inArray, isNotNull, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import {
+  users,
+  passwordResetTokens,
+  loginAttempts,
+  settings,
+  counters,
+  purposes,
+  donors,
+  donations,
+  donationRevisions,
+  auditLog,
+  type User,
+  type InsertUser,
+  type Donation,
+  type InsertDonation,
+  type NewDonation,
+  type DonationRevision,
+  type InsertDonationRevision,
+  type DonationCancellation,
+  type Donor,
+  type InsertDonor,
+  type PasswordResetToken,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type Setting,
+  type AuditLogEntry,
+  type InsertAuditLogEntry
+} from '@shared/schema';
+import type { AuditLogQuery } from '@shared/auditLog';
+import type { RecordId } from '@shared/ids';
+import { IStorage } from './storage';
+import { MigrationError, StorageUnavailableError } from './storageErrors';
+import { normalizePhone, type DonorMatchCriteria } from '@shared/donors';
+import type { Purpose, PurposeInput } from '@shared/purposes';
+import {
+  UNASSIGNED_CREATOR,
+  donationSearchFields,
+  type DonationQuery,
+  type PagedResult
+} from '@shared/donationQuery';
+
+// Migrations generated by drizzle-kit from shared/schema.ts
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, '..', 'migrations');
+
+// Escape LIKE wildcards so user input is matched literally
+function likePattern(text: string): string {
+  return `%${text.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+// Phone numbers compared on their last ten digits, as normalizePhone does
+const donorPhoneKey = sql`right(regexp_replace(${donors.contactNumber}, '\\D', '', 'g'), 10)`;
+
+// Records have serial ids here; the rest of the app sees them as opaque strings
+function toUser(row: typeof users.$inferSelect): User {
+  return { ...row, id: String(row.id) };
+}
+
+function toDonor(row: typeof donors.$inferSelect): Donor {
+  return { ...row, id: String(row.id) };
+}
+
+function toPasswordResetToken(row: typeof passwordResetTokens.$inferSelect): PasswordResetToken {
+  return { ...row, id: String(row.id) };
+}
+
+function toLoginAttempt(row: typeof loginAttempts.$inferSelect): LoginAttempt {
+  return { ...row, id: String(row.id) };
+}
+
+function toDonation(row: typeof donations.$inferSelect): Donation {
+  return {
+    ...row,
+    id: String(row.id),
+    donorId: row.donorId === null ? null : String(row.donorId),
+    replacementDonationId: row.replacementDonationId === null ? null : String(row.replacementDonationId)
+  };
+}
+
+function toDonationRevision(row: typeof donationRevisions.$inferSelect): DonationRevision {
+  return { ...row, donationId: String(row.donationId) };
+}
+
+// Error codes meaning the server could not be reached, so nothing was run: network
+// errors from Node and SQLSTATE codes sent while a connection is being opened
+const UNREACHABLE_CODES = new Set([
+  'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH',
+  '08001', '08004', '53300', '57P03'
+]);
+
+// Error codes meaning an open connection was lost, possibly after the statement had run
+const CONNECTION_LOST_CODES = new Set([
+  'ECONNRESET', 'EPIPE', 'ETIMEDOUT',
+  '08000', '08003', '08006', '57P01', '57P02'
+]);
+
+// Largest value a PostgreSQL serial (int4) column can hold
+const MAX_SERIAL_ID = 2147483647;
+
+export class PostgresStorage implements IStorage {
+  private pool: pg.Pool;
+  private db: NodePgDatabase;
+  private connected: boolean = false;
+  private connectionPromise: Promise<void> | null = null;
+  // Why the last connection attempt could not bring the schema up to date
+  private migrationError: MigrationError | null = null;
+
+  constructor(connectionString: string) {
+    this.pool = new pg.Pool({ connectionString });
+    // An idle connection dropped by the server must not bring the process down
+    this.pool.on('error', (error) => console.error('PostgreSQL pool error:', error));
+    this.db = drizzle({ client: this.pool });
+
+    // Bring the schema up to date before the first query
+    this.connect();
+  }
+
+  // Apply migrations on a new connection attempt. A failure is logged here and
+  // reported again to the first query that waits on the attempt.
+  private connect(): void {
+    this.connectionPromise = this.initConnection();
+    this.connectionPromise.catch(() => {
+      this.connectionPromise = null;
+    });
+  }
+
+  private async initConnection(): Promise<void> {
+    try {
+      // Reach the server first, so only errors from the migrations themselves count as a failed migration
+      await this.pool.query('select 1');
+
+      console.log('Applying PostgreSQL migrations...');
+      try {
+        await migrate(this.db, { migrationsFolder: MIGRATIONS_FOLDER });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new MigrationError('PostgreSQL migration failed: ' + message, error);
+      }
+      this.migrationError = null;
+      this.connected = true;
+      console.log('Connected to PostgreSQL successfully');
+    } catch (error: unknown) {
+      console.error('Failed to connect to PostgreSQL:', error);
+      this.connected = false;
+      if (error instanceof MigrationError) {
+        this.migrationError = error;
+      }
+      throw error;
+    }
+  }
+
+  private async ensureConnected(): Promise<void> {
+    if (this.connected) {
+      return;
+    }
+
+    if (this.connectionPromise) {
+      try {
+        await this.connectionPromise;
+      } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        throw new StorageUnavailableError('PostgreSQL connection failed: ' + errorMessage, false, error);
+      }
+    }
+
+    if (!this.connected) {
+      throw new StorageUnavailableError('PostgreSQL is not connected', false);
+    }
+  }
+
+  // Ids that are not serial values match no row. Serial columns are 4-byte integers,
+  // and a larger value would make PostgreSQL reject the whole query.
+  private serialId(id: RecordId): number | undefined {
+    if (!/^\d{1,10}$/.test(id)) return undefined;
+    const value = Number(id);
+    return value <= MAX_SERIAL_ID ? value : undefined;
+  }
+
+  // User operations
+  async getUser(id: RecordId): Promise<User | undefined> {
+    try {
+      await this.ensureConnected();
+      const userId = this.serialId(id);
+      if (userId === undefined) return undefined;
+
+      const [user] = await this.db.select().from(users).where(eq(users.id, userId));
+      return user && toUser(user);
+    } catch (error: unknown) {
+      console.error('Error in getUser:', error);
+      throw error;
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    try {
+      await this.ensureConnected();
+      const [user] = await this.db.select().from(users).where(eq(users.username, username));
+      return user && toUser(user);
+    } catch (error: unknown) {
+      console.error(`Error getting user by username (${username}):`, error);
+      throw error;
+    }
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    try {
+      await this.ensureConnected();
+      const [user] = await this.db.insert(users).values({
+        ...insertUser,
+        role: insertUser.role || 'staff',
+        isActive: true,
+        createdAt: new Date()
+      }).returning();
+      return toUser(user);
+    } catch (error: unknown) {
+      console.error('Error creating user:', error);
+      throw error;
+    }
+  }
+
+  async getUsers(): Promise<User[]> {
+    try {
+      await this.ensureConnected();
+      const rows = await this.db.select().from(users).orderBy(asc(users.id));
+      return rows.map(toUser);
+    } catch (error: unknown) {
+      console.error('Error in getUsers:', error);
+      throw error;
+    }
+  }
+
+  async updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined> {
+    try {
+      await this.ensureConnected();
+      const userId = this.serialId(id);
+      if (userId === undefined) return undefined;
+
+      const [user] = await this.db.update(users).set({ isActive }).where(eq(users.id, userId)).returning();
+      return user && toUser(user);
+    } catch (error: unknown) {
+      console.error('Error in updateUserStatus:', error);
+      throw error;
+    }
+  }
+
+  async deleteUser(id: RecordId): Promise<void> {
+    try {
+      await this.ensureConnected();
+      const userId = this.serialId(id);
+      if (userId === undefined) return;
+
+      await this.db.delete(users).where(eq(users.id, userId));
+    } catch (error: unknown) {
+      console.error('Error in deleteUser:', error);
+      throw error;
+    }
+  }
+
+  async updateUserPassword(id: RecordId, password: string): Promise<User | undefined> {
+    try {
+      await this.ensureConnected();
+      const userId = this.serialId(id);
+      if (userId === undefined) return undefined;
+
+      const [user] = await this.db.update(users).set({ password }).where(eq(users.id, userId)).returning();
+      return user && toUser(user);
+    } catch (error: unknown) {
+      console.error('Error in updateUserPassword:', error);
+      throw error;
+    }
+  }
+
+  // Password reset operations
+  async createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.db.insert(passwordResetTokens).values({ userId, tokenHash, expiresAt, createdAt: new Date() });
+    } catch (error: unknown) {
+      console.error('Error in createPasswordResetToken:', error);
+      throw error;
+    }
+  }
+
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    try {
+      await this.ensureConnected();
+      // Delete and return in one statement so a token can never be used twice
+      const [token] = await this.db.delete(passwordResetTokens)
+        .where(eq(passwordResetTokens.tokenHash, tokenHash))
+        .returning();
+      return token && token.expiresAt > new Date() ? toPasswordResetToken(token) : undefined;
+    } catch (error: unknown) {
+      console.error('Error in consumePasswordResetToken:', error);
+      throw error;
+    }
+  }
+
+  // Login throttling operations
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    try {
+      await this.ensureConnected();
+      const [attempt] = await this.db.select().from(loginAttempts).where(eq(loginAttempts.key, key));
+      return attempt && toLoginAttempt(attempt);
+    } catch (error: unknown) {
+      console.error('Error in getLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  async getLoginAttempts(): Promise<LoginAttempt[]> {
+    try {
+      await this.ensureConnected();
+      const rows = await this.db.select().from(loginAttempts);
+      return rows.map(toLoginAttempt);
+    } catch (error: unknown) {
+      console.error('Error in getLoginAttempts:', error);
+      throw error;
+    }
+  }
+
+  async saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    try {
+      await this.ensureConnected();
+      const values = {
+        failedCount: attempt.failedCount ?? 0,
+        lastFailedAt: attempt.lastFailedAt ?? null,
+        lockedUntil: attempt.lockedUntil ?? null
+      };
+      const [saved] = await this.db.insert(loginAttempts)
+        .values({ key: attempt.key, ...values })
+        .onConflictDoUpdate({ target: loginAttempts.key, set: values })
+        .returning();
+      return toLoginAttempt(saved);
+    } catch (error: unknown) {
+      console.error('Error in saveLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    try {
+      await this.ensureConnected();
+      await this.db.delete(loginAttempts).where(eq(loginAttempts.key, key));
+    } catch (error: unknown) {
+      console.error('Error in deleteLoginAttempt:', error);
+      throw error;
+    }
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    try {
+      await this.ensureConnected();
+      const [setting] = await this.db.select().from(settings).where(eq(settings.key, key));
+      return setting;
+    } catch (error: unknown) {
+      console.error('Error in getSetting:', error);
+      throw error;
+    }
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    try {
+      await this.ensureConnected();
+      return await this.db.select().from(settings);
+    } catch (error: unknown) {
+      console.error('Error in getSettings:', error);
+      throw error;
+    }
+  }
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting> {
+    try {
+      await this.ensureConnected();
+      const updatedAt = new Date();
+      const [setting] = await this.db.insert(settings)
+        .values({ key, value, updatedBy, updatedAt })
+        .onConflictDoUpdate({ target: settings.key, set: { value, updatedBy, updatedAt } })
+        .returning();
+      return setting;
+    } catch (error: unknown) {
+      console.error('Error in saveSetting:', error);
+      throw error;
+    }
+  }
+
+  // Atomically increment and return a named counter. The counter row is
+  // seeded the first time it is used.
+  async nextSequence(name: string, seed: () => Promise<number>): Promise<number> {
+    try {
+      await this.ensureConnected();
+
+      const [existing] = await this.db.select().from(counters).where(eq(counters.name, name));
+      if (!existing) {
+        const initial = await seed();
+        // Another request may have seeded the counter first, which is fine
+        await this.db.insert(counters).values({ name, seq: initial }).onConflictDoNothing();
+      }
+
+      const [counter] = await this.db.update(counters)
+        .set({ seq: sql`${counters.seq} + 1` })
+        .where(eq(counters.name, name))
+        .returning();
+      return counter.seq;
+    } catch (error: unknown) {
+      console.error('Error in nextSequence:', error);
+      throw error;
+    }
+  }
+
+  async getSequences(): Promise<Record<string, number>> {
+    try {
+      await this.ensureConnected();
+      const rows = await this.db.select().from(counters);
+      return Object.fromEntries(rows.map(row => [row.name, row.seq]));
+    } catch (error: unknown) {
+      console.error('Error in getSequences:', error);
+      throw error;
+    }
+  }
+
+  // Purpose catalog operations
+  async getPurposes(): Promise<Purpose[]> {
+    try {
+      await this.ensureConnected();
+      return await this.db.select().from(purposes).orderBy(asc(purposes.name));
+    } catch (error: unknown) {
+      console.error('Error in getPurposes:', error);
+      throw error;
+    }
+  }
+
+  async createPurpose(input: PurposeInput): Promise<Purpose> {
+    try {
+      await this.ensureConnected();
+      const [purpose] = await this.db.insert(purposes).values({ ...input, id: randomUUID() }).returning();
+      return purpose;
+    } catch (error: unknown) {
+      console.error('Error in createPurpose:', error);
+      throw error;
+    }
+  }
+
+  async updatePurpose(id: RecordId, input: PurposeInput): Promise<Purpose | undefined> {
+    try {
+      await this.ensureConnected();
+      const [purpose] = await this.db.update(purposes).set(input).where(eq(purposes.id, id)).returning();
+      return purpose;
+    } catch (error: unknown) {
+      console.error('Error in updatePurpose:', error);
+      throw error;
+    }
+  }
+
+  // Donor operations
+  async getDonor(id: RecordId): Promise<Donor | undefined> {
+    try {
+      await this.ensureConnected();
+      const donorId = this.serialId(id);
+      if (donorId === undefined) return undefined;
+
+      const [donor] = await this.db.select().from(donors).where(eq(donors.id, donorId));
+      return donor && toDonor(donor);
+    } catch (error: unknown) {
+      console.error('Error in getDonor:', error);
+      throw error;
+    }
+  }
+
+  async getDonors(): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+      const rows = await this.db.select().from(donors).orderBy(asc(donors.id));
+      return rows.map(toDonor);
+    } catch (error: unknown) {
+      console.error('Error in getDonors:', error);
+      throw error;
+    }
+  }
+
+  async findDonors(criteria: DonorMatchCriteria): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+
+      const conditions: SQL[] = [];
+      if (criteria.panNumber) conditions.push(eq(donors.panNumber, criteria.panNumber));
+      if (criteria.email) conditions.push(eq(donors.email, criteria.email));
+      const phone = criteria.contactNumber ? normalizePhone(criteria.contactNumber) : '';
+      if (phone) conditions.push(sql`${donorPhoneKey} = ${phone}`);
+      if (conditions.length === 0) return [];
+
+      const rows = await this.db.select().from(donors).where(or(...conditions));
+      return rows.map(toDonor);
+    } catch (error: unknown) {
+      console.error('Error in findDonors:', error);
+      throw error;
+    }
+  }
+
+  async searchDonors(query: string, limit: number): Promise<Donor[]> {
+    try {
+      await this.ensureConnected();
+
+      const pattern = likePattern(query.trim());
+      const conditions: SQL[] = [
+        ilike(donors.name, pattern),
+        ilike(donors.email, pattern),
+        ilike(donors.panNumber, pattern)
+      ];
+      const phone = normalizePhone(query);
+      if (phone.length >= 3) conditions.push(sql`${donorPhoneKey} like ${likePattern(phone)}`);
+
+      const rows = await this.db.select().from(donors).where(or(...conditions)).limit(limit);
+      return rows.map(toDonor);
+    } catch (error: unknown) {
+      console.error('Error in searchDonors:', error);
+      throw error;
+    }
+  }
+
+  async createDonor(insertDonor: InsertDonor): Promise<Donor> {
+    try {
+      await this.ensureConnected();
+      const now = new Date();
+      const [donor] = await this.db.insert(donors).values({ ...insertDonor, createdAt: now, updatedAt: now }).returning();
+      return toDonor(donor);
+    } catch (error: unknown) {
+      console.error('Error in createDonor:', error);
+      throw error;
+    }
+  }
+
+  async updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined> {
+    try {
+      await this.ensureConnected();
+      const donorId = this.serialId(id);
+      if (donorId === undefined) return undefined;
+
+      const [donor] = await this.db.update(donors)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(donors.id, donorId))
+        .returning();
+      return donor && toDonor(donor);
+    } catch (error: unknown) {
+      console.error('Error in updateDonor:', error);
+      throw error;
+    }
+  }
+
+  async mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void> {
+    try {
+      await this.ensureConnected();
+      const target = this.serialId(targetId);
+      const sources = sourceIds.map(id => this.serialId(id)).filter((id): id is number => id !== undefined);
+      if (target === undefined || sources.length === 0) return;
+
+      await this.db.transaction(async (tx) => {
+        await tx.update(donations).set({ donorId: target }).where(inArray(donations.donorId, sources));
+        await tx.delete(donors).where(inArray(donors.id, sources));
+      });
+    } catch (error: unknown) {
+      console.error('Error in mergeDonors:', error);
+      throw error;
+    }
+  }
+
+  async setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void> {
+    try {
+      await this.ensureConnected();
+      const id = this.serialId(donationId);
+      const donor = this.serialId(donorId);
+      if (id === undefined || donor === undefined) return;
+
+      await this.db.update(donations).set({ donorId: donor }).where(eq(donations.id, id));
+    } catch (error: unknown) {
+      console.error('Error in setDonationDonor:', error);
+      throw error;
+    }
+  }
+
+  // Donation operations
+  async createDonation(insertDonation: NewDonation): Promise<Donation> {
+    try {
+      await this.ensureConnected();
+      const [donation] = await this.db.insert(donations).values({
+        receiptNumber: insertDonation.receiptNumber,
+        date: insertDonation.date,
+        donorName: insertDonation.donorName,
+        contactNumber: insertDonation.contactNumber,
+        address: insertDonation.address,
+        email: insertDonation.email,
+        panNumber: insertDonation.panNumber || null,
+        paymentMode: insertDonation.paymentMode,
+        amount: insertDonation.amount,
+        amountInWords: insertDonation.amountInWords,
+        purpose: insertDonation.purpose,
+        purposeId: insertDonation.purposeId || null,
+        instrumentDate: insertDonation.instrumentDate || null,
+        drawnOn: insertDonation.drawnOn || null,
+        instrumentNumber: insertDonation.instrumentNumber || null,
+        createdBy: insertDonation.createdBy || null,
+        donorId: insertDonation.donorId ? this.serialId(insertDonation.donorId) ?? null : null,
+        createdAt: new Date()
+      }).returning();
+      return toDonation(donation);
+    } catch (error: unknown) {
+      console.error('Error in createDonation:', error);
+      throw error;
+    }
+  }
+
+  async getDonation(id: RecordId): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      const donationId = this.serialId(id);
+      if (donationId === undefined) return undefined;
+
+      const [donation] = await this.db.select().from(donations).where(eq(donations.id, donationId));
+      return donation && toDonation(donation);
+    } catch (error: unknown) {
+      console.error('Error in getDonation:', error);
+      throw error;
+    }
+  }
+
+  async getDonationsByDonor(donorId: RecordId): Promise<Donation[]> {
+    try {
+      await this.ensureConnected();
+      const id = this.serialId(donorId);
+      if (id === undefined) return [];
+
+      const rows = await this.db.select().from(donations).where(eq(donations.donorId, id)).orderBy(asc(donations.id));
+      return rows.map(toDonation);
+    } catch (error: unknown) {
+      console.error('Error in getDonationsByDonor:', error);
+      throw error;
+    }
+  }
+
+  async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      const [donation] = await this.db.select().from(donations).where(eq(donations.receiptNumber, receiptNumber));
+      return donation && toDonation(donation);
+    } catch (error: unknown) {
+      console.error('Error in getDonationByReceiptNumber:', error);
+      throw error;
+    }
+  }
+
+  async getDonations(): Promise<Donation[]> {
+    try {
+      await this.ensureConnected();
+      const rows = await this.db.select().from(donations).orderBy(asc(donations.id));
+      return rows.map(toDonation);
+    } catch (error: unknown) {
+      console.error('Error in getDonations:', error);
+      throw error;
+    }
+  }
+
+  async queryDonations(query: DonationQuery): Promise<PagedResult<Donation>> {
+    try {
+      await this.ensureConnected();
+
+      const conditions: (SQL | undefined)[] = [
+        query.dateFrom ? gte(donations.date, query.dateFrom) : undefined,
+        query.dateTo ? lte(donations.date, query.dateTo) : undefined,
+        query.amountMin !== undefined ? gte(donations.amount, query.amountMin) : undefined,
+        query.amountMax !== undefined ? lte(donations.amount, query.amountMax) : undefined,
+        query.paymentMode ? eq(donations.paymentMode, query.paymentMode) : undefined,
+        query.purpose ? sql`lower(${donations.purpose}) = ${query.purpose.toLowerCase()}` : undefined,
+        query.status === 'active' ? isNull(donations.cancelledAt) : undefined,
+        query.status === 'cancelled' ? isNotNull(donations.cancelledAt) : undefined
+      ];
+      if (query.createdBy) {
+        conditions.push(query.createdBy === UNASSIGNED_CREATOR
+          ? or(isNull(donations.createdBy), eq(donations.createdBy, ''))
+          : eq(donations.createdBy, query.createdBy));
+      }
+      if (query.search) {
+        const pattern = likePattern(query.search);
+        conditions.push(or(...donationSearchFields.map(field => ilike(donations[field], pattern))));
+      }
+      const where = and(...conditions);
+
+      const order = query.sortOrder === 'asc' ? asc : desc;
+      const [items, [{ total }]] = await Promise.all([
+        this.db.select().from(donations)
+          .where(where)
+          .orderBy(order(donations[query.sortBy]), order(donations.id))
+          .offset((query.page - 1) * query.pageSize)
+          .limit(query.pageSize),
+        this.db.select({ total: sql<number>`count(*)::int` }).from(donations).where(where)
+      ]);
+
+      return { items: items.map(toDonation), total, page: query.page, pageSize: query.pageSize };
+    } catch (error: unknown) {
+      console.error('Error in queryDonations:', error);
+      throw error;
+    }
+  }
+
+  async reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      const donationId = this.serialId(id);
+      if (donationId === undefined) return undefined;
+
+      // The edit and its history entry are saved together or not at all
+      return await this.db.transaction(async (tx) => {
+        const [donation] = await tx.update(donations)
+          .set({ ...updates, revisedAt: revision.changedAt, revisedBy: revision.changedBy })
+          .where(eq(donations.id, donationId))
+          .returning();
+        if (!donation) return undefined;
+
+        await tx.insert(donationRevisions).values({ ...revision, donationId });
+        return toDonation(donation);
+      });
+    } catch (error: unknown) {
+      console.error('Error in reviseDonation:', error);
+      throw error;
+    }
+  }
+
+  async getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]> {
+    try {
+      await this.ensureConnected();
+      const id = this.serialId(donationId);
+      if (id === undefined) return [];
+
+      const rows = await this.db.select().from(donationRevisions)
+        .where(eq(donationRevisions.donationId, id))
+        .orderBy(asc(donationRevisions.id));
+      return rows.map(toDonationRevision);
+    } catch (error: unknown) {
+      console.error('Error in getDonationRevisions:', error);
+      throw error;
+    }
+  }
+
+  async cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined> {
+    try {
+      await this.ensureConnected();
+      const donationId = this.serialId(id);
+      if (donationId === undefined) return undefined;
+
+      const replacementId = cancellation.replacementDonationId === null ? null : this.serialId(cancellation.replacementDonationId);
+      const [donation] = await this.db.update(donations)
+        .set({ ...cancellation, replacementDonationId: replacementId ?? null })
+        .where(eq(donations.id, donationId))
+        .returning();
+      return donation && toDonation(donation);
+    } catch (error: unknown) {
+      console.error('Error in cancelDonation:', error);
+      throw error;
+    }
+  }
+
+  async assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number> {
+    try {
+      await this.ensureConnected();
+      const assigned = await this.db.update(donations)
+        .set({ purposeId })
+        .where(and(
+          isNull(donations.purposeId),
+          sql`lower(trim(${donations.purpose})) = ${purpose.trim().toLowerCase()}`
+        ))
+        .returning({ id: donations.id });
+      return assigned.length;
+    } catch (error: unknown) {
+      console.error('Error in assignLegacyPurpose:', error);
+      throw error;
+    }
+  }
+
+  async getLastReceiptNumber(): Promise<string | undefined> {
+    try {
+      await this.ensureConnected();
+
+      // Numeric receipt numbers are compared as numbers, so "100" comes after "99"
+      const [numeric] = await this.db.select({ receiptNumber: donations.receiptNumber }).from(donations)
+        .where(sql`${donations.receiptNumber} ~ '^[0-9]+$'`)
+        .orderBy(desc(sql`length(${donations.receiptNumber})`), desc(donations.receiptNumber))
+        .limit(1);
+      if (numeric) return numeric.receiptNumber;
+
+      const [last] = await this.db.select({ receiptNumber: donations.receiptNumber }).from(donations)
+        .orderBy(desc(donations.receiptNumber))
+        .limit(1);
+      return last?.receiptNumber;
+    } catch (error: unknown) {
+      console.error('Error in getLastReceiptNumber:', error);
+      throw error;
+    }
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    try {
+      await this.ensureConnected();
+      const [saved] = await this.db.insert(auditLog).values(entry).returning();
+      return saved;
+    } catch (error: unknown) {
+      console.error('Error in appendAuditLog:', error);
+      throw error;
+    }
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    try {
+      await this.ensureConnected();
+
+      const conditions: (SQL | undefined)[] = [
+        query.action ? eq(auditLog.action, query.action) : undefined,
+        query.actor ? sql`lower(${auditLog.actor}) = ${query.actor.toLowerCase()}` : undefined,
+        query.targetType ? eq(auditLog.targetType, query.targetType) : undefined,
+        query.targetId ? eq(auditLog.targetId, query.targetId) : undefined,
+        query.dateFrom ? gte(auditLog.createdAt, new Date(`${query.dateFrom}T00:00:00.000Z`)) : undefined,
+        query.dateTo ? lte(auditLog.createdAt, new Date(`${query.dateTo}T23:59:59.999Z`)) : undefined
+      ];
+      if (query.search) {
+        const pattern = likePattern(query.search);
+        conditions.push(or(ilike(auditLog.actor, pattern), ilike(auditLog.targetId, pattern), ilike(auditLog.ip, pattern)));
+      }
+      const where = and(...conditions);
+
+      const [items, [{ total }]] = await Promise.all([
+        this.db.select().from(auditLog)
+          .where(where)
+          .orderBy(desc(auditLog.id))
+          .offset((query.page - 1) * query.pageSize)
+          .limit(query.pageSize),
+        this.db.select({ total: sql<number>`count(*)::int` }).from(auditLog).where(where)
+      ]);
+
+      return { items, total, page: query.page, pageSize: query.pageSize };
+    } catch (error: unknown) {
+      console.error('Error in queryAuditLog:', error);
+      throw error;
+    }
+  }
+
+  // The error as a StorageUnavailableError when it means PostgreSQL could not be reached
+  unavailableError(error: unknown): StorageUnavailableError | undefined {
+    if (error instanceof StorageUnavailableError) return error;
+    if (!(error instanceof Error)) return undefined;
+
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === 'string' && UNREACHABLE_CODES.has(code)) {
+      return new StorageUnavailableError(error.message, false, error);
+    }
+    // pg reports a connection closed by the server without a code
+    if ((typeof code === 'string' && CONNECTION_LOST_CODES.has(code)) || error.message.startsWith('Connection terminated')) {
+      return new StorageUnavailableError(error.message, true, error);
+    }
+    return undefined;
+  }
+
+  // Check that the database is reachable. A failed migration is thrown rather
+  // than reported as an unreachable server.
+  async ping(): Promise<boolean> {
+    if (!this.connected && this.migrationError) {
+      const error = this.migrationError;
+      if (!this.connectionPromise) this.connect();
+      throw error;
+    }
+
+    try {
+      if (!this.connected) {
+        // Try again, so the app can switch back to PostgreSQL once it is reachable
+        if (!this.connectionPromise) this.connect();
+        return false;
+      }
+
+      await this.db.execute(sql`select 1`);
+      return true;
+    } catch (error) {
+      console.error('PostgreSQL ping failed:', error);
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    try {
+      await this.pool.end();
+      this.connected = false;
+      console.log('PostgreSQL connection closed');
+    } catch (error: unknown) {
+      console.error('Error closing PostgreSQL connection:', error);
+    }
+  }
+}
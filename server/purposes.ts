@@ -0,0 +1,32 @@
+import { storage } from './storage';
+import { isCancelled } from '@shared/donationQuery';
+import type { LegacyPurpose, PurposeTotal } from '@shared/purposes';
+
+// Free-text purposes on donations not yet linked to the catalog, largest total first.
+// Spellings differing only in case or surrounding spaces are grouped together.
+export async function getLegacyPurposes(): Promise<LegacyPurpose[]> {
+  const groups = new Map<string, LegacyPurpose>();
+  for (const donation of await storage.getDonations()) {
+    if (donation.purposeId) continue;
+    const purpose = donation.purpose.trim();
+    const key = purpose.toLowerCase();
+    const group = groups.get(key) ?? { purpose, donationCount: 0, totalAmount: 0 };
+    group.donationCount++;
+    group.totalAmount += donation.amount;
+    groups.set(key, group);
+  }
+  return Array.from(groups.values()).sort((a, b) => b.totalAmount - a.totalAmount);
+}
+
+// Amounts received per catalog purpose; cancelled receipts count towards nothing
+export async function getPurposeTotals(): Promise<PurposeTotal[]> {
+  const totals = new Map<string, PurposeTotal>();
+  for (const donation of await storage.getDonations()) {
+    if (!donation.purposeId || isCancelled(donation)) continue;
+    const total = totals.get(donation.purposeId) ?? { purposeId: donation.purposeId, donationCount: 0, totalAmount: 0 };
+    total.donationCount++;
+    total.totalAmount += donation.amount;
+    totals.set(donation.purposeId, total);
+  }
+  return Array.from(totals.values());
+}
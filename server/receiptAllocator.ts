@@ -0,0 +1,55 @@
+import { storage } from './storage';
+import {
+  receiptSeriesConfigSchema,
+  defaultReceiptSeriesConfig,
+  receiptSeriesKey,
+  formatReceiptNumber,
+  parseReceiptSequence,
+  type ReceiptSeriesConfig,
+  type ReceiptSeriesInput
+} from '@shared/receiptSeries';
+
+export const RECEIPT_SERIES_SETTING = 'receiptSeries';
+
+// Attempts before giving up when allocated numbers keep colliding with existing receipts
+const MAX_ALLOCATION_ATTEMPTS = 5;
+
+export async function getReceiptSeriesConfig(): Promise<ReceiptSeriesConfig> {
+  const setting = await storage.getSetting(RECEIPT_SERIES_SETTING);
+  const parsed = receiptSeriesConfigSchema.safeParse(setting?.value);
+  return parsed.success ? parsed.data : defaultReceiptSeriesConfig;
+}
+
+// Highest running number already used in a series, so a new counter continues
+// after receipts issued before it existed
+async function highestSequenceInSeries(config: ReceiptSeriesConfig, input: ReceiptSeriesInput): Promise<number> {
+  const key = receiptSeriesKey(config, input);
+  const [donations, purposes] = await Promise.all([storage.getDonations(), storage.getPurposes()]);
+  const purposeCodes = new Map(purposes.map(purpose => [purpose.id, purpose.code]));
+
+  return donations.reduce((highest, donation) => {
+    const series = { ...donation, purposeCode: donation.purposeId ? purposeCodes.get(donation.purposeId) : null };
+    if (receiptSeriesKey(config, series) !== key) return highest;
+    const sequence = parseReceiptSequence(config, series, donation.receiptNumber);
+    return sequence !== undefined && sequence > highest ? sequence : highest;
+  }, config.startNumber - 1);
+}
+
+// Allocate the next receipt number for a donation from its configured series
+export async function allocateReceiptNumber(input: ReceiptSeriesInput): Promise<string> {
+  const config = await getReceiptSeriesConfig();
+  const key = receiptSeriesKey(config, input);
+
+  for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+    const sequence = await storage.nextSequence(key, () => highestSequenceInSeries(config, input));
+    const receiptNumber = formatReceiptNumber(config, input, sequence);
+
+    // A receipt entered under an earlier configuration may already use this number
+    if (!(await storage.getDonationByReceiptNumber(receiptNumber))) {
+      return receiptNumber;
+    }
+    console.warn(`Receipt number ${receiptNumber} is already in use, allocating the next one`);
+  }
+
+  throw new Error(`Could not allocate a free receipt number in series ${key}`);
+}
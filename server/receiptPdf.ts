@@ -0,0 +1,154 @@
+import { jsPDF } from "jspdf";
+import type { Donation } from "@shared/schema";
+import type { OrganizationSettings } from "@shared/organization";
+
+function formatDate(date: string | null | undefined): string {
+  return date ? new Date(date).toLocaleDateString("en-IN") : "N/A";
+}
+
+// Render the receipt for a stored donation, so the PDF always matches the database record.
+// `replacement` is the receipt issued in place of a cancelled one, printed on the cancelled copy.
+// Donations for purposes outside Section 80G get a plain receipt without the deduction statement.
+export function generateReceiptPdf(
+  data: Donation,
+  organization: OrganizationSettings,
+  replacement?: Pick<Donation, "receiptNumber">,
+  eligible80G = true
+): Buffer {
+  // Create a new PDF document
+  const doc = new jsPDF();
+  
+  // Organisation header
+  doc.setFontSize(18);
+  doc.setTextColor(63, 81, 181); // Primary color
+  doc.text(organization.name, 105, 18, { align: "center" });
+  
+  doc.setFontSize(9);
+  doc.setTextColor(80);
+  doc.text(organization.address, 105, 25, { align: "center" });
+  const contact = [
+    organization.phone && `Mob. ${organization.phone}`,
+    organization.email && `E-mail: ${organization.email}`,
+  ].filter(Boolean).join(" | ");
+  if (contact) {
+    doc.text(contact, 105, 30, { align: "center" });
+  }
+  const registration = [
+    organization.registrationNumber && `Reg. No.: ${organization.registrationNumber}`,
+    organization.pan && `PAN: ${organization.pan}`,
+  ].filter(Boolean).join(" | ");
+  if (registration) {
+    doc.text(registration, 105, 35, { align: "center" });
+  }
+  if (organization.registration80G) {
+    const validity = organization.registration80GValidFrom || organization.registration80GValidUntil
+      ? ` (valid ${formatDate(organization.registration80GValidFrom)} to ${formatDate(organization.registration80GValidUntil)})`
+      : "";
+    doc.text(`80G URN: ${organization.registration80G}${validity}`, 105, 40, { align: "center" });
+  }
+  
+  doc.setFontSize(12);
+  doc.setTextColor(0);
+  doc.text(eligible80G ? "Donation Receipt under Section 80G of the Income Tax Act, 1961" : "Donation Receipt", 105, 50, { align: "center" });
+  
+  // Edited donations carry a revised receipt that replaces any copy issued before
+  if (data.revisedAt) {
+    doc.setFontSize(9);
+    doc.setTextColor(200, 0, 0);
+    doc.text(`REVISED RECEIPT (revised on ${formatDate(new Date(data.revisedAt).toISOString())}) - supersedes any earlier copy`, 105, 55, { align: "center" });
+    doc.setTextColor(0);
+  }
+  
+  // Add receipt details
+  doc.setFontSize(10);
+  
+  // Two columns on top: Receipt Number and Date
+  doc.text(`Receipt No: ${data.receiptNumber}`, 20, 60);
+  doc.text(`Date: ${formatDate(data.date)}`, 150, 60);
+  
+  // Add a line separator
+  doc.setDrawColor(200);
+  doc.line(20, 65, 190, 65);
+  
+  // Donor information
+  doc.setFontSize(12);
+  doc.text("Donor Information", 20, 74);
+  
+  doc.setFontSize(10);
+  doc.text(`Name: ${data.donorName}`, 20, 82);
+  doc.text(`PAN: ${data.panNumber || "Not provided"}`, 120, 82);
+  doc.text(`Contact: ${data.contactNumber}`, 20, 89);
+  doc.text(`Email: ${data.email}`, 120, 89);
+  const addressLines = doc.splitTextToSize(`Address: ${data.address}`, 170);
+  doc.text(addressLines, 20, 96);
+  
+  let y = 96 + addressLines.length * 5 + 2;
+  doc.line(20, y, 190, y);
+  
+  // Donation details
+  doc.setFontSize(12);
+  doc.text("Donation Details", 20, y + 9);
+  
+  doc.setFontSize(10);
+  doc.text(`Purpose: ${data.purpose}`, 20, y + 17);
+  doc.text(`Amount: Rs. ${data.amount}`, 20, y + 24);
+  doc.text(`Amount in Words: ${data.amountInWords}`, 20, y + 31);
+  doc.text(`Payment Mode: ${data.paymentMode.toUpperCase()}`, 20, y + 38);
+  y += 38;
+  
+  // If payment mode is cheque or DD, add instrument details
+  if (data.paymentMode === 'cheque' || data.paymentMode === 'dd') {
+    doc.text(`${data.paymentMode === 'cheque' ? 'Cheque' : 'DD'} No: ${data.instrumentNumber || 'N/A'}`, 20, y + 7);
+    doc.text(`Date: ${formatDate(data.instrumentDate)}`, 90, y + 7);
+    doc.text(`Drawn On: ${data.drawnOn || 'N/A'}`, 140, y + 7);
+    y += 7;
+  }
+  
+  y += 6;
+  doc.line(20, y, 190, y);
+  
+  // Statement of eligibility for deduction
+  if (eligible80G && organization.eligibilityStatement) {
+    doc.setFontSize(9);
+    const statement = doc.splitTextToSize(organization.eligibilityStatement, 170);
+    doc.text(statement, 20, y + 8);
+    y += 8 + statement.length * 4.5;
+  }
+  
+  // Authorised signatory block
+  y += 10;
+  if (organization.signatureImage) {
+    const format = organization.signatureImage.startsWith("data:image/png") ? "PNG" : "JPEG";
+    doc.addImage(organization.signatureImage, format, 140, y, 45, 18);
+  }
+  y += 22;
+  doc.setFontSize(10);
+  doc.text("Authorised Signatory", 162, y, { align: "center" });
+  if (organization.signatoryName) {
+    doc.text(organization.signatoryName, 162, y + 5, { align: "center" });
+  }
+  if (organization.signatoryDesignation) {
+    doc.text(organization.signatoryDesignation, 162, y + 10, { align: "center" });
+  }
+  
+  doc.setFontSize(8);
+  doc.text("Thank you for your generous contribution!", 105, 285, { align: "center" });
+  
+  // Cancelled receipts are stamped across the page and state why they are void
+  if (data.cancelledAt) {
+    doc.setTextColor(200, 0, 0);
+    doc.setFontSize(72);
+    doc.text("CANCELLED", 45, 190, { angle: 35 });
+    
+    doc.setFontSize(9);
+    const notice = [
+      `This receipt was cancelled on ${formatDate(new Date(data.cancelledAt).toISOString())} and is not valid for any deduction.`,
+      `Reason: ${data.cancellationReason || "Not given"}`,
+      replacement && `Replaced by receipt no. ${replacement.receiptNumber}`,
+    ].filter((line): line is string => Boolean(line));
+    doc.text(doc.splitTextToSize(notice.join("\n"), 170), 20, 265);
+    doc.setTextColor(0);
+  }
+  
+  return Buffer.from(doc.output("arraybuffer"));
+}
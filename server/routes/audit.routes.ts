@@ -0,0 +1,55 @@
+import { Router, Request, Response } from 'express';
+import { ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { storage } from '../storage';
+import { auditLogQuerySchema } from '@shared/auditLog';
+import type { AuditLogEntry } from '@shared/schema';
+import { toAuditLogCsv } from '../auditLog';
+
+const router = Router();
+
+// Entries are read in pages of this size when exporting
+const EXPORT_PAGE_SIZE = 100;
+
+// Get a page of audit log entries, newest first
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const query = auditLogQuerySchema.parse(req.query);
+    const result = await storage.queryAuditLog(query);
+    return res.status(200).json(result);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error fetching audit log:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Download every entry matching the filters as CSV
+router.get('/export.csv', async (req: Request, res: Response) => {
+  try {
+    const query = auditLogQuerySchema.parse(req.query);
+    
+    const entries: AuditLogEntry[] = [];
+    for (let page = 1; ; page++) {
+      const result = await storage.queryAuditLog({ ...query, page, pageSize: EXPORT_PAGE_SIZE });
+      entries.push(...result.items);
+      if (result.items.length < EXPORT_PAGE_SIZE || entries.length >= result.total) break;
+    }
+    
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().split('T')[0]}.csv"`);
+    return res.status(200).send(toAuditLogCsv(entries));
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error exporting audit log:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
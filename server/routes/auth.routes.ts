@@ -1,17 +1,54 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { loginSchema } from '@shared/schema';
+import { loginSchema, changePasswordSchema, resetPasswordSchema, type User } from '@shared/schema';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
+import { hasPermission } from '@shared/permissions';
+import { hashPassword, verifyPassword, needsRehash, hashResetToken } from '../password';
+import { checkLoginAllowed, recordLoginFailure, recordLoginSuccess } from '../loginThrottle';
+import { establishSession, destroySession, revokeUserSessions, requireAuth, toSessionUser, SESSION_COOKIE_NAME } from '../middleware/auth';
+import { recordAudit } from '../auditLog';
 
 const router = Router();
 
+// Respond with 429 when the username or client IP is in backoff or locked out
+async function rejectIfThrottled(req: Request, res: Response, username: string): Promise<boolean> {
+  const throttle = await checkLoginAllowed(username, req.ip || 'unknown');
+  if (throttle.allowed) return false;
+  
+  console.log(`Login throttled for ${username} from ${req.ip}, retry in ${throttle.retryAfterSeconds}s`);
+  res.setHeader('Retry-After', throttle.retryAfterSeconds.toString());
+  res.status(429).json({
+    message: throttle.locked
+      ? `Too many failed attempts. Account is temporarily locked, try again in ${Math.ceil(throttle.retryAfterSeconds / 60)} minute(s).`
+      : `Too many failed attempts. Please wait ${throttle.retryAfterSeconds} second(s) before trying again.`,
+    retryAfterSeconds: throttle.retryAfterSeconds
+  });
+  return true;
+}
+
+// Re-hash plaintext or outdated password records after a successful login
+async function upgradePasswordIfNeeded(user: User, password: string): Promise<void> {
+  if (!needsRehash(user.password)) return;
+  try {
+    await storage.updateUserPassword(user.id, await hashPassword(password));
+    console.log('Upgraded stored password hash for user:', user.username);
+  } catch (error: unknown) {
+    // The login itself succeeded, so only log the failure
+    console.error('Failed to upgrade password hash:', error);
+  }
+}
+
 // Regular user login route
 router.post('/login', async (req: Request, res: Response) => {
   try {
-    console.log('Login request received:', req.body);
+    console.log('Login request received for:', req.body?.username);
     const credentials = loginSchema.parse(req.body);
     
+    if (await rejectIfThrottled(req, res, credentials.username)) {
+      return;
+    }
+    
     // Add a timeout to prevent hanging on MongoDB operations
     const user = await Promise.race([
       storage.getUserByUsername(credentials.username),
@@ -25,29 +62,24 @@ router.post('/login', async (req: Request, res: Response) => {
     
     console.log('User found:', user ? 'Yes' : 'No');
     
-    // Special case for admin user if MongoDB is having issues
-    if (!user && credentials.username === 'admin@example.com' && credentials.password === 'admin123') {
-      console.log('Fallback to hardcoded admin credentials due to MongoDB issues');
-      return res.status(200).json({
-        id: 'admin',
-        username: 'admin@example.com',
-        fullName: 'Admin User',
-        role: 'admin'
-      });
-    }
-    
-    if (!user || user.password !== credentials.password) {
+    if (!user || !(await verifyPassword(user.password, credentials.password))) {
       console.log('Authentication failed:', !user ? 'User not found' : 'Password mismatch');
+      await recordLoginFailure(credentials.username, req.ip || 'unknown');
       return res.status(401).json({ message: "Invalid credentials" });
     }
     
+    if (!user.isActive) {
+      console.log('Authentication failed: account is deactivated');
+      return res.status(403).json({ message: "Account is deactivated" });
+    }
+    
+    await recordLoginSuccess(credentials.username);
+    await upgradePasswordIfNeeded(user, credentials.password);
+    await establishSession(req, user);
+    await recordAudit(req, { action: 'auth.login', targetType: 'user', targetId: user.id, actor: user.username });
+    
     console.log('Authentication successful for user:', user.username);
-    return res.status(200).json({ 
-      id: user.id,
-      username: user.username,
-      fullName: user.fullName,
-      role: user.role
-    });
+    return res.status(200).json(toSessionUser(user));
   } catch (error: unknown) {
     if (error instanceof ZodError) {
       const validationError = fromZodError(error);
@@ -62,9 +94,13 @@ router.post('/login', async (req: Request, res: Response) => {
 // Admin login route
 router.post('/admin/login', async (req: Request, res: Response) => {
   try {
-    console.log('Admin login request received:', req.body);
+    console.log('Admin login request received for:', req.body?.username);
     const credentials = loginSchema.parse(req.body);
     
+    if (await rejectIfThrottled(req, res, credentials.username)) {
+      return;
+    }
+    
     // Add a timeout to prevent hanging on MongoDB operations
     const user = await Promise.race([
       storage.getUserByUsername(credentials.username),
@@ -78,36 +114,31 @@ router.post('/admin/login', async (req: Request, res: Response) => {
     
     console.log('User found for admin login:', user ? 'Yes' : 'No');
     
-    // Special case for admin user if MongoDB is having issues
-    if (!user && credentials.username === 'Superadmin@gmail.com' && credentials.password === 'Superadmin@123') {
-      console.log('Fallback to hardcoded admin credentials due to MongoDB issues');
-      return res.status(200).json({
-        id: 'admin',
-        username: 'Superadmin@gmail.com',
-        fullName: 'Admin User',
-        role: 'admin'
-      });
-    }
-    
     // Check if user exists, password is correct, and user has admin role
-    if (!user || user.password !== credentials.password) {
+    if (!user || !(await verifyPassword(user.password, credentials.password))) {
       console.log('Admin authentication failed:', !user ? 'User not found' : 'Password mismatch');
+      await recordLoginFailure(credentials.username, req.ip || 'unknown');
       return res.status(401).json({ message: "Invalid admin credentials" });
     }
     
-    // Check if user has admin role
-    if (user.role !== 'admin') {
+    // Check if user's role grants access to the admin panel
+    if (!hasPermission(user.role, 'users:manage')) {
       console.log('User does not have admin role:', user.username);
       return res.status(403).json({ message: "User does not have admin privileges" });
     }
     
+    if (!user.isActive) {
+      console.log('Admin authentication failed: account is deactivated');
+      return res.status(403).json({ message: "Account is deactivated" });
+    }
+    
+    await recordLoginSuccess(credentials.username);
+    await upgradePasswordIfNeeded(user, credentials.password);
+    await establishSession(req, user);
+    await recordAudit(req, { action: 'auth.login', targetType: 'user', targetId: user.id, actor: user.username, after: { adminPanel: true } });
+    
     console.log('Admin authentication successful for user:', user.username);
-    return res.status(200).json({ 
-      id: user.id,
-      username: user.username,
-      fullName: user.fullName,
-      role: user.role
-    });
+    return res.status(200).json(toSessionUser(user));
   } catch (error: unknown) {
     if (error instanceof ZodError) {
       const validationError = fromZodError(error);
@@ -119,4 +150,87 @@ router.post('/admin/login', async (req: Request, res: Response) => {
   }
 });
 
+// Logout route - revokes the current session
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const userId = req.session?.userId;
+    const user = userId ? await storage.getUser(userId) : undefined;
+    
+    await destroySession(req);
+    res.clearCookie(SESSION_COOKIE_NAME);
+    if (user) {
+      await recordAudit(req, { action: 'auth.logout', targetType: 'user', targetId: user.id, actor: user.username });
+    }
+    return res.status(200).json({ message: "Logged out successfully" });
+  } catch (error: unknown) {
+    console.error('Server error during logout:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Current session user
+router.get('/me', requireAuth, (req: Request, res: Response) => {
+  return res.status(200).json(req.user);
+});
+
+// Change the logged-in user's own password
+router.post('/change-password', requireAuth, async (req: Request, res: Response) => {
+  try {
+    const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+    
+    const user = await storage.getUser(req.user!.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    if (!(await verifyPassword(user.password, currentPassword))) {
+      return res.status(400).json({ message: "Current password is incorrect" });
+    }
+    
+    await storage.updateUserPassword(user.id, await hashPassword(newPassword));
+    // Other devices signed in with the old password are signed out; this one stays signed in
+    await revokeUserSessions(user.id, req.sessionID);
+    await recordAudit(req, { action: 'auth.change_password', targetType: 'user', targetId: user.id });
+    console.log('Password changed for user:', user.username);
+    return res.status(200).json({ message: "Password changed successfully" });
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Server error during password change:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Complete an admin-initiated reset using the one-time token from the email
+router.post('/reset-password', async (req: Request, res: Response) => {
+  try {
+    const { token, newPassword } = resetPasswordSchema.parse(req.body);
+    
+    const resetToken = await storage.consumePasswordResetToken(hashResetToken(token));
+    if (!resetToken) {
+      return res.status(400).json({ message: "Reset link is invalid or has expired" });
+    }
+    
+    const user = await storage.updateUserPassword(resetToken.userId, await hashPassword(newPassword));
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    // A reset is often how a compromised account is recovered, so every existing session ends
+    await revokeUserSessions(user.id);
+    await recordAudit(req, { action: 'auth.reset_password', targetType: 'user', targetId: user.id, actor: user.username });
+    console.log('Password reset completed for user:', user.username);
+    return res.status(200).json({ message: "Password has been reset" });
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Server error during password reset:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 export default router;
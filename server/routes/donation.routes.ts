@@ -1,25 +1,64 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
-import { insertDonationSchema } from '@shared/schema';
+import { insertDonationSchema, updateDonationSchema, cancelDonationSchema, type Donation } from '@shared/schema';
+import { donationQuerySchema, isCancelled } from '@shared/donationQuery';
+import { isRecordId } from '@shared/ids';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import { sendEmailWithAttachment } from '../emailService';
-import fs from 'fs/promises';
+import { requirePermission } from '../middleware/auth';
+import { hasPermission } from '@shared/permissions';
+import { allocateReceiptNumber } from '../receiptAllocator';
+import { getOrganizationSettings } from '../organizationSettings';
+import { donorPanError } from '@shared/organization';
+import { donationPurposeError, isEligible80G } from '@shared/purposes';
+import { generateReceiptPdf } from '../receiptPdf';
+import { resolveDonor } from '../donors';
+import { normalizePan } from '@shared/donors';
+import { financialYear } from '@shared/receiptSeries';
+import { previewRevision, reviseDonation } from '../donationRevisions';
+import { recordAudit } from '../auditLog';
 
 const router = Router();
 
 // Create new donation
-router.post('/', async (req: Request, res: Response) => {
+router.post('/', requirePermission('donations:create'), async (req: Request, res: Response) => {
   try {
-    const newDonation = insertDonationSchema.parse(req.body);
+    const newDonation = insertDonationSchema.parse({
+      ...req.body,
+      // The creator is always the session user, never a client-supplied value
+      createdBy: req.user!.username
+    });
     
-    // Get the receipt number from the request
-    const receiptNumber = newDonation.receiptNumber;
-    console.log('Creating donation with receipt number:', receiptNumber);
+    // 80G receipts above the configured threshold must carry the donor's PAN
+    const panError = donorPanError(await getOrganizationSettings(), newDonation.amount, newDonation.panNumber);
+    if (panError) {
+      return res.status(400).json({ message: panError });
+    }
+    
+    // Donations are entered against a purpose from the catalog whenever one is open on the date
+    const purposes = await storage.getPurposes();
+    const purposeError = donationPurposeError(purposes, newDonation.date, newDonation.purposeId);
+    if (purposeError) {
+      return res.status(400).json({ message: purposeError });
+    }
+    const purpose = purposes.find(existing => existing.id === newDonation.purposeId);
+    const purposeFields = { purpose: purpose?.name ?? newDonation.purpose, purposeId: purpose?.id ?? null };
+    
+    // Link the donation to an existing donor with the same PAN, email or phone
+    const donor = await resolveDonor(newDonation);
     
-    // Create the donation
-    const donation = await storage.createDonation(newDonation);
-    console.log('Donation created successfully with ID:', donation.id);
+    // Receipt numbers come from the configured series, never from the client
+    const receiptNumber = await allocateReceiptNumber({ ...newDonation, ...purposeFields, purposeCode: purpose?.code });
+    const donation = await storage.createDonation({
+      ...newDonation,
+      panNumber: normalizePan(newDonation.panNumber),
+      ...purposeFields,
+      receiptNumber,
+      donorId: donor.id
+    });
+    console.log('Donation created successfully with ID:', donation.id, 'receipt number:', donation.receiptNumber);
+    await recordAudit(req, { action: 'donation.create', targetType: 'donation', targetId: donation.id, after: donation });
     
     return res.status(201).json(donation);
   } catch (error: unknown) {
@@ -32,48 +71,209 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
-// Get all donations
-router.get('/', async (req: Request, res: Response) => {
+// Get a page of donations - any of them for admins, only the caller's own receipts for staff
+router.get('/', requirePermission('donations:read:all', 'donations:read:own'), async (req: Request, res: Response) => {
   try {
-    const donations = await storage.getDonations();
-    return res.status(200).json(donations);
+    const query = donationQuerySchema.parse(req.query);
+    if (!hasPermission(req.user!.role, 'donations:read:all')) {
+      query.createdBy = req.user!.username;
+    }
+    
+    const result = await storage.queryDonations(query);
+    return res.status(200).json(result);
   } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error fetching donations:', error);
     return res.status(500).json({ message: "Internal server error" });
   }
 });
 
-// Get next receipt number
-router.get('/next-receipt-number', async (req: Request, res: Response) => {
+// Load a donation the caller may see: admins see every receipt, staff only their own.
+// Sends the error response and returns undefined otherwise.
+async function findAccessibleDonation(req: Request, res: Response): Promise<Donation | undefined> {
+  const id = req.params.id;
+  if (!isRecordId(id)) {
+    res.status(400).json({ message: "Invalid donation ID" });
+    return undefined;
+  }
+  
+  const donation = await storage.getDonation(id);
+  if (!donation ||
+      (!hasPermission(req.user!.role, 'donations:read:all') && donation.createdBy !== req.user!.username)) {
+    res.status(404).json({ message: "Donation not found" });
+    return undefined;
+  }
+  return donation;
+}
+
+// The receipt issued in place of a cancelled donation, if one was recorded
+async function findReplacement(donation: Donation): Promise<Donation | undefined> {
+  return donation.replacementDonationId ? storage.getDonation(donation.replacementDonationId) : undefined;
+}
+
+function receiptFilename(donation: Donation): string {
+  const suffix = isCancelled(donation) ? '-cancelled' : donation.revisedAt ? '-revised' : '';
+  return `receipt-${donation.receiptNumber.replace(/[^A-Za-z0-9-]/g, '_')}${suffix}.pdf`;
+}
+
+// Get one donation
+router.get('/:id', requirePermission('donations:read:all', 'donations:read:own'), async (req: Request, res: Response) => {
   try {
-    const lastReceiptNumber = await storage.getLastReceiptNumber();
-    console.log('Last receipt number from MongoDB:', lastReceiptNumber);
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
     
-    // Increment the receipt number
-    const nextReceiptNumber = lastReceiptNumber ? (parseInt(lastReceiptNumber) + 1).toString() : '1001';
-    console.log('Next receipt number:', nextReceiptNumber);
+    return res.status(200).json(donation);
+  } catch (error: unknown) {
+    console.error('Error fetching donation:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Correct a submitted donation; every change is kept in the donation's revision history
+router.patch('/:id', requirePermission('donations:edit'), async (req: Request, res: Response) => {
+  try {
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
+    
+    if (isCancelled(donation)) {
+      return res.status(400).json({ message: "Cancelled donations cannot be edited" });
+    }
     
-    return res.status(200).json({ receiptNumber: nextReceiptNumber });
+    const input = updateDonationSchema.parse(req.body);
+    // A corrected catalog purpose may have closed since, so only check that it exists
+    if (input.purposeId) {
+      const purpose = (await storage.getPurposes()).find(existing => existing.id === input.purposeId);
+      if (!purpose) {
+        return res.status(400).json({ message: "Unknown purpose" });
+      }
+      input.purpose = purpose.name;
+    }
+    const preview = previewRevision(donation, input);
+    // The receipt number and the Form 10BD/10BE filings belong to the year of the original date
+    if (financialYear(preview.date) !== financialYear(donation.date)) {
+      return res.status(400).json({
+        message: `The date must stay in financial year ${financialYear(donation.date)}. Cancel this receipt and issue a new one for another year.`
+      });
+    }
+    const panError = donorPanError(await getOrganizationSettings(), preview.amount, preview.panNumber);
+    if (panError) {
+      return res.status(400).json({ message: panError });
+    }
+    
+    const result = await reviseDonation(donation, input, req.user!.username);
+    if (!result.changed) {
+      return res.status(400).json({ message: "No changes to save" });
+    }
+    console.log('Donation', donation.receiptNumber, 'revised by', req.user!.username);
+    await recordAudit(req, { action: 'donation.update', targetType: 'donation', targetId: donation.id, before: donation, after: result.donation });
+    
+    return res.status(200).json(result.donation);
   } catch (error: unknown) {
-    console.error('Error getting next receipt number:', error);
-    // Fallback to a default receipt number if there's an error
-    return res.status(200).json({ receiptNumber: '1001' });
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error updating donation:', error);
+    return res.status(500).json({ message: "Internal server error" });
   }
 });
 
-// Send email with receipt
-router.post('/send-email', async (req: Request, res: Response) => {
+// Void a receipt with a reason, optionally pointing to the receipt issued in its place
+router.post('/:id/cancel', requirePermission('donations:cancel'), async (req: Request, res: Response) => {
   try {
-    const { to, subject, text, attachmentPath } = req.body;
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
+    
+    if (isCancelled(donation)) {
+      return res.status(400).json({ message: "Donation is already cancelled" });
+    }
     
-    if (!to || !subject || !attachmentPath) {
-      return res.status(400).json({ message: "Missing required fields" });
+    const { reason, replacementReceiptNumber } = cancelDonationSchema.parse(req.body);
+    let replacement: Donation | undefined;
+    if (replacementReceiptNumber) {
+      replacement = await storage.getDonationByReceiptNumber(replacementReceiptNumber);
+      if (!replacement) {
+        return res.status(400).json({ message: `Receipt ${replacementReceiptNumber} not found` });
+      }
+      if (replacement.id === donation.id || isCancelled(replacement)) {
+        return res.status(400).json({ message: "The replacement must be a different, valid receipt" });
+      }
     }
     
-    // Read the PDF file into a buffer
-    const pdfBuffer = await fs.readFile(attachmentPath);
+    const cancelled = await storage.cancelDonation(donation.id, {
+      cancelledAt: new Date(),
+      cancelledBy: req.user!.username,
+      cancellationReason: reason,
+      replacementDonationId: replacement?.id ?? null
+    });
+    console.log('Donation', donation.receiptNumber, 'cancelled by', req.user!.username);
+    await recordAudit(req, { action: 'donation.cancel', targetType: 'donation', targetId: donation.id, before: donation, after: cancelled });
+    
+    return res.status(200).json(cancelled);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error cancelling donation:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Edit history of a donation, oldest first
+router.get('/:id/revisions', requirePermission('donations:read:all', 'donations:read:own'), async (req: Request, res: Response) => {
+  try {
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
+    
+    const revisions = await storage.getDonationRevisions(donation.id);
+    return res.status(200).json(revisions);
+  } catch (error: unknown) {
+    console.error('Error fetching donation revisions:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Download the receipt PDF, rendered from the stored donation
+router.get('/:id/receipt.pdf', requirePermission('donations:read:all', 'donations:read:own'), async (req: Request, res: Response) => {
+  try {
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
+    
+    const pdf = generateReceiptPdf(donation, await getOrganizationSettings(), await findReplacement(donation), isEligible80G(donation.purposeId, await storage.getPurposes()));
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${receiptFilename(donation)}"`);
+    return res.status(200).send(pdf);
+  } catch (error: unknown) {
+    console.error('Error generating receipt PDF:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Email the receipt PDF to the donor
+router.post('/:id/send-email', requirePermission('donations:read:all', 'donations:read:own'), async (req: Request, res: Response) => {
+  try {
+    const donation = await findAccessibleDonation(req, res);
+    if (!donation) return;
     
-    // Send email with the PDF attachment
-    await sendEmailWithAttachment(to, subject, text || '', pdfBuffer);
+    const organization = await getOrganizationSettings();
+    const pdf = generateReceiptPdf(donation, organization, await findReplacement(donation), isEligible80G(donation.purposeId, await storage.getPurposes()));
+    await sendEmailWithAttachment(
+      donation.email,
+      isCancelled(donation)
+        ? `Donation Receipt ${donation.receiptNumber} Cancelled`
+        : `Your Donation Receipt ${donation.receiptNumber}`,
+      isCancelled(donation)
+        ? `Your receipt from ${organization.name} has been cancelled. The cancelled copy is attached for your records.`
+        : `Thank you for your donation to ${organization.name}. Please find your receipt attached.`,
+      pdf,
+      receiptFilename(donation)
+    );
+    console.log('Receipt', donation.receiptNumber, 'emailed to', donation.email);
+    await recordAudit(req, { action: 'donation.email', targetType: 'donation', targetId: donation.id, after: { email: donation.email } });
     
     return res.status(200).json({ message: "Email sent successfully" });
   } catch (error: unknown) {
@@ -0,0 +1,160 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { mergeDonorsSchema } from '@shared/schema';
+import { isCancelled } from '@shared/donationQuery';
+import { isRecordId, type RecordId } from '@shared/ids';
+import { z, ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { requirePermission } from '../middleware/auth';
+import {
+  findDuplicateDonors,
+  linkUnassignedDonations,
+  mergeDonors,
+  summarizeDonations
+} from '../donors';
+import { recordAudit } from '../auditLog';
+
+const router = Router();
+
+// Get all donors with the number and total of their donations
+router.get('/', requirePermission('donations:read:all'), async (req: Request, res: Response) => {
+  try {
+    const [donors, donations] = await Promise.all([storage.getDonors(), storage.getDonations()]);
+    
+    const stats = new Map<RecordId, { donationCount: number; totalAmount: number }>();
+    for (const donation of donations) {
+      if (!donation.donorId || isCancelled(donation)) continue;
+      const current = stats.get(donation.donorId) ?? { donationCount: 0, totalAmount: 0 };
+      stats.set(donation.donorId, {
+        donationCount: current.donationCount + 1,
+        totalAmount: current.totalAmount + donation.amount
+      });
+    }
+    
+    return res.status(200).json(donors.map(donor => ({
+      ...donor,
+      ...(stats.get(donor.id) ?? { donationCount: 0, totalAmount: 0 })
+    })));
+  } catch (error: unknown) {
+    console.error('Error fetching donors:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+const donorSearchSchema = z.object({
+  q: z.string().trim().min(2, "Search needs at least 2 characters"),
+});
+
+// Results shown while typing in the donation form
+const DONOR_SEARCH_LIMIT = 10;
+
+// Search donors by name, phone, email or PAN for autofill in the donation form
+router.get('/search', requirePermission('donations:create'), async (req: Request, res: Response) => {
+  try {
+    const { q } = donorSearchSchema.parse(req.query);
+    const donors = await storage.searchDonors(q, DONOR_SEARCH_LIMIT);
+    
+    const results = await Promise.all(donors.map(async donor => {
+      const donations = (await storage.getDonationsByDonor(donor.id)).filter(donation => !isCancelled(donation));
+      const last = donations.sort((a, b) => b.date.localeCompare(a.date))[0];
+      
+      // Details from the most recent receipt are the most likely to be current
+      return {
+        id: donor.id,
+        name: donor.name,
+        contactNumber: last?.contactNumber || donor.contactNumber,
+        address: last?.address || donor.address,
+        email: last?.email || donor.email,
+        panNumber: last?.panNumber || donor.panNumber,
+        donationCount: donations.length,
+        lastDonationDate: last?.date ?? null
+      };
+    }));
+    
+    return res.status(200).json(results);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error searching donors:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Groups of donor records that probably belong to the same person
+router.get('/duplicates', requirePermission('donors:manage'), async (req: Request, res: Response) => {
+  try {
+    const donors = await storage.getDonors();
+    return res.status(200).json(findDuplicateDonors(donors));
+  } catch (error: unknown) {
+    console.error('Error finding duplicate donors:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Merge duplicate donors into one record, moving all their donations to it
+router.post('/merge', requirePermission('donors:manage'), async (req: Request, res: Response) => {
+  try {
+    const { targetId, sourceIds } = mergeDonorsSchema.parse(req.body);
+    
+    const sources = await Promise.all(sourceIds.map(id => storage.getDonor(id)));
+    const donor = await mergeDonors(targetId, sourceIds);
+    if (!donor) {
+      return res.status(404).json({ message: "Donor not found" });
+    }
+    await recordAudit(req, { action: 'donor.merge', targetType: 'donor', targetId, before: sources.filter(Boolean), after: donor });
+    
+    console.log('Donors', sourceIds, 'merged into', targetId, 'by', req.user!.username);
+    return res.status(200).json(donor);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error merging donors:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Create donor records for donations saved before donors were tracked
+router.post('/link-donations', requirePermission('donors:manage'), async (req: Request, res: Response) => {
+  try {
+    const linked = await linkUnassignedDonations();
+    console.log('Linked', linked, 'donations to donor records');
+    await recordAudit(req, { action: 'donor.link_donations', targetType: 'donor', after: { linked } });
+    return res.status(200).json({ linked });
+  } catch (error: unknown) {
+    console.error('Error linking donations to donors:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Get one donor with every receipt and a summary of their giving
+router.get('/:id', requirePermission('donations:read:all'), async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id;
+    if (!isRecordId(id)) {
+      return res.status(400).json({ message: "Invalid donor ID" });
+    }
+    
+    const donor = await storage.getDonor(id);
+    if (!donor) {
+      return res.status(404).json({ message: "Donor not found" });
+    }
+    
+    const donations = (await storage.getDonationsByDonor(id))
+      .sort((a, b) => b.date.localeCompare(a.date) || b.receiptNumber.localeCompare(a.receiptNumber));
+    
+    return res.status(200).json({
+      donor,
+      donations,
+      summary: summarizeDonations(donations.filter(donation => !isCancelled(donation)))
+    });
+  } catch (error: unknown) {
+    console.error('Error fetching donor:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
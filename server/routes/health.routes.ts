@@ -0,0 +1,16 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+
+const router = Router();
+
+// Which store is serving requests, how the database last answered and when it last failed.
+// Open to monitoring tools; the failure message is only shown to signed-in users.
+router.get('/', (req: Request, res: Response) => {
+  const health = storage.getHealth();
+  if (health.lastFailure && !req.session?.userId) {
+    health.lastFailure = { at: health.lastFailure.at };
+  }
+  return res.status(200).json(health);
+});
+
+export default router;
@@ -2,12 +2,27 @@ import { Router } from 'express';
 import authRoutes from './auth.routes';
 import userRoutes from './user.routes';
 import donationRoutes from './donation.routes';
+import setupRoutes from './setup.routes';
+import settingsRoutes from './settings.routes';
+import taxRoutes from './tax.routes';
+import donorRoutes from './donor.routes';
+import auditRoutes from './audit.routes';
+import healthRoutes from './health.routes';
+import purposeRoutes from './purpose.routes';
+import { requireAuth, requirePermission } from '../middleware/auth';
 
 const apiRouter = Router();
 
 // Register all routes
 apiRouter.use('/', authRoutes); // This will handle /api/login and /api/admin/login directly
-apiRouter.use('/users', userRoutes);
-apiRouter.use('/donations', donationRoutes);
+apiRouter.use('/setup', setupRoutes); // First-run creation of the initial admin
+apiRouter.use('/health', healthRoutes); // Storage status for monitoring and the admin panel
+apiRouter.use('/users', requireAuth, requirePermission('users:manage'), userRoutes);
+apiRouter.use('/donations', requireAuth, donationRoutes);
+apiRouter.use('/donors', requireAuth, donorRoutes);
+apiRouter.use('/settings', requireAuth, settingsRoutes);
+apiRouter.use('/purposes', requireAuth, purposeRoutes); // Catalog of causes and campaigns donations are given for
+apiRouter.use('/tax', requireAuth, requirePermission('reports:tax'), taxRoutes);
+apiRouter.use('/audit-log', requireAuth, requirePermission('audit:read'), auditRoutes);
 
-export default apiRouter;
\ No newline at end of file
+export default apiRouter;
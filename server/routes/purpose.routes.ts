@@ -0,0 +1,127 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { purposeInputSchema, mapLegacyPurposeSchema } from '@shared/purposes';
+import { ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { getLegacyPurposes, getPurposeTotals } from '../purposes';
+import { requirePermission } from '../middleware/auth';
+import { requirePrimaryStorage } from '../middleware/storage';
+import { recordAudit } from '../auditLog';
+
+const router = Router();
+
+// Get the purposes catalog; every signed-in user needs it to enter donations
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const purposes = await storage.getPurposes();
+    return res.status(200).json(purposes);
+  } catch (error: unknown) {
+    console.error('Error fetching purposes:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Add a purpose or campaign to the catalog
+router.post('/', requirePermission('settings:manage'), requirePrimaryStorage, async (req: Request, res: Response) => {
+  try {
+    const input = purposeInputSchema.parse(req.body);
+    if ((await storage.getPurposes()).some(purpose => purpose.code === input.code)) {
+      return res.status(400).json({ message: `Code ${input.code} is already in use` });
+    }
+
+    const purpose = await storage.createPurpose(input);
+    await recordAudit(req, { action: 'purpose.create', targetType: 'purpose', targetId: purpose.id, after: purpose });
+    console.log('Purpose', purpose.code, 'added by', req.user!.username);
+
+    return res.status(201).json(purpose);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error creating purpose:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Amounts received for each purpose, for progress towards their targets
+router.get('/totals', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const totals = await getPurposeTotals();
+    return res.status(200).json(totals);
+  } catch (error: unknown) {
+    console.error('Error fetching purpose totals:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Free-text purposes on donations not yet linked to the catalog
+router.get('/legacy', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const legacyPurposes = await getLegacyPurposes();
+    return res.status(200).json(legacyPurposes);
+  } catch (error: unknown) {
+    console.error('Error fetching legacy purposes:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Link every donation entered with a free-text purpose to a catalog entry.
+// The purpose printed on their receipts is left as it was.
+router.post('/legacy/map', requirePermission('settings:manage'), requirePrimaryStorage, async (req: Request, res: Response) => {
+  try {
+    const { purpose, purposeId } = mapLegacyPurposeSchema.parse(req.body);
+    const target = (await storage.getPurposes()).find(existing => existing.id === purposeId);
+    if (!target) {
+      return res.status(400).json({ message: "Unknown purpose" });
+    }
+
+    const linked = await storage.assignLegacyPurpose(purpose, purposeId);
+    await recordAudit(req, { action: 'purpose.map_legacy', targetType: 'purpose', targetId: purposeId, after: { purpose, linked } });
+    console.log('Linked', linked, `donations for "${purpose}" to purpose`, target.code);
+
+    return res.status(200).json({ linked });
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error mapping legacy purpose:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Update a purpose. Purposes are never deleted since donations refer to them;
+// set an end date to stop offering one.
+router.put('/:id', requirePermission('settings:manage'), requirePrimaryStorage, async (req: Request, res: Response) => {
+  try {
+    const purposes = await storage.getPurposes();
+    const before = purposes.find(purpose => purpose.id === req.params.id);
+    if (!before) {
+      return res.status(404).json({ message: "Purpose not found" });
+    }
+
+    const input = purposeInputSchema.parse(req.body);
+    if (purposes.some(purpose => purpose.code === input.code && purpose.id !== before.id)) {
+      return res.status(400).json({ message: `Code ${input.code} is already in use` });
+    }
+
+    const purpose = await storage.updatePurpose(before.id, input);
+    if (!purpose) {
+      return res.status(404).json({ message: "Purpose not found" });
+    }
+    await recordAudit(req, { action: 'purpose.update', targetType: 'purpose', targetId: purpose.id, before, after: purpose });
+    console.log('Purpose', purpose.code, 'updated by', req.user!.username);
+
+    return res.status(200).json(purpose);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error updating purpose:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+import { Router, Request, Response } from 'express';
+import { storage } from '../storage';
+import { receiptSeriesConfigSchema } from '@shared/receiptSeries';
+import { ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { organizationSettingsSchema } from '@shared/organization';
+import { getReceiptSeriesConfig, RECEIPT_SERIES_SETTING } from '../receiptAllocator';
+import { getOrganizationSettings, ORGANIZATION_SETTING } from '../organizationSettings';
+import { requirePermission } from '../middleware/auth';
+import { requirePrimaryStorage } from '../middleware/storage';
+import { recordAudit } from '../auditLog';
+
+const router = Router();
+
+// Get the receipt numbering configuration
+router.get('/receipt-series', requirePermission('settings:manage'), async (req: Request, res: Response) => {
+  try {
+    const config = await getReceiptSeriesConfig();
+    return res.status(200).json(config);
+  } catch (error: unknown) {
+    console.error('Error fetching receipt series:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Update the receipt numbering configuration; applies to receipts created from now on
+router.put('/receipt-series', requirePermission('settings:manage'), requirePrimaryStorage, async (req: Request, res: Response) => {
+  try {
+    const config = receiptSeriesConfigSchema.parse(req.body);
+    const before = await getReceiptSeriesConfig();
+    await storage.saveSetting(RECEIPT_SERIES_SETTING, config, req.user!.username);
+    await recordAudit(req, { action: 'settings.update_receipt_series', targetType: 'setting', targetId: RECEIPT_SERIES_SETTING, before, after: config });
+    console.log('Receipt series updated by', req.user!.username, config);
+    
+    return res.status(200).json(config);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error updating receipt series:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Get the organisation profile; every signed-in user needs it to print receipts
+router.get('/organization', async (req: Request, res: Response) => {
+  try {
+    const settings = await getOrganizationSettings();
+    return res.status(200).json(settings);
+  } catch (error: unknown) {
+    console.error('Error fetching organisation settings:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Update the organisation profile printed on 80G receipts
+router.put('/organization', requirePermission('settings:manage'), requirePrimaryStorage, async (req: Request, res: Response) => {
+  try {
+    const settings = organizationSettingsSchema.parse(req.body);
+    const before = await getOrganizationSettings();
+    await storage.saveSetting(ORGANIZATION_SETTING, settings, req.user!.username);
+    await recordAudit(req, { action: 'settings.update_organization', targetType: 'setting', targetId: ORGANIZATION_SETTING, before, after: settings });
+    console.log('Organisation settings updated by', req.user!.username);
+    
+    return res.status(200).json(settings);
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error updating organisation settings:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
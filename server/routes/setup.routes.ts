@@ -0,0 +1,102 @@
+import { Router, Request, Response } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { storage } from '../storage';
+import { setupAdminSchema } from '@shared/schema';
+import { ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { hashPassword } from '../password';
+import { establishSession, toSessionUser } from '../middleware/auth';
+import { recordAudit } from '../auditLog';
+import { StorageUnavailableError } from '../storageErrors';
+
+const router = Router();
+
+// Serialises setup requests so two concurrent submissions cannot both create an admin
+let setupQueue: Promise<unknown> = Promise.resolve();
+
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const result = setupQueue.then(task);
+  setupQueue = result.catch(() => undefined);
+  return result;
+}
+
+// Only the database can say whether an admin exists. The fallback journal may not
+// know every user, and trusting it would let anyone create an admin during an outage.
+async function adminExists(): Promise<boolean> {
+  const users = await storage.getUsers();
+  if (storage.getHealth().usingFallback) {
+    throw new StorageUnavailableError('Setup cannot run while the database is unavailable', false);
+  }
+  return users.some(user => user.role === 'admin');
+}
+
+// When SETUP_TOKEN is configured, the first-run form must present it
+function isValidSetupToken(candidate: string | undefined): boolean {
+  const expected = process.env.SETUP_TOKEN;
+  if (!expected) return true;
+  if (!candidate) return false;
+  const a = Buffer.from(expected);
+  const b = Buffer.from(candidate);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Whether the first-run setup screen should be shown
+router.get('/status', async (req: Request, res: Response) => {
+  try {
+    return res.status(200).json({
+      needsSetup: !(await adminExists()),
+      requiresSetupToken: Boolean(process.env.SETUP_TOKEN)
+    });
+  } catch (error: unknown) {
+    if (error instanceof StorageUnavailableError) {
+      return res.status(503).json({ message: error.message });
+    }
+    console.error('Error checking setup status:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Create the initial admin account; refused once any admin exists
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const input = setupAdminSchema.parse(req.body);
+    
+    if (!isValidSetupToken(input.setupToken)) {
+      return res.status(403).json({ message: "Invalid setup token" });
+    }
+    
+    const admin = await runExclusive(async () => {
+      if (await adminExists()) {
+        return null;
+      }
+      return storage.createUser({
+        username: input.username,
+        fullName: input.fullName,
+        password: await hashPassword(input.password),
+        role: 'admin'
+      });
+    });
+    
+    if (!admin) {
+      console.log('Setup refused: an admin account already exists');
+      return res.status(409).json({ message: "Setup has already been completed" });
+    }
+    
+    console.log('Initial admin account created:', admin.username);
+    await establishSession(req, admin);
+    await recordAudit(req, { action: 'setup.create_admin', targetType: 'user', targetId: admin.id, actor: admin.username, after: toSessionUser(admin) });
+    return res.status(201).json(toSessionUser(admin));
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    if (error instanceof StorageUnavailableError) {
+      return res.status(503).json({ message: error.message });
+    }
+    console.error('Error during initial setup:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+import { Router, Request, Response } from 'express';
+import { z, ZodError } from 'zod';
+import { fromZodError } from 'zod-validation-error';
+import { zipSync } from 'fflate';
+import { storage } from '../storage';
+import { financialYearSchema } from '@shared/receiptSeries';
+import { isCancelled } from '@shared/donationQuery';
+import { isEligible80G } from '@shared/purposes';
+import { getOrganizationSettings } from '../organizationSettings';
+import { sendEmailWithAttachment } from '../emailService';
+import {
+  groupDonationsByDonor,
+  generateForm10BEPdf,
+  form10BEFilename
+} from '../form10BE';
+import { buildForm10BDStatement, form10BDRejectReasons, toForm10BDCsv } from '../form10BD';
+import { recordAudit } from '../auditLog';
+
+const router = Router();
+
+const financialYearQuerySchema = z.object({
+  financialYear: financialYearSchema,
+});
+
+const form10BEQuerySchema = z.object({
+  financialYear: financialYearSchema,
+  // Acknowledgement number of the Form 10BD statement the certificates relate to
+  acknowledgementNumber: z.string().trim().optional(),
+});
+
+// Cancelled receipts and donations for purposes outside Section 80G are never reported to the tax department
+async function reportableDonations() {
+  const purposes = await storage.getPurposes();
+  return (await storage.getDonations())
+    .filter(donation => !isCancelled(donation) && isEligible80G(donation.purposeId, purposes));
+}
+
+// Certificates cover exactly the donations filed on Form 10BD for the year
+async function getCertificates(financialYear: string) {
+  const filed = (await reportableDonations()).filter(donation => form10BDRejectReasons(donation).length === 0);
+  return groupDonationsByDonor(filed, financialYear);
+}
+
+// List the donors who will receive a Form 10BE certificate for a financial year
+router.get('/10be', async (req: Request, res: Response) => {
+  try {
+    const { financialYear } = form10BEQuerySchema.parse(req.query);
+    const certificates = await getCertificates(financialYear);
+    
+    return res.status(200).json(certificates.map(certificate => ({
+      donorKey: certificate.donorKey,
+      donorName: certificate.donorName,
+      panNumber: certificate.panNumber,
+      email: certificate.email,
+      receiptCount: certificate.donations.length,
+      total: certificate.total
+    })));
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error listing 10BE certificates:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Download every certificate for a financial year as one ZIP archive
+router.get('/10be/certificates.zip', async (req: Request, res: Response) => {
+  try {
+    const { financialYear, acknowledgementNumber } = form10BEQuerySchema.parse(req.query);
+    const organization = await getOrganizationSettings();
+    const certificates = await getCertificates(financialYear);
+    
+    const files: Record<string, Uint8Array> = {};
+    for (const certificate of certificates) {
+      // Donors without a PAN may share a name, so keep every filename unique
+      let filename = form10BEFilename(certificate, financialYear);
+      for (let n = 2; files[filename]; n++) {
+        filename = form10BEFilename(certificate, financialYear).replace(/\.pdf$/, `-${n}.pdf`);
+      }
+      files[filename] = generateForm10BEPdf(certificate, financialYear, organization, acknowledgementNumber);
+    }
+    
+    res.setHeader('Content-Type', 'application/zip');
+    res.setHeader('Content-Disposition', `attachment; filename="10BE-${financialYear}.zip"`);
+    return res.status(200).send(Buffer.from(zipSync(files)));
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error generating 10BE archive:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Email each donor their certificate; donors without an email address are skipped
+router.post('/10be/email', async (req: Request, res: Response) => {
+  try {
+    const { financialYear, acknowledgementNumber } = form10BEQuerySchema.parse(req.body);
+    const organization = await getOrganizationSettings();
+    const certificates = await getCertificates(financialYear);
+    
+    let sent = 0;
+    const skipped: string[] = [];
+    const failed: { donorName: string; email: string }[] = [];
+    
+    // Sent one at a time so a large batch does not overwhelm the mail server
+    for (const certificate of certificates) {
+      if (!certificate.email) {
+        skipped.push(certificate.donorName);
+        continue;
+      }
+      try {
+        await sendEmailWithAttachment(
+          certificate.email,
+          `Form 10BE certificate for FY ${financialYear}`,
+          `Dear ${certificate.donorName},\n\nPlease find attached your Form 10BE certificate of donations to ${organization.name} for the financial year ${financialYear}.\n\nThank you for your support.`,
+          generateForm10BEPdf(certificate, financialYear, organization, acknowledgementNumber),
+          form10BEFilename(certificate, financialYear)
+        );
+        sent++;
+      } catch (error) {
+        console.error('Error emailing 10BE certificate to', certificate.email, error);
+        failed.push({ donorName: certificate.donorName, email: certificate.email });
+      }
+    }
+    
+    console.log(`10BE certificates for ${financialYear}: ${sent} sent, ${failed.length} failed, ${skipped.length} skipped`);
+    await recordAudit(req, {
+      action: 'tax.email_10be',
+      targetType: 'financialYear',
+      targetId: financialYear,
+      after: { sent, failed: failed.length, skipped: skipped.length }
+    });
+    return res.status(200).json({ sent, failed, skipped });
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error emailing 10BE certificates:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+async function getForm10BDStatement(financialYear: string) {
+  return buildForm10BDStatement(await reportableDonations(), financialYear, await getOrganizationSettings());
+}
+
+// Validate the Form 10BD statement for a financial year and report rejected donations
+router.get('/10bd', async (req: Request, res: Response) => {
+  try {
+    const { financialYear } = financialYearQuerySchema.parse(req.query);
+    const statement = await getForm10BDStatement(financialYear);
+    
+    return res.status(200).json({
+      issues: statement.issues,
+      rowCount: statement.rows.length,
+      total: statement.total,
+      rejects: statement.rejects
+    });
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error validating 10BD statement:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Download the Form 10BD CSV; rejected donations are left out of the file
+router.get('/10bd.csv', async (req: Request, res: Response) => {
+  try {
+    const { financialYear } = financialYearQuerySchema.parse(req.query);
+    const statement = await getForm10BDStatement(financialYear);
+    
+    if (statement.issues.length > 0) {
+      return res.status(400).json({ message: statement.issues.join('; ') });
+    }
+    
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="10BD-${financialYear}.csv"`);
+    return res.status(200).send(toForm10BDCsv(statement));
+  } catch (error: unknown) {
+    if (error instanceof ZodError) {
+      const validationError = fromZodError(error);
+      return res.status(400).json({ message: validationError.message });
+    }
+    console.error('Error generating 10BD statement:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+export default router;
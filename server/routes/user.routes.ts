@@ -1,11 +1,28 @@
 import { Router, Request, Response } from 'express';
 import { storage } from '../storage';
 import { insertUserSchema } from '@shared/schema';
+import { isRecordId } from '@shared/ids';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
+import { hashPassword, generateResetToken } from '../password';
+import { sendPasswordResetEmail } from '../emailService';
+import { getLockedAccounts, unlockAccount } from '../loginThrottle';
+import { toSessionUser } from '../middleware/auth';
+import { recordAudit } from '../auditLog';
 
 const router = Router();
 
+// Reject ids that cannot belong to any user before they reach the storage layer
+router.param('id', (req: Request, res: Response, next, id) => {
+  if (!isRecordId(id)) {
+    return res.status(400).json({ message: "Invalid user ID" });
+  }
+  next();
+});
+
+// Password reset links stay valid for one hour
+const RESET_TOKEN_TTL_MINUTES = 60;
+
 // Get all users
 router.get('/', async (req: Request, res: Response) => {
   try {
@@ -25,6 +42,24 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
+// Get accounts that are currently locked out after repeated failed logins
+router.get('/lockouts', async (req: Request, res: Response) => {
+  try {
+    const lockouts = await getLockedAccounts();
+    return res.status(200).json(
+      lockouts.map(lockout => ({
+        username: lockout.key.slice('user:'.length),
+        failedCount: lockout.failedCount,
+        lastFailedAt: lockout.lastFailedAt,
+        lockedUntil: lockout.lockedUntil
+      }))
+    );
+  } catch (error: unknown) {
+    console.error('Error getting locked accounts:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
 // Create new user
 router.post('/', async (req: Request, res: Response) => {
   try {
@@ -36,7 +71,11 @@ router.post('/', async (req: Request, res: Response) => {
       return res.status(400).json({ message: "User with this email already exists" });
     }
     
-    const user = await storage.createUser(newUser);
+    const user = await storage.createUser({
+      ...newUser,
+      password: await hashPassword(newUser.password)
+    });
+    await recordAudit(req, { action: 'user.create', targetType: 'user', targetId: user.id, after: toSessionUser(user) });
     return res.status(201).json({
       id: user.id,
       username: user.username,
@@ -57,11 +96,8 @@ router.post('/', async (req: Request, res: Response) => {
 // Update user status
 router.patch('/:id/status', async (req: Request, res: Response) => {
   try {
-    const idParam = req.params.id;
-    console.log(`Received status update request for user ID: ${idParam}, body:`, req.body);
-    
-    // Don't parse the ID at all, just pass it as is to the storage layer
-    const id = idParam;
+    const id = req.params.id;
+    console.log(`Received status update request for user ID: ${id}, body:`, req.body);
 
     const { isActive } = req.body;
     if (typeof isActive !== 'boolean') {
@@ -81,12 +117,10 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
     console.log(`Found user: ${user.username}, updating status to: ${isActive}`);
     
     // Check if this is the currently logged-in user
-    const currentUserId = req.headers['user-id'];
-    console.log(`Current user ID from headers: ${currentUserId}`);
+    const currentUserId = req.user?.id;
+    console.log(`Current user ID from session: ${currentUserId}`);
     
-    const isDeactivatingSelf = currentUserId && 
-      (currentUserId === id.toString() || currentUserId === id) && 
-      !isActive;
+    const isDeactivatingSelf = currentUserId === user.id && !isActive;
     
     console.log(`Updating user status for ID: ${id}, isActive: ${isActive}`);
     const updatedUser = await storage.updateUserStatus(id, isActive);
@@ -97,6 +131,13 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
     }
     
     console.log(`Successfully updated user status for: ${updatedUser.username}, new status: ${updatedUser.isActive}`);
+    await recordAudit(req, {
+      action: 'user.update_status',
+      targetType: 'user',
+      targetId: updatedUser.id,
+      before: toSessionUser(user),
+      after: toSessionUser(updatedUser)
+    });
     
     // If deactivating the current user, include a flag to indicate client should log out
     if (isDeactivatingSelf) {
@@ -125,20 +166,62 @@ router.patch('/:id/status', async (req: Request, res: Response) => {
   }
 });
 
-// Delete user
-router.delete('/:id', async (req: Request, res: Response) => {
+// Clear a login lockout for the user
+router.delete('/:id/lockout', async (req: Request, res: Response) => {
+  try {
+    const user = await storage.getUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    
+    await unlockAccount(user.username);
+    await recordAudit(req, { action: 'user.unlock', targetType: 'user', targetId: user.id });
+    console.log(`Login lockout cleared for user: ${user.username}`);
+    return res.status(200).json({ message: `${user.fullName} has been unlocked` });
+  } catch (error: unknown) {
+    console.error('Error clearing login lockout:', error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+});
+
+// Send a one-time password reset link to the user's email
+router.post('/:id/reset-password', async (req: Request, res: Response) => {
   try {
-    const id = parseInt(req.params.id);
-    if (isNaN(id)) {
-      return res.status(400).json({ message: "Invalid user ID" });
+    const user = await storage.getUser(req.params.id);
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
     }
     
+    const { token, tokenHash } = generateResetToken();
+    const expiresAt = new Date(Date.now() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+    await storage.createPasswordResetToken(user.id, tokenHash, expiresAt);
+    
+    const baseUrl = process.env.APP_URL || `${req.protocol}://${req.get('host')}`;
+    const resetLink = `${baseUrl}/reset-password?token=${token}`;
+    
+    // The username is the user's email address
+    await sendPasswordResetEmail(user.username, resetLink, RESET_TOKEN_TTL_MINUTES);
+    
+    await recordAudit(req, { action: 'user.send_password_reset', targetType: 'user', targetId: user.id });
+    console.log(`Password reset link issued for user: ${user.username}`);
+    return res.status(200).json({ message: `Password reset link sent to ${user.username}` });
+  } catch (error: unknown) {
+    console.error('Error issuing password reset:', error);
+    return res.status(500).json({ message: "Failed to send password reset email" });
+  }
+});
+
+// Delete user
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id;
     const user = await storage.getUser(id);
     if (!user) {
       return res.status(404).json({ message: "User not found" });
     }
     
     await storage.deleteUser(id);
+    await recordAudit(req, { action: 'user.delete', targetType: 'user', targetId: user.id, before: toSessionUser(user) });
     return res.status(200).json({ message: "User deleted successfully" });
   } catch (error: unknown) {
     return res.status(500).json({ message: "Internal server error" });
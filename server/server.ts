@@ -3,15 +3,20 @@ import { createServer, type Server } from "http";
 import dotenv from 'dotenv';
 import { setupVite, serveStatic, log } from "./vite";
 import apiRouter from "./routes/api-router";
+import { sessionMiddleware } from "./middleware/auth";
 
 // Load environment variables from .env file
 dotenv.config();
 
 // Create Express application
 const app = express();
+// Deployed behind a reverse proxy: needed for the client IP used by login
+// throttling and for secure session cookies
+app.set('trust proxy', 1);
 
 // Middleware setup
-app.use(express.json());
+// Signature images are uploaded as base64 JSON
+app.use(express.json({ limit: '1mb' }));
 app.use(express.urlencoded({ extended: false }));
 
 // Request logging middleware
@@ -59,7 +64,8 @@ process.on('unhandledRejection', (reason, promise) => {
 // Start the server
 (async () => {
   try {
-    // Apply routes with /api prefix
+    // Resolve sessions, then apply routes with /api prefix
+    app.use(sessionMiddleware);
     app.use('/api', apiRouter);
     
     // Create HTTP server
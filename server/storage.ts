@@ -4,74 +4,303 @@ import {
   type InsertUser,
   donations,
   type Donation,
-  type InsertDonation 
+  type InsertDonation,
+  type NewDonation,
+  type DonationRevision,
+  type InsertDonationRevision,
+  type DonationCancellation,
+  type Donor,
+  type InsertDonor,
+  type PasswordResetToken,
+  type LoginAttempt,
+  type InsertLoginAttempt,
+  type Setting,
+  type AuditLogEntry,
+  type InsertAuditLogEntry
 } from "../shared/schema";
-import { MongoDBStorage } from './mongodb';
+import type { AuditLogQuery } from "../shared/auditLog";
+import type { RecordId } from "../shared/ids";
+import type { DonorMatchCriteria } from "../shared/donors";
+import type { Purpose, PurposeInput } from "../shared/purposes";
+import type { DonationQuery, PagedResult } from "../shared/donationQuery";
+import path from 'path';
+import { MongoDBStorage, MONGODB_DB_NAME, MONGODB_URI } from './mongodb';
+import { PostgresStorage } from './postgres';
+import { JournalStorage } from './fallbackJournal';
+import type { StorageHealth } from "../shared/storageHealth";
+import { MigrationError, StorageUnavailableError } from './storageErrors';
 
 export interface IStorage {
   // User operations
-  getUser(id: number | string): Promise<User | undefined>;
+  getUser(id: RecordId): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   getUsers(): Promise<User[]>;
-  updateUserStatus(id: number | string, isActive: boolean): Promise<User | undefined>;
-  deleteUser(id: number | string): Promise<void>;
+  updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined>;
+  deleteUser(id: RecordId): Promise<void>;
+  updateUserPassword(id: RecordId, password: string): Promise<User | undefined>;
+  
+  // Password reset operations
+  createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void>;
+  consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  
+  // Login throttling operations
+  getLoginAttempt(key: string): Promise<LoginAttempt | undefined>;
+  getLoginAttempts(): Promise<LoginAttempt[]>;
+  saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt>;
+  deleteLoginAttempt(key: string): Promise<void>;
+  
+  // Settings operations
+  getSetting(key: string): Promise<Setting | undefined>;
+  getSettings(): Promise<Setting[]>;
+  saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting>;
+  
+  // Atomically increment a named counter; `seed` supplies the starting value the first time it is used
+  nextSequence(name: string, seed: () => Promise<number>): Promise<number>;
+  // Current value of every named counter, keyed by name
+  getSequences(): Promise<Record<string, number>>;
+  
+  // Purpose catalog operations; purposes are never deleted since donations refer to them.
+  // Codes are unique, and saving one already in use is rejected.
+  // The whole catalog, in name order
+  getPurposes(): Promise<Purpose[]>;
+  createPurpose(purpose: PurposeInput): Promise<Purpose>;
+  updatePurpose(id: RecordId, purpose: PurposeInput): Promise<Purpose | undefined>;
+  
+  // Donor operations
+  getDonor(id: RecordId): Promise<Donor | undefined>;
+  getDonors(): Promise<Donor[]>;
+  // Donors sharing any of the given PAN, email or phone number
+  findDonors(criteria: DonorMatchCriteria): Promise<Donor[]>;
+  // Donors whose name, phone, email or PAN contains the query
+  searchDonors(query: string, limit: number): Promise<Donor[]>;
+  createDonor(donor: InsertDonor): Promise<Donor>;
+  updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined>;
+  // Move the donations of the source donors to the target and delete the sources
+  mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void>;
+  setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void>;
   
   // Donation operations
-  createDonation(donation: InsertDonation): Promise<Donation>;
-  getDonation(id: number): Promise<Donation | undefined>;
+  createDonation(donation: NewDonation): Promise<Donation>;
+  getDonationsByDonor(donorId: RecordId): Promise<Donation[]>;
+  getDonation(id: RecordId): Promise<Donation | undefined>;
   getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined>;
   getDonations(): Promise<Donation[]>;
+  // One page of donations matching the filters, in the requested order
+  queryDonations(query: DonationQuery): Promise<PagedResult<Donation>>;
+  // Apply an admin edit and append the revision describing it; revisions are never modified afterwards
+  reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined>;
+  // Revisions of a donation, oldest first
+  getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]>;
+  // Void a receipt; the donation stays stored so its receipt number is never reused
+  cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined>;
+  // Link donations with no catalog purpose whose free-text purpose matches, ignoring case and
+  // surrounding spaces, to a catalog entry. Returns how many were linked.
+  assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number>;
   getLastReceiptNumber(): Promise<string | undefined>;
+  
+  // Audit log operations; entries can only be appended, never changed or removed
+  appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  // One page of entries matching the filters, newest first
+  queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>>;
 }
 
-// Wrapper class that handles fallback between MongoDB and MemStorage
-export class StorageWrapper implements IStorage {
-  private primaryStorage: IStorage;
-  private fallbackStorage: IStorage;
-  private useFallback: boolean = false;
-  private connectionTestCompleted: boolean = false;
+// A database-backed store that can report whether it is reachable
+export type PrimaryStorage = IStorage & {
+  ping(): Promise<boolean>;
+  // The error as a StorageUnavailableError when it means the database could not be
+  // reached, or undefined when it is about the operation itself
+  unavailableError(error: unknown): StorageUnavailableError | undefined;
+};
+
+// Operations on the database that take longer than this count as a failure of the database
+const OPERATION_TIMEOUT_MS = 3000;
+
+// A health check that gets no answer within this time counts as a failure
+const PING_TIMEOUT_MS = 5000;
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number, timeoutError: () => Error): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(timeoutError()), timeoutMs);
+    })
+  ]).finally(() => clearTimeout(timer));
+}
 
-  constructor(primary: IStorage, fallback: IStorage) {
+// Wrapper class that sends operations to the database and switches to the local
+// journal while the database is unavailable. A periodic health check switches
+// back once the database answers again, after copying the journaled writes into it.
+export class StorageWrapper implements IStorage {
+  private primaryName: string;
+  private primaryStorage: PrimaryStorage | null;
+  private fallbackStorage: JournalStorage;
+  // Requests go to the database until it fails to answer
+  private useFallback: boolean;
+  private activeSince: Date = new Date();
+  private latencyMs: number | null = null;
+  private lastCheckedAt: Date | null = null;
+  private lastFailure: { at: Date; message: string } | null = null;
+  // Set while the database answers but its migrations fail
+  private migrationFailure: MigrationError | null = null;
+  private check: Promise<void> | null = null;
+
+  constructor(primaryName: string, primary: PrimaryStorage | null, fallback: JournalStorage) {
+    this.primaryName = primaryName;
     this.primaryStorage = primary;
     this.fallbackStorage = fallback;
+    this.useFallback = primary === null;
   }
 
-  private async executeWithFallback<T>(operation: (storage: IStorage) => Promise<T>): Promise<T> {
-    // If we've already determined to use fallback, go directly to it
-    if (this.useFallback) {
+  // Note a failure of the database, shown by the health endpoint
+  recordFailure(error: unknown): void {
+    this.lastFailure = {
+      at: new Date(),
+      message: error instanceof Error ? error.message : String(error)
+    };
+  }
+
+  private switchToFallback(error: unknown): void {
+    this.recordFailure(error);
+    if (!this.useFallback) {
+      console.warn(`${this.primaryName} is unavailable, falling back to the local journal:`, error);
+      this.useFallback = true;
+      this.activeSince = new Date();
+    }
+  }
+
+  // Run an operation on the database, switching to the journal when the database cannot
+  // be reached. Errors about the operation itself, such as a duplicate key, are passed on.
+  // Writes are only repeated on the journal when they certainly did not reach the database.
+  private async executeWithFallback<T>(operation: (storage: IStorage) => Promise<T>, write: boolean = false): Promise<T> {
+    if (this.useFallback || !this.primaryStorage) {
       return await operation(this.fallbackStorage);
     }
     
     try {
-      // Try with primary storage
-      const result = await Promise.race([
+      return await withTimeout(
         operation(this.primaryStorage),
-        // Add a timeout to prevent hanging if MongoDB is slow
-        new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error('Operation timed out')), 3000);
-        })
-      ]);
-      
-      // If we get here, the operation succeeded
-      if (!this.connectionTestCompleted) {
-        console.log('MongoDB operation completed successfully, using MongoDB as primary storage');
-        this.connectionTestCompleted = true;
-      }
-      
-      return result as T;
+        OPERATION_TIMEOUT_MS,
+        () => new StorageUnavailableError(`${this.primaryName} operation timed out`, true)
+      );
     } catch (error: unknown) {
-      // Log the error and switch to fallback
-      console.warn('Primary storage operation failed, falling back to in-memory storage:', error);
-      this.useFallback = true;
-      
-      // Use fallback storage
+      const unavailable = this.primaryStorage.unavailableError(error);
+      if (!unavailable) {
+        throw error;
+      }
+      this.switchToFallback(error);
+      if (write && unavailable.mayHaveApplied) {
+        throw unavailable;
+      }
       return await operation(this.fallbackStorage);
     }
   }
 
+  private async executeWrite<T>(operation: (storage: IStorage) => Promise<T>): Promise<T> {
+    return this.executeWithFallback(operation, true);
+  }
+
+  // Ping the database; fail over when it does not answer, and fail back once it
+  // does. Concurrent calls share one check.
+  async checkPrimary(): Promise<void> {
+    if (!this.check) {
+      this.check = this.runCheck().finally(() => {
+        this.check = null;
+      });
+    }
+    return this.check;
+  }
+
+  private async runCheck(): Promise<void> {
+    if (!this.primaryStorage) return;
+    
+    const started = Date.now();
+    let failure: unknown = null;
+    try {
+      // ping() reports an unreachable database by returning false rather than throwing
+      if (!(await withTimeout(this.primaryStorage.ping(), PING_TIMEOUT_MS, () => new Error('Health check timed out')))) {
+        failure = new Error(`${this.primaryName} did not answer the health check`);
+      }
+    } catch (error: unknown) {
+      failure = error;
+    }
+    this.lastCheckedAt = new Date();
+    this.latencyMs = failure ? null : Date.now() - started;
+    
+    if (failure instanceof MigrationError) {
+      // Not an outage that passes by itself, so it is reported at every check
+      console.error(`${this.primaryName} cannot be used until its migrations succeed:`, failure.message);
+      this.migrationFailure = failure;
+    } else {
+      this.migrationFailure = null;
+    }
+    
+    if (failure) {
+      this.switchToFallback(failure);
+      return;
+    }
+    
+    // Also catches writes that reached the journal just as the last replay finished
+    if (this.useFallback || this.fallbackStorage.pendingWrites > 0) {
+      try {
+        const { replayed, conflicts } = await this.fallbackStorage.replayInto(this.primaryStorage);
+        if (replayed > 0) {
+          console.log(`Replayed ${replayed} journaled writes into ${this.primaryName}`);
+        }
+        if (conflicts > 0) {
+          console.error(`${conflicts} journaled writes conflicted with existing data and were saved to ${this.fallbackStorage.conflictsPath}`);
+        }
+      } catch (error: unknown) {
+        console.error('Replaying the fallback journal failed, staying on it:', error);
+        this.recordFailure(error);
+        return;
+      }
+    }
+    
+    if (this.useFallback) {
+      this.useFallback = false;
+      this.activeSince = new Date();
+      console.log(`Using ${this.primaryName} as primary storage`);
+    }
+
+    // Keep the journal's copy of users, settings and counters current for the next outage
+    try {
+      await this.fallbackStorage.takeSnapshot(this.primaryStorage);
+    } catch (error: unknown) {
+      console.error(`Copying users and settings from ${this.primaryName} for the fallback journal failed:`, error);
+    }
+  }
+
+  // Check the database shortly after startup, then keep checking at the given interval
+  startHealthChecks(initialDelayMs: number, intervalMs: number): void {
+    const schedule = (delayMs: number) => {
+      setTimeout(async () => {
+        await this.checkPrimary();
+        schedule(intervalMs);
+      }, delayMs).unref();
+    };
+    schedule(initialDelayMs);
+  }
+
+  getHealth(): StorageHealth {
+    return {
+      status: this.migrationFailure ? 'migration_failed' : this.useFallback ? 'degraded' : 'ok',
+      backend: this.useFallback ? 'journal' : this.primaryName,
+      primary: this.primaryName,
+      usingFallback: this.useFallback,
+      activeSince: this.activeSince.toISOString(),
+      latencyMs: this.latencyMs,
+      lastCheckedAt: this.lastCheckedAt?.toISOString() ?? null,
+      lastFailure: this.lastFailure
+        ? { at: this.lastFailure.at.toISOString(), message: this.lastFailure.message }
+        : null,
+      pendingWrites: this.fallbackStorage.pendingWrites
+    };
+  }
+
   // User operations
-  async getUser(id: number | string): Promise<User | undefined> {
+  async getUser(id: RecordId): Promise<User | undefined> {
     return this.executeWithFallback(storage => storage.getUser(id));
   }
 
@@ -80,233 +309,222 @@ export class StorageWrapper implements IStorage {
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    return this.executeWithFallback(storage => storage.createUser(user));
+    return this.executeWrite(storage => storage.createUser(user));
   }
 
   async getUsers(): Promise<User[]> {
     return this.executeWithFallback(storage => storage.getUsers());
   }
 
-  async updateUserStatus(id: number | string, isActive: boolean): Promise<User | undefined> {
-    return this.executeWithFallback(storage => storage.updateUserStatus(id, isActive));
+  async updateUserStatus(id: RecordId, isActive: boolean): Promise<User | undefined> {
+    return this.executeWrite(storage => storage.updateUserStatus(id, isActive));
   }
 
-  async deleteUser(id: number | string): Promise<void> {
-    return this.executeWithFallback(storage => storage.deleteUser(id));
+  async deleteUser(id: RecordId): Promise<void> {
+    return this.executeWrite(storage => storage.deleteUser(id));
   }
 
-  // Donation operations
-  async createDonation(donation: InsertDonation): Promise<Donation> {
-    return this.executeWithFallback(storage => storage.createDonation(donation));
+  async updateUserPassword(id: RecordId, password: string): Promise<User | undefined> {
+    return this.executeWrite(storage => storage.updateUserPassword(id, password));
   }
 
-  async getDonation(id: number): Promise<Donation | undefined> {
-    return this.executeWithFallback(storage => storage.getDonation(id));
+  // Password reset operations
+  async createPasswordResetToken(userId: RecordId, tokenHash: string, expiresAt: Date): Promise<void> {
+    return this.executeWrite(storage => storage.createPasswordResetToken(userId, tokenHash, expiresAt));
   }
 
-  async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
-    return this.executeWithFallback(storage => storage.getDonationByReceiptNumber(receiptNumber));
+  async consumePasswordResetToken(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return this.executeWrite(storage => storage.consumePasswordResetToken(tokenHash));
   }
 
-  async getDonations(): Promise<Donation[]> {
-    return this.executeWithFallback(storage => storage.getDonations());
+  // Login throttling operations
+  async getLoginAttempt(key: string): Promise<LoginAttempt | undefined> {
+    return this.executeWithFallback(storage => storage.getLoginAttempt(key));
   }
 
-  async getLastReceiptNumber(): Promise<string | undefined> {
-    return this.executeWithFallback(storage => storage.getLastReceiptNumber());
+  async getLoginAttempts(): Promise<LoginAttempt[]> {
+    return this.executeWithFallback(storage => storage.getLoginAttempts());
   }
-}
 
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private donations: Map<number, Donation>;
-  private userCurrentId: number;
-  private donationCurrentId: number;
-
-  constructor() {
-    this.users = new Map();
-    this.donations = new Map();
-    this.userCurrentId = 1;
-    this.donationCurrentId = 1;
-    
-    // Initialize with admin user
-    this.createUser({
-      username: "admin@example.com",
-      password: "admin123",
-      fullName: "Admin User",
-      role: "admin"
+  async saveLoginAttempt(attempt: InsertLoginAttempt): Promise<LoginAttempt> {
+    return this.executeWrite(storage => storage.saveLoginAttempt(attempt));
+  }
+
+  async deleteLoginAttempt(key: string): Promise<void> {
+    return this.executeWrite(storage => storage.deleteLoginAttempt(key));
+  }
+
+  // Settings operations
+  async getSetting(key: string): Promise<Setting | undefined> {
+    return this.executeWithFallback(storage => storage.getSetting(key));
+  }
+
+  async getSettings(): Promise<Setting[]> {
+    return this.executeWithFallback(storage => storage.getSettings());
+  }
+
+  async saveSetting(key: string, value: unknown, updatedBy: string | null): Promise<Setting> {
+    return this.executeWrite(storage => storage.saveSetting(key, value, updatedBy));
+  }
+
+  async nextSequence(name: string, seed: () => Promise<number>): Promise<number> {
+    return this.executeWrite(async storage => {
+      const value = await storage.nextSequence(name, seed);
+      // Values handed out since the last snapshot must not be handed out again by the journal
+      if (storage === this.primaryStorage) {
+        this.fallbackStorage.noteSequence(name, value);
+      }
+      return value;
     });
   }
 
-  // User operations
-  async getUser(id: number | string): Promise<User | undefined> {
-    return this.users.get(Number(id));
+  async getSequences(): Promise<Record<string, number>> {
+    return this.executeWithFallback(storage => storage.getSequences());
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
-    );
-  }
-
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.userCurrentId++;
-    const now = new Date();
-    const user: User = { 
-      ...insertUser, 
-      id, 
-      isActive: true,
-      createdAt: now,
-      // Ensure role is set with a default if not provided
-      role: insertUser.role || "staff"
-    };
-    this.users.set(id, user);
-    return user;
+  // Purpose catalog operations
+  async getPurposes(): Promise<Purpose[]> {
+    return this.executeWithFallback(storage => storage.getPurposes());
   }
 
-  async getUsers(): Promise<User[]> {
-    return Array.from(this.users.values());
+  async createPurpose(purpose: PurposeInput): Promise<Purpose> {
+    return this.executeWrite(storage => storage.createPurpose(purpose));
   }
 
-  async updateUserStatus(id: number | string, isActive: boolean): Promise<User | undefined> {
-    const user = this.users.get(Number(id));
-    
-    if (!user) {
-      return undefined;
-    }
-    
-    const updatedUser = { ...user, isActive };
-    this.users.set(Number(id), updatedUser);
-    return updatedUser;
+  async updatePurpose(id: RecordId, purpose: PurposeInput): Promise<Purpose | undefined> {
+    return this.executeWrite(storage => storage.updatePurpose(id, purpose));
+  }
+
+  // Donor operations
+  async getDonor(id: RecordId): Promise<Donor | undefined> {
+    return this.executeWithFallback(storage => storage.getDonor(id));
   }
 
-  async deleteUser(id: number | string): Promise<void> {
-    this.users.delete(Number(id));
+  async getDonors(): Promise<Donor[]> {
+    return this.executeWithFallback(storage => storage.getDonors());
+  }
+
+  async findDonors(criteria: DonorMatchCriteria): Promise<Donor[]> {
+    return this.executeWithFallback(storage => storage.findDonors(criteria));
+  }
+
+  async searchDonors(query: string, limit: number): Promise<Donor[]> {
+    return this.executeWithFallback(storage => storage.searchDonors(query, limit));
+  }
+
+  async createDonor(donor: InsertDonor): Promise<Donor> {
+    return this.executeWrite(storage => storage.createDonor(donor));
+  }
+
+  async updateDonor(id: RecordId, updates: Partial<InsertDonor>): Promise<Donor | undefined> {
+    return this.executeWrite(storage => storage.updateDonor(id, updates));
+  }
+
+  async mergeDonors(targetId: RecordId, sourceIds: RecordId[]): Promise<void> {
+    return this.executeWrite(storage => storage.mergeDonors(targetId, sourceIds));
+  }
+
+  async setDonationDonor(donationId: RecordId, donorId: RecordId): Promise<void> {
+    return this.executeWrite(storage => storage.setDonationDonor(donationId, donorId));
   }
 
   // Donation operations
-  async createDonation(insertDonation: InsertDonation): Promise<Donation> {
-    const id = this.donationCurrentId++;
-    const now = new Date();
-    
-    // Create a donation object with all required fields
-    const donation = {
-      id,
-      receiptNumber: insertDonation.receiptNumber,
-      date: insertDonation.date,
-      donorName: insertDonation.donorName,
-      contactNumber: insertDonation.contactNumber,
-      address: insertDonation.address,
-      email: insertDonation.email,
-      panNumber: insertDonation.panNumber || null,
-      paymentMode: insertDonation.paymentMode,
-      amount: insertDonation.amount,
-      amountInWords: insertDonation.amountInWords,
-      purpose: insertDonation.purpose,
-      instrumentDate: insertDonation.instrumentDate || null,
-      drawnOn: insertDonation.drawnOn || null,
-      instrumentNumber: insertDonation.instrumentNumber || null,
-      createdBy: insertDonation.createdBy || null,
-      createdAt: now
-    } as Donation;
-    
-    this.donations.set(id, donation);
-    return donation;
+  async createDonation(donation: NewDonation): Promise<Donation> {
+    return this.executeWrite(storage => storage.createDonation(donation));
   }
 
-  async getDonation(id: number): Promise<Donation | undefined> {
-    return this.donations.get(id);
+  async getDonationsByDonor(donorId: RecordId): Promise<Donation[]> {
+    return this.executeWithFallback(storage => storage.getDonationsByDonor(donorId));
+  }
+
+  async getDonation(id: RecordId): Promise<Donation | undefined> {
+    return this.executeWithFallback(storage => storage.getDonation(id));
   }
 
   async getDonationByReceiptNumber(receiptNumber: string): Promise<Donation | undefined> {
-    return Array.from(this.donations.values()).find(
-      (donation) => donation.receiptNumber === receiptNumber
-    );
+    return this.executeWithFallback(storage => storage.getDonationByReceiptNumber(receiptNumber));
   }
 
   async getDonations(): Promise<Donation[]> {
-    return Array.from(this.donations.values());
+    return this.executeWithFallback(storage => storage.getDonations());
+  }
+
+  async queryDonations(query: DonationQuery): Promise<PagedResult<Donation>> {
+    return this.executeWithFallback(storage => storage.queryDonations(query));
+  }
+
+  async reviseDonation(id: RecordId, updates: Partial<InsertDonation>, revision: InsertDonationRevision): Promise<Donation | undefined> {
+    return this.executeWrite(storage => storage.reviseDonation(id, updates, revision));
+  }
+
+  async getDonationRevisions(donationId: RecordId): Promise<DonationRevision[]> {
+    return this.executeWithFallback(storage => storage.getDonationRevisions(donationId));
+  }
+
+  async cancelDonation(id: RecordId, cancellation: DonationCancellation): Promise<Donation | undefined> {
+    return this.executeWrite(storage => storage.cancelDonation(id, cancellation));
+  }
+
+  async assignLegacyPurpose(purpose: string, purposeId: RecordId): Promise<number> {
+    return this.executeWrite(storage => storage.assignLegacyPurpose(purpose, purposeId));
   }
 
   async getLastReceiptNumber(): Promise<string | undefined> {
-    const donations = Array.from(this.donations.values());
-    if (donations.length === 0) return undefined;
-    
-    // Sort donations by receipt number (assuming numeric format)
-    donations.sort((a, b) => {
-      // If both are numeric, sort numerically
-      if (/^\d+$/.test(a.receiptNumber) && /^\d+$/.test(b.receiptNumber)) {
-        return parseInt(b.receiptNumber) - parseInt(a.receiptNumber);
-      }
-      // Otherwise use string comparison
-      return b.receiptNumber.localeCompare(a.receiptNumber);
-    });
-    
-    console.log('Last receipt number from memory storage:', donations[0].receiptNumber);
-    return donations[0].receiptNumber;
+    return this.executeWithFallback(storage => storage.getLastReceiptNumber());
+  }
+
+  // Audit log operations
+  async appendAuditLog(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    return this.executeWrite(storage => storage.appendAuditLog(entry));
+  }
+
+  async queryAuditLog(query: AuditLogQuery): Promise<PagedResult<AuditLogEntry>> {
+    return this.executeWithFallback(storage => storage.queryAuditLog(query));
   }
 }
 
-// MongoDB connection URI and database name
-const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/anant_aman';
-const MONGODB_DB_NAME = process.env.MONGODB_DB_NAME || 'anant_aman_donation_system';
+// Database used for primary storage: "mongodb" (the default) or "postgres"
+const STORAGE_DRIVER = process.env.STORAGE_DRIVER || 'mongodb';
 
-// Initialize storage
-const memStorage = new MemStorage();
-let mongoStorage: MongoDBStorage | null = null;
+// The first check waits a little so the database connection has time to open
+const FIRST_HEALTH_CHECK_DELAY_MS = 2000;
+const HEALTH_CHECK_INTERVAL_MS = Number(process.env.HEALTH_CHECK_INTERVAL_MS) || 15000;
 
-// Start with in-memory storage as the primary
-const storageWrapper = new StorageWrapper(memStorage, memStorage);
+// Writes made while the database is unavailable are kept here until they can be replayed into it
+const FALLBACK_JOURNAL_PATH = process.env.FALLBACK_JOURNAL_PATH || path.resolve('data', 'fallback-journal.jsonl');
 
-// Try to initialize MongoDB in the background
-try {
-  console.log('Creating MongoDB storage instance in the background...');
-  mongoStorage = new MongoDBStorage(MONGODB_URI, MONGODB_DB_NAME);
-  
-  // Test MongoDB connection after a delay
-  setTimeout(async () => {
-    if (mongoStorage) {
-      try {
-        console.log('Testing MongoDB connection...');
-        // Set a timeout for the MongoDB connection test
-        const connectionTest = Promise.race([
-          // Just check if the connection is alive
-          (async () => {
-            try {
-              // Use a simple ping operation to check connection
-              await mongoStorage.ping();
-              return true;
-            } catch (e) {
-              console.error('Error checking MongoDB connection:', e);
-              throw e;
-            }
-          })(),
-          new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error('MongoDB connection test timed out')), 5000);
-          })
-        ]);
-        
-        try {
-          await connectionTest;
-          console.log('MongoDB connection confirmed working, switching to MongoDB as primary storage');
-          
-          // If MongoDB is working, create a new wrapper with MongoDB as primary
-          const newWrapper = new StorageWrapper(mongoStorage, memStorage);
-          
-          // Copy all properties from the new wrapper to the existing wrapper
-          Object.assign(storageWrapper, newWrapper);
-          console.log('Successfully switched to MongoDB as primary storage');
-        } catch (timeoutError) {
-          console.error('MongoDB connection test failed with timeout, continuing with in-memory storage:', timeoutError);
-        }
-      } catch (error) {
-        console.error('MongoDB connection test failed, continuing with in-memory storage:', error);
+function createPrimaryStorage(): PrimaryStorage {
+  switch (STORAGE_DRIVER) {
+    case 'mongodb':
+      return new MongoDBStorage(MONGODB_URI, MONGODB_DB_NAME);
+    case 'postgres':
+      if (!process.env.DATABASE_URL) {
+        throw new Error('DATABASE_URL must be set when STORAGE_DRIVER is "postgres"');
       }
-    }
-  }, 2000); // Increased delay to 2 seconds to give MongoDB more time to initialize
+      return new PostgresStorage(process.env.DATABASE_URL);
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${STORAGE_DRIVER}", expected "mongodb" or "postgres"`);
+  }
+}
+
+// Initialize storage
+const fallbackStorage = new JournalStorage(FALLBACK_JOURNAL_PATH);
+let primaryStorage: PrimaryStorage | null = null;
+let primaryError: unknown = null;
+
+try {
+  console.log(`Creating ${STORAGE_DRIVER} storage instance in the background...`);
+  primaryStorage = createPrimaryStorage();
 } catch (error) {
-  console.error('Error creating MongoDB storage:', error);
+  console.error(`Error creating ${STORAGE_DRIVER} storage:`, error);
+  primaryError = error;
+}
+
+const storageWrapper = new StorageWrapper(STORAGE_DRIVER, primaryStorage, fallbackStorage);
+if (primaryError) {
+  storageWrapper.recordFailure(primaryError);
 }
+storageWrapper.startHealthChecks(FIRST_HEALTH_CHECK_DELAY_MS, HEALTH_CHECK_INTERVAL_MS);
 
 // Export the wrapped storage
 export { storageWrapper as storage };
@@ -0,0 +1,24 @@
+// A database operation that failed because the database could not be reached or
+// did not answer in time, as opposed to an error about the operation itself such
+// as a duplicate key. Only these move the app onto the fallback journal.
+export class StorageUnavailableError extends Error {
+  // Whether the operation may still have been applied, e.g. when the connection
+  // dropped or timed out after the request was sent. Such a write must not be
+  // repeated on the journal, or replaying it later would apply it twice.
+  readonly mayHaveApplied: boolean;
+
+  constructor(message: string, mayHaveApplied: boolean, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'StorageUnavailableError';
+    this.mayHaveApplied = mayHaveApplied;
+  }
+}
+
+// The database answered, but its schema or documents could not be brought up to
+// date for this version of the app. It is not used until the cause is fixed.
+export class MigrationError extends Error {
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+    this.name = 'MigrationError';
+  }
+}
@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from '../csv';
+
+describe('toCsv', () => {
+  it('quotes fields containing separators, quotes or line breaks', () => {
+    assert.equal(toCsv([['a', 'b,c'], ['say "hi"', 'two\nlines']]), 'a,"b,c"\r\n"say ""hi""","two\nlines"\r\n');
+  });
+
+  it('keeps spreadsheet apps from running fields as formulas', () => {
+    assert.equal(toCsv([['=HYPERLINK("http://x")', '+1', '-1', '@SUM(A1)']]), `"'=HYPERLINK(""http://x"")",'+1,'-1,'@SUM(A1)\r\n`);
+    assert.equal(toCsv([['\tcmd', '\rcmd']]), `'\tcmd,"'\rcmd"\r\n`);
+    assert.equal(toCsv([['Asha Rao', '5000', '2026-05-10']]), 'Asha Rao,5000,2026-05-10\r\n');
+  });
+});
@@ -0,0 +1,307 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { JournalStorage } from '../fallbackJournal';
+import { MemStorage } from '../memStorage';
+import { StorageUnavailableError } from '../storageErrors';
+import type { StorageWrapper } from '../storage';
+import type { NewDonation } from '../../shared/schema';
+import { describeStorageContract, donationInput } from './storageContract';
+
+let directory: string;
+
+describeStorageContract('JournalStorage', {
+  setup: async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'journal-contract-'));
+  },
+  teardown: async () => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  },
+  create: async () => new JournalStorage(fs.mkdtempSync(path.join(directory, 'test-')) + '/journal.jsonl'),
+  purposesReadOnly: 'The journal only serves the catalog copied from the database'
+});
+
+describe('JournalStorage snapshot', () => {
+  let journalPath: string;
+  let primary: MemStorage;
+
+  beforeEach(async () => {
+    journalPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'journal-snapshot-')), 'journal.jsonl');
+    primary = new MemStorage();
+    await primary.createUser({ username: 'admin@example.com', password: 'hash', fullName: 'Admin', role: 'admin' });
+    await primary.saveSetting('receiptSeries', { template: '{SEQ}' }, 'admin@example.com');
+    await primary.nextSequence('receipts', async () => 1000);
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(journalPath), { recursive: true, force: true });
+  });
+
+  it('serves users, settings and counters copied from the database', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    const admin = await primary.getUserByUsername('admin@example.com');
+    assert.equal((await journal.getUser(admin!.id))?.username, 'admin@example.com');
+    assert.deepEqual((await journal.getSetting('receiptSeries'))?.value, { template: '{SEQ}' });
+    assert.equal(await journal.nextSequence('receipts', async () => 0), 1002);
+    assert.equal(journal.pendingWrites, 0);
+  });
+
+  it('gives new users ids the database does not use', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    const created = await journal.createUser({ username: 'new@example.com', password: 'hash', fullName: 'New' });
+    const admin = await primary.getUserByUsername('admin@example.com');
+    assert.notEqual(created.id, admin!.id);
+  });
+
+  it('keeps the snapshot across a restart', async () => {
+    await new JournalStorage(journalPath).takeSnapshot(primary);
+
+    const restarted = new JournalStorage(journalPath);
+    assert.ok(await restarted.getUserByUsername('admin@example.com'));
+    assert.equal(await restarted.nextSequence('receipts', async () => 0), 1002);
+  });
+
+  it('continues after counter values the database handed out since the snapshot', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    journal.noteSequence('receipts', await primary.nextSequence('receipts', async () => 0));
+    assert.equal(await journal.nextSequence('receipts', async () => 0), 1003);
+  });
+
+  it('leaves the snapshot alone while journaled writes are waiting', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+    await journal.createUser({ username: 'new@example.com', password: 'hash', fullName: 'New' });
+
+    await primary.createUser({ username: 'later@example.com', password: 'hash', fullName: 'Later' });
+    await journal.takeSnapshot(primary);
+
+    assert.ok(await journal.getUserByUsername('new@example.com'));
+    assert.equal(await journal.getUserByUsername('later@example.com'), undefined);
+  });
+
+  it('refuses to change settings', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    await assert.rejects(journal.saveSetting('receiptSeries', { template: 'X-{SEQ}' }, 'admin@example.com'), StorageUnavailableError);
+    assert.deepEqual((await journal.getSetting('receiptSeries'))?.value, { template: '{SEQ}' });
+  });
+  it('serves the purposes catalog but refuses to change it', async () => {
+    const purpose = await primary.createPurpose({
+      name: 'Education Fund', code: 'EDU', activeFrom: '', activeUntil: '', targetAmount: 0, eligible80G: true
+    });
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    assert.deepEqual(await journal.getPurposes(), [purpose]);
+    await assert.rejects(journal.updatePurpose(purpose.id, { ...purpose, name: 'Schools' }), StorageUnavailableError);
+    await assert.rejects(journal.createPurpose({ ...purpose, code: 'NEW' }), StorageUnavailableError);
+    assert.deepEqual(await journal.getPurposes(), [purpose]);
+  });
+});
+
+describe('JournalStorage replay', () => {
+  let journalPath: string;
+  let primary: MemStorage;
+
+  const revision = (donationId: string) => ({
+    donationId,
+    changedBy: 'admin@example.com',
+    changedAt: new Date(),
+    reason: 'Typo',
+    changes: [{ field: 'amount', oldValue: 5000, newValue: 6000 }]
+  });
+
+  beforeEach(async () => {
+    journalPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'journal-replay-')), 'journal.jsonl');
+    primary = new MemStorage();
+    await primary.createUser({ username: 'admin@example.com', password: 'hash', fullName: 'Admin', role: 'admin' });
+    const donor = await primary.createDonor({
+      name: 'Asha Rao', contactNumber: '9876543210', address: '12 MG Road, Pune', email: 'asha@example.com', panNumber: 'ABCDE1234F'
+    });
+    await primary.createDonation(donationInput('1001', { donorId: donor.id }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(path.dirname(journalPath), { recursive: true, force: true });
+  });
+
+  it('never hands out an id the database already uses', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    const user = await journal.createUser({ username: 'new@example.com', password: 'hash', fullName: 'New' });
+    const donor = await journal.createDonor({
+      name: 'Ravi Kumar', contactNumber: '9123456780', address: 'Pune', email: 'ravi@example.com', panNumber: null
+    });
+    const donation = await journal.createDonation(donationInput('1002', { donorId: donor.id }));
+
+    assert.equal(await primary.getUser(user.id), undefined);
+    assert.equal(await primary.getDonor(donor.id), undefined);
+    assert.equal(await primary.getDonation(donation.id), undefined);
+  });
+
+  it('matches donations to donors copied from the database', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    const [existing] = await primary.getDonors();
+    assert.deepEqual((await journal.findDonors({ panNumber: 'ABCDE1234F' })).map(donor => donor.id), [existing.id]);
+  });
+
+  it('copies journaled writes into the database under the ids it assigns', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+    const [existingDonor] = await primary.getDonors();
+
+    const donor = await journal.createDonor({
+      name: 'Ravi Kumar', contactNumber: '9123456780', address: 'Pune', email: 'ravi@example.com', panNumber: null
+    });
+    const cancelled = await journal.createDonation(donationInput('1002', { donorId: donor.id }));
+    const replacement = await journal.createDonation(donationInput('1003', { donorId: existingDonor.id }));
+    await journal.reviseDonation(replacement.id, { amount: 6000 }, revision(replacement.id));
+    await journal.cancelDonation(cancelled.id, {
+      cancelledAt: new Date(), cancelledBy: 'admin@example.com', cancellationReason: 'Reissued', replacementDonationId: replacement.id
+    });
+    await journal.appendAuditLog({
+      action: 'donation.cancel', actor: 'admin@example.com', targetType: 'donation', targetId: cancelled.id,
+      before: null, after: null, ip: null, createdAt: new Date()
+    });
+
+    assert.deepEqual(await journal.replayInto(primary), { replayed: 6, conflicts: 0 });
+    assert.equal(journal.pendingWrites, 0);
+
+    const copiedDonor = (await primary.findDonors({ email: 'ravi@example.com' }))[0];
+    const copiedCancelled = await primary.getDonationByReceiptNumber('1002');
+    const copiedReplacement = await primary.getDonationByReceiptNumber('1003');
+    assert.equal(copiedCancelled?.donorId, copiedDonor.id);
+    assert.equal(copiedCancelled?.replacementDonationId, copiedReplacement?.id);
+    assert.equal(copiedReplacement?.donorId, existingDonor.id);
+    assert.equal(copiedReplacement?.amount, 6000);
+    assert.equal((await primary.getDonationRevisions(copiedReplacement!.id)).length, 1);
+
+    const audit = await primary.queryAuditLog({ page: 1, pageSize: 10 });
+    assert.equal(audit.items[0].targetId, copiedCancelled?.id);
+  });
+
+  it('sets aside a donation whose receipt number the database has used since', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    const donation = await journal.createDonation(donationInput('1002'));
+    await journal.reviseDonation(donation.id, { amount: 6000 }, revision(donation.id));
+    await primary.createDonation(donationInput('1002', { donorName: 'Entered Elsewhere' }));
+
+    assert.deepEqual(await journal.replayInto(primary), { replayed: 0, conflicts: 2 });
+
+    const stored = await primary.getDonationByReceiptNumber('1002');
+    assert.equal(stored?.donorName, 'Entered Elsewhere');
+    assert.equal(stored?.amount, 5000);
+    assert.deepEqual(await primary.getDonationRevisions(stored!.id), []);
+    const conflicts = fs.readFileSync(journal.conflictsPath, 'utf8').trim().split('\n');
+    assert.deepEqual(conflicts.map(line => JSON.parse(line).op), ['createDonation', 'reviseDonation']);
+  });
+
+  it('resumes an interrupted replay after the last write that reached the database', async () => {
+    const journal = new JournalStorage(journalPath);
+    await journal.takeSnapshot(primary);
+
+    await journal.createDonation(donationInput('1002'));
+    const second = await journal.createDonation(donationInput('1003'));
+    await journal.reviseDonation(second.id, { amount: 6000 }, revision(second.id));
+
+    // The connection drops before the second donation is sent
+    const createDonation = primary.createDonation.bind(primary);
+    let calls = 0;
+    primary.createDonation = async (donation: NewDonation) => {
+      if (++calls === 2) throw new StorageUnavailableError('Connection refused', false);
+      return createDonation(donation);
+    };
+    await assert.rejects(journal.replayInto(primary), StorageUnavailableError);
+    assert.equal(journal.pendingWrites, 2);
+
+    primary.createDonation = createDonation;
+    const restarted = new JournalStorage(journalPath);
+    assert.deepEqual(await restarted.replayInto(primary), { replayed: 2, conflicts: 0 });
+
+    const receiptNumbers = (await primary.getDonations()).map(donation => donation.receiptNumber);
+    assert.deepEqual(receiptNumbers, ['1001', '1002', '1003']);
+    assert.equal((await primary.getDonationByReceiptNumber('1003'))?.amount, 6000);
+    assert.equal(restarted.pendingWrites, 0);
+  });
+});
+
+// A database that can be made unreachable
+class FlakyDatabase extends MemStorage {
+  failure: StorageUnavailableError | null = null;
+
+  async ping(): Promise<boolean> {
+    return this.failure === null;
+  }
+
+  unavailableError(error: unknown): StorageUnavailableError | undefined {
+    return error instanceof StorageUnavailableError ? error : undefined;
+  }
+
+  async createDonation(donation: NewDonation) {
+    if (this.failure) throw this.failure;
+    return super.createDonation(donation);
+  }
+}
+
+describe('StorageWrapper failover', () => {
+  let directory: string;
+  let Wrapper: typeof StorageWrapper;
+  let database: FlakyDatabase;
+  let journal: JournalStorage;
+  let storage: StorageWrapper;
+
+  before(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-wrapper-'));
+    // The module also sets up the app's own store; keep it off any real database and journal
+    process.env.STORAGE_DRIVER = 'postgres';
+    delete process.env.DATABASE_URL;
+    process.env.FALLBACK_JOURNAL_PATH = path.join(directory, 'app', 'journal.jsonl');
+    ({ StorageWrapper: Wrapper } = await import('../storage'));
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    database = new FlakyDatabase();
+    journal = new JournalStorage(fs.mkdtempSync(path.join(directory, 'test-')) + '/journal.jsonl');
+    storage = new Wrapper('test', database, journal);
+  });
+
+  it('does not repeat on the journal a write that may have reached the database', async () => {
+    database.failure = new StorageUnavailableError('Connection lost', true);
+
+    await assert.rejects(storage.createDonation(donationInput('1001')), StorageUnavailableError);
+    assert.equal(storage.getHealth().usingFallback, true);
+    assert.equal(journal.pendingWrites, 0);
+  });
+
+  it('journals a write that never reached the database and replays it once the database is back', async () => {
+    database.failure = new StorageUnavailableError('Connection refused', false);
+
+    const donation = await storage.createDonation(donationInput('1001'));
+    assert.equal((await storage.getDonation(donation.id))?.receiptNumber, '1001');
+    assert.equal(journal.pendingWrites, 1);
+
+    database.failure = null;
+    await storage.checkPrimary();
+    assert.equal(storage.getHealth().usingFallback, false);
+    assert.ok(await database.getDonationByReceiptNumber('1001'));
+    assert.equal(journal.pendingWrites, 0);
+  });
+});
@@ -0,0 +1,6 @@
+import { MemStorage } from '../memStorage';
+import { describeStorageContract } from './storageContract';
+
+describeStorageContract('MemStorage', {
+  create: async () => new MemStorage()
+});
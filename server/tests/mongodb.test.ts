@@ -0,0 +1,20 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { MongoDBStorage } from '../mongodb';
+import { describeStorageContract } from './storageContract';
+
+// An in-process mongod; each test gets a database of its own
+let server: MongoMemoryServer;
+let databaseCount = 0;
+
+describeStorageContract('MongoDBStorage', {
+  setup: async () => {
+    server = await MongoMemoryServer.create();
+  },
+  teardown: async () => {
+    await server.stop();
+  },
+  create: async () => new MongoDBStorage(server.getUri(), `contract_${++databaseCount}`),
+  dispose: async (storage) => {
+    await (storage as MongoDBStorage).close();
+  }
+});
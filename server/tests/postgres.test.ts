@@ -0,0 +1,24 @@
+import pg from 'pg';
+import { PostgresStorage } from '../postgres';
+import { describeStorageContract } from './storageContract';
+
+// Every test wipes this database, so never point it at real data
+const TEST_DATABASE_URL = process.env.TEST_DATABASE_URL;
+
+describeStorageContract('PostgresStorage', {
+  skip: TEST_DATABASE_URL ? undefined : 'TEST_DATABASE_URL is not set',
+  create: async () => {
+    const client = new pg.Client({ connectionString: TEST_DATABASE_URL });
+    await client.connect();
+    try {
+      // Drop the migration history too, so the storage migrates the empty schema again
+      await client.query('DROP SCHEMA IF EXISTS public CASCADE; DROP SCHEMA IF EXISTS drizzle CASCADE; CREATE SCHEMA public');
+    } finally {
+      await client.end();
+    }
+    return new PostgresStorage(TEST_DATABASE_URL!);
+  },
+  dispose: async (storage) => {
+    await (storage as PostgresStorage).close();
+  }
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  defaultReceiptSeriesConfig,
+  financialYear,
+  formatReceiptNumber,
+  parseReceiptSequence,
+  receiptSeriesKey,
+  type ReceiptSeriesConfig
+} from '../../shared/receiptSeries';
+
+const donation = { date: '2026-05-10', paymentMode: 'cash', purpose: 'Education Fund' };
+
+const yearly: ReceiptSeriesConfig = {
+  template: 'AAS/{FY}/{MODE}/{SEQ}',
+  padding: 5,
+  startNumber: 1,
+  resetRule: 'financialYear',
+  separateBy: 'paymentMode'
+};
+
+describe('financialYear', () => {
+  it('starts the year in April', () => {
+    assert.equal(financialYear('2026-04-01'), '2026-27');
+    assert.equal(financialYear('2027-03-31'), '2026-27');
+    assert.equal(financialYear('2026-03-31'), '2025-26');
+  });
+
+  it('wraps the two-digit end year at the turn of the century', () => {
+    assert.equal(financialYear('2099-12-01'), '2099-00');
+  });
+});
+
+describe('formatReceiptNumber', () => {
+  it('renders the default plain numbering', () => {
+    assert.equal(formatReceiptNumber(defaultReceiptSeriesConfig, donation, 1001), '1001');
+  });
+
+  it('fills in the year and payment mode and pads the running number', () => {
+    assert.equal(formatReceiptNumber(yearly, donation, 42), 'AAS/2026-27/CASH/00042');
+  });
+
+  it('keeps running numbers longer than the padding', () => {
+    assert.equal(formatReceiptNumber({ ...yearly, padding: 2 }, donation, 12345), 'AAS/2026-27/CASH/12345');
+  });
+
+  it('reduces a free-text purpose to letters and digits', () => {
+    const config = { ...yearly, template: '{PURPOSE}-{SEQ}', separateBy: 'purpose' as const, resetRule: 'never' as const };
+    assert.equal(formatReceiptNumber(config, donation, 7), 'EDUCATIONFUN-00007');
+    assert.equal(formatReceiptNumber(config, { ...donation, purpose: '—' }, 7), 'GENERAL-00007');
+  });
+
+  it('uses the code of a catalog purpose', () => {
+    const config = { ...yearly, template: '{PURPOSE}-{SEQ}', separateBy: 'purpose' as const, resetRule: 'never' as const };
+    assert.equal(formatReceiptNumber(config, { ...donation, purposeCode: 'EDU' }, 7), 'EDU-00007');
+    assert.equal(parseReceiptSequence(config, { ...donation, purposeCode: 'EDU' }, 'EDU-00007'), 7);
+    assert.notEqual(receiptSeriesKey(config, { ...donation, purposeCode: 'EDU' }), receiptSeriesKey(config, donation));
+  });
+});
+
+describe('parseReceiptSequence', () => {
+  it('reads the running number back from a number in the same series', () => {
+    assert.equal(parseReceiptSequence(yearly, donation, 'AAS/2026-27/CASH/00042'), 42);
+    assert.equal(parseReceiptSequence(defaultReceiptSeriesConfig, donation, '1001'), 1001);
+  });
+
+  it('ignores numbers from other series', () => {
+    assert.equal(parseReceiptSequence(yearly, donation, 'AAS/2025-26/CASH/00042'), undefined);
+    assert.equal(parseReceiptSequence(yearly, donation, 'AAS/2026-27/ONLINE/00042'), undefined);
+    assert.equal(parseReceiptSequence(yearly, donation, 'AAS/2026-27/CASH/'), undefined);
+  });
+
+  it('treats template characters literally', () => {
+    const config = { ...defaultReceiptSeriesConfig, template: 'R.{SEQ}' };
+    assert.equal(parseReceiptSequence(config, donation, 'R.7'), 7);
+    assert.equal(parseReceiptSequence(config, donation, 'RX7'), undefined);
+  });
+});
+
+describe('receiptSeriesKey', () => {
+  it('separates counters by year and partition only when configured', () => {
+    const online = { ...donation, paymentMode: 'online' };
+    const nextYear = { ...donation, date: '2027-04-01' };
+
+    assert.notEqual(receiptSeriesKey(yearly, donation), receiptSeriesKey(yearly, online));
+    assert.notEqual(receiptSeriesKey(yearly, donation), receiptSeriesKey(yearly, nextYear));
+    assert.equal(receiptSeriesKey(defaultReceiptSeriesConfig, online), receiptSeriesKey(defaultReceiptSeriesConfig, nextYear));
+  });
+});
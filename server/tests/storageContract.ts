@@ -0,0 +1,404 @@
+import { after, afterEach, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { IStorage } from '../storage';
+import type { NewDonation } from '../../shared/schema';
+import { donationQuerySchema } from '../../shared/donationQuery';
+
+// Behaviour every IStorage implementation must share, so the routes work the
+// same whichever backend is configured. Each backend test file calls
+// describeStorageContract with a way to create an empty store.
+export interface ContractBackend {
+  // Why the suite cannot run here, e.g. when its database is not configured
+  skip?: string;
+  // Why the store does not accept changes to the purposes catalog, if it does not
+  purposesReadOnly?: string;
+  // Start anything shared by all tests, such as a database server
+  setup?(): Promise<void>;
+  teardown?(): Promise<void>;
+  // An empty store for a single test
+  create(): Promise<IStorage>;
+  dispose?(storage: IStorage): Promise<void>;
+}
+
+export function donationInput(receiptNumber: string, overrides: Partial<NewDonation> = {}): NewDonation {
+  return {
+    receiptNumber,
+    date: '2024-04-01',
+    donorName: 'Asha Rao',
+    contactNumber: '9876543210',
+    address: '12 MG Road, Pune',
+    email: 'asha@example.com',
+    panNumber: 'ABCDE1234F',
+    paymentMode: 'Cash',
+    amount: 5000,
+    amountInWords: 'Five Thousand Rupees Only',
+    purpose: 'General Donation',
+    createdBy: 'admin@example.com',
+    ...overrides
+  };
+}
+
+export function describeStorageContract(name: string, backend: ContractBackend): void {
+  describe(`${name} storage contract`, { skip: backend.skip }, () => {
+    let storage: IStorage;
+
+    before(async () => {
+      await backend.setup?.();
+    });
+
+    after(async () => {
+      await backend.teardown?.();
+    });
+
+    beforeEach(async () => {
+      storage = await backend.create();
+    });
+
+    afterEach(async () => {
+      await backend.dispose?.(storage);
+    });
+
+    describe('users', () => {
+      it('creates active users with the staff role by default', async () => {
+        const user = await storage.createUser({ username: 'staff@example.com', password: 'hash', fullName: 'Staff Member' });
+
+        assert.equal(user.username, 'staff@example.com');
+        assert.equal(user.fullName, 'Staff Member');
+        assert.equal(user.role, 'staff');
+        assert.equal(user.isActive, true);
+        assert.ok(user.createdAt instanceof Date);
+      });
+
+      it('finds users by username and lists them all', async () => {
+        await storage.createUser({ username: 'a@example.com', password: 'hash', fullName: 'A', role: 'admin' });
+        await storage.createUser({ username: 'b@example.com', password: 'hash', fullName: 'B' });
+
+        assert.equal((await storage.getUserByUsername('a@example.com'))?.role, 'admin');
+        assert.equal(await storage.getUserByUsername('missing@example.com'), undefined);
+        assert.deepEqual((await storage.getUsers()).map(user => user.username).sort(), ['a@example.com', 'b@example.com']);
+      });
+
+      it('rejects a username that is already taken', async () => {
+        await storage.createUser({ username: 'taken@example.com', password: 'hash', fullName: 'First' });
+
+        await assert.rejects(storage.createUser({ username: 'taken@example.com', password: 'hash', fullName: 'Second' }));
+      });
+
+      it('updates status and password', async () => {
+        const user = await storage.createUser({ username: 'u@example.com', password: 'old', fullName: 'U' });
+
+        const deactivated = await storage.updateUserStatus(user.id, false);
+        assert.equal(deactivated?.isActive, false);
+        assert.equal((await storage.getUser(user.id))?.isActive, false);
+
+        const updated = await storage.updateUserPassword(user.id, 'new');
+        assert.equal(updated?.password, 'new');
+        assert.equal((await storage.getUser(user.id))?.password, 'new');
+      });
+
+      it('deletes users', async () => {
+        const user = await storage.createUser({ username: 'gone@example.com', password: 'hash', fullName: 'Gone' });
+
+        await storage.deleteUser(user.id);
+        assert.equal(await storage.getUser(user.id), undefined);
+        assert.deepEqual(await storage.getUsers(), []);
+      });
+    });
+
+    describe('record ids', () => {
+      it('hands out ids as strings', async () => {
+        const user = await storage.createUser({ username: 'str@example.com', password: 'hash', fullName: 'Str' });
+        const donation = await storage.createDonation(donationInput('1'));
+
+        assert.equal(typeof user.id, 'string');
+        assert.equal(typeof donation.id, 'string');
+        assert.equal(typeof (await storage.getUsers())[0].id, 'string');
+        assert.equal(typeof (await storage.getDonations())[0].id, 'string');
+      });
+
+      it('links revisions and replacements by donation id', async () => {
+        const donation = await storage.createDonation(donationInput('1'));
+        const replacement = await storage.createDonation(donationInput('2'));
+        await storage.reviseDonation(donation.id, { amount: 6000 }, {
+          donationId: donation.id,
+          changedBy: 'admin@example.com',
+          changedAt: new Date(),
+          reason: null,
+          changes: [{ field: 'amount', oldValue: 5000, newValue: 6000 }]
+        });
+        await storage.cancelDonation(donation.id, {
+          cancelledAt: new Date(),
+          cancelledBy: 'admin@example.com',
+          cancellationReason: 'Reissued',
+          replacementDonationId: replacement.id
+        });
+
+        assert.equal((await storage.getDonationRevisions(donation.id))[0].donationId, donation.id);
+        assert.equal((await storage.getDonation(donation.id))?.replacementDonationId, replacement.id);
+      });
+
+      it('treats unknown and malformed donation ids as missing', async () => {
+        for (const id of ['missing', '999999', '99999999999', '']) {
+          assert.equal(await storage.getDonation(id), undefined);
+          assert.deepEqual(await storage.getDonationRevisions(id), []);
+          assert.equal(await storage.cancelDonation(id, {
+            cancelledAt: new Date(),
+            cancelledBy: 'admin@example.com',
+            cancellationReason: 'None',
+            replacementDonationId: null
+          }), undefined);
+        }
+      });
+
+      it('finds users by the id they were given', async () => {
+        const user = await storage.createUser({ username: 'id@example.com', password: 'hash', fullName: 'Id' });
+        const id = user.id;
+
+        assert.equal((await storage.getUser(id))?.username, 'id@example.com');
+        assert.equal((await storage.updateUserStatus(id, false))?.isActive, false);
+        assert.equal((await storage.updateUserPassword(id, 'new'))?.password, 'new');
+        await storage.deleteUser(id);
+        assert.equal(await storage.getUser(id), undefined);
+      });
+
+      it('returns the same id from every lookup', async () => {
+        const user = await storage.createUser({ username: 'same@example.com', password: 'hash', fullName: 'Same' });
+
+        assert.equal((await storage.getUser(user.id))?.id, user.id);
+        assert.equal((await storage.getUserByUsername('same@example.com'))?.id, user.id);
+        assert.equal((await storage.getUsers())[0].id, user.id);
+      });
+
+      it('treats unknown and malformed ids as missing', async () => {
+        const user = await storage.createUser({ username: 'old@example.com', password: 'hash', fullName: 'Old' });
+        await storage.deleteUser(user.id);
+
+        for (const id of [user.id, 'not-an-id', '99999999999', '']) {
+          assert.equal(await storage.getUser(id), undefined);
+          assert.equal(await storage.updateUserStatus(id, false), undefined);
+          assert.equal(await storage.updateUserPassword(id, 'new'), undefined);
+          await storage.deleteUser(id);
+        }
+      });
+
+      it('links donations to donors by donor id', async () => {
+        const donor = await storage.createDonor({
+          name: 'Asha Rao', contactNumber: '9876543210', address: '12 MG Road, Pune', email: 'asha@example.com', panNumber: 'ABCDE1234F'
+        });
+        const donation = await storage.createDonation(donationInput('1', { donorId: donor.id }));
+
+        assert.equal(typeof donor.id, 'string');
+        assert.equal((await storage.getDonor(donor.id))?.id, donor.id);
+        assert.equal(donation.donorId, donor.id);
+        assert.deepEqual((await storage.getDonationsByDonor(donor.id)).map(d => d.id), [donation.id]);
+
+        for (const id of ['missing', '99999999999', '']) {
+          assert.equal(await storage.getDonor(id), undefined);
+          assert.deepEqual(await storage.getDonationsByDonor(id), []);
+        }
+      });
+    });
+
+    describe('donations', () => {
+      it('stores donations with empty optional fields set to null', async () => {
+        const donation = await storage.createDonation(donationInput('1', { panNumber: null }));
+
+        assert.equal(donation.receiptNumber, '1');
+        assert.equal(donation.amount, 5000);
+        assert.equal(donation.panNumber, null);
+        assert.equal(donation.instrumentNumber, null);
+        assert.equal(donation.donorId, null);
+        assert.equal(donation.revisedAt, null);
+        assert.equal(donation.cancelledAt, null);
+        assert.ok(donation.createdAt instanceof Date);
+      });
+
+      it('finds donations by id and by receipt number', async () => {
+        const first = await storage.createDonation(donationInput('1'));
+        const second = await storage.createDonation(donationInput('2', { donorName: 'Ravi Kumar' }));
+
+        assert.notEqual(first.id, second.id);
+        assert.equal((await storage.getDonation(second.id))?.donorName, 'Ravi Kumar');
+        assert.equal((await storage.getDonationByReceiptNumber('1'))?.id, first.id);
+        assert.equal(await storage.getDonationByReceiptNumber('3'), undefined);
+        assert.equal(await storage.getDonation('missing'), undefined);
+        assert.equal((await storage.getDonations()).length, 2);
+      });
+
+      it('matches the creator of donations exactly', async () => {
+        await storage.createDonation(donationInput('1', { createdBy: 'ravi@example.com' }));
+        await storage.createDonation(donationInput('2', { createdBy: 'Ravi@example.com' }));
+        await storage.createDonation(donationInput('3', { createdBy: null }));
+
+        const created = async (createdBy: string) =>
+          (await storage.queryDonations(donationQuerySchema.parse({ createdBy }))).items.map(donation => donation.receiptNumber);
+        assert.deepEqual(await created('ravi@example.com'), ['1']);
+        assert.deepEqual(await created('Ravi@example.com'), ['2']);
+        assert.deepEqual(await created('RAVI@EXAMPLE.COM'), []);
+      });
+
+      it('rejects a receipt number that is already in use', async () => {
+        await storage.createDonation(donationInput('7'));
+
+        await assert.rejects(storage.createDonation(donationInput('7')));
+        assert.equal((await storage.getDonations()).length, 1);
+      });
+
+      it('records revisions, oldest first', async () => {
+        const donation = await storage.createDonation(donationInput('1'));
+        const changedAt = new Date('2024-05-01T10:00:00Z');
+
+        const revised = await storage.reviseDonation(donation.id, { amount: 6000 }, {
+          donationId: donation.id,
+          changedBy: 'admin@example.com',
+          changedAt,
+          reason: 'Typo',
+          changes: [{ field: 'amount', oldValue: 5000, newValue: 6000 }]
+        });
+        await storage.reviseDonation(donation.id, { purpose: 'Education' }, {
+          donationId: donation.id,
+          changedBy: 'admin@example.com',
+          changedAt: new Date('2024-05-02T10:00:00Z'),
+          reason: null,
+          changes: [{ field: 'purpose', oldValue: 'General Donation', newValue: 'Education' }]
+        });
+
+        assert.equal(revised?.amount, 6000);
+        assert.equal(revised?.revisedBy, 'admin@example.com');
+        assert.equal(revised?.revisedAt?.getTime(), changedAt.getTime());
+        assert.equal((await storage.getDonation(donation.id))?.purpose, 'Education');
+        assert.deepEqual((await storage.getDonationRevisions(donation.id)).map(revision => revision.reason), ['Typo', null]);
+        assert.equal(await storage.reviseDonation('missing', { amount: 1 }, {
+          donationId: 'missing',
+          changedBy: 'admin@example.com',
+          changedAt,
+          reason: null,
+          changes: []
+        }), undefined);
+      });
+
+      it('keeps cancelled donations', async () => {
+        const donation = await storage.createDonation(donationInput('1'));
+        const replacement = await storage.createDonation(donationInput('2'));
+        const cancelledAt = new Date('2024-05-01T10:00:00Z');
+
+        const cancelled = await storage.cancelDonation(donation.id, {
+          cancelledAt,
+          cancelledBy: 'admin@example.com',
+          cancellationReason: 'Wrong donor',
+          replacementDonationId: replacement.id
+        });
+
+        assert.equal(cancelled?.cancellationReason, 'Wrong donor');
+        const stored = await storage.getDonation(donation.id);
+        assert.equal(stored?.cancelledAt?.getTime(), cancelledAt.getTime());
+        assert.equal(stored?.replacementDonationId, replacement.id);
+        assert.equal(stored?.receiptNumber, '1');
+      });
+
+      it('stores the catalog purpose of a donation', async () => {
+        const linked = await storage.createDonation(donationInput('1', { purposeId: 'education' }));
+        const unlinked = await storage.createDonation(donationInput('2'));
+
+        assert.equal(linked.purposeId, 'education');
+        assert.equal((await storage.getDonation(linked.id))?.purposeId, 'education');
+        assert.equal((await storage.getDonation(unlinked.id))?.purposeId, null);
+      });
+
+      it('links matching free-text purposes to a catalog entry', async () => {
+        const matching = await storage.createDonation(donationInput('1', { purpose: ' general donation ' }));
+        const other = await storage.createDonation(donationInput('2', { purpose: 'Education' }));
+        const alreadyLinked = await storage.createDonation(donationInput('3', { purposeId: 'temple' }));
+        const exact = await storage.createDonation(donationInput('4'));
+
+        assert.equal(await storage.assignLegacyPurpose('General Donation', 'general'), 2);
+        assert.equal((await storage.getDonation(matching.id))?.purposeId, 'general');
+        assert.equal((await storage.getDonation(matching.id))?.purpose, ' general donation ');
+        assert.equal((await storage.getDonation(exact.id))?.purposeId, 'general');
+        assert.equal((await storage.getDonation(other.id))?.purposeId, null);
+        assert.equal((await storage.getDonation(alreadyLinked.id))?.purposeId, 'temple');
+        assert.equal(await storage.assignLegacyPurpose('General Donation', 'other'), 0);
+      });
+    });
+
+    describe('purposes', { skip: backend.purposesReadOnly }, () => {
+      const education = { name: 'Education Fund', code: 'EDU', activeFrom: '', activeUntil: '', targetAmount: 0, eligible80G: true };
+
+      it('creates purposes and lists them by name', async () => {
+        const temple = await storage.createPurpose({ ...education, name: 'Temple Renovation', code: 'TEMPLE', targetAmount: 500000 });
+        const created = await storage.createPurpose(education);
+
+        assert.equal(typeof created.id, 'string');
+        assert.notEqual(created.id, temple.id);
+        assert.deepEqual(await storage.getPurposes(), [created, temple]);
+      });
+
+      it('updates a purpose in place', async () => {
+        const created = await storage.createPurpose(education);
+        const other = await storage.createPurpose({ ...education, name: 'Flood Relief', code: 'FLOOD' });
+
+        const updated = await storage.updatePurpose(created.id, { ...education, activeUntil: '2026-03-31', eligible80G: false });
+        assert.deepEqual(updated, { ...education, id: created.id, activeUntil: '2026-03-31', eligible80G: false });
+        assert.deepEqual(await storage.getPurposes(), [updated, other]);
+        assert.equal(await storage.updatePurpose('missing', education), undefined);
+      });
+
+      it('rejects a code that is already in use', async () => {
+        const created = await storage.createPurpose(education);
+        const other = await storage.createPurpose({ ...education, name: 'Flood Relief', code: 'FLOOD' });
+
+        await assert.rejects(storage.createPurpose({ ...education, name: 'Schools' }));
+        await assert.rejects(storage.updatePurpose(other.id, { ...education, name: 'Flood Relief' }));
+        assert.deepEqual(await storage.getPurposes(), [created, other]);
+      });
+    });
+
+    describe('receipt numbering', () => {
+      it('seeds a counter once and then increments it', async () => {
+        let seeded = 0;
+        const seed = async () => {
+          seeded++;
+          return 41;
+        };
+
+        assert.equal(await storage.nextSequence('FY2024-25', seed), 42);
+        assert.equal(await storage.nextSequence('FY2024-25', seed), 43);
+        assert.equal(seeded, 1);
+      });
+
+      it('keeps separate counters per name', async () => {
+        assert.equal(await storage.nextSequence('a', async () => 0), 1);
+        assert.equal(await storage.nextSequence('b', async () => 100), 101);
+        assert.equal(await storage.nextSequence('a', async () => 0), 2);
+      });
+
+      it('never hands out the same number twice', async () => {
+        const numbers = await Promise.all(
+          Array.from({ length: 10 }, () => storage.nextSequence('parallel', async () => 0))
+        );
+
+        assert.deepEqual([...numbers].sort((a, b) => a - b), [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+      });
+
+      it('reports the current value of every counter', async () => {
+        assert.deepEqual(await storage.getSequences(), {});
+
+        await storage.nextSequence('a', async () => 0);
+        await storage.nextSequence('a', async () => 0);
+        await storage.nextSequence('b', async () => 100);
+
+        assert.deepEqual(await storage.getSequences(), { a: 2, b: 101 });
+      });
+
+      it('reports the highest numeric receipt number', async () => {
+        assert.equal(await storage.getLastReceiptNumber(), undefined);
+
+        for (const receiptNumber of ['9', '10', '2']) {
+          await storage.createDonation(donationInput(receiptNumber));
+        }
+
+        assert.equal(await storage.getLastReceiptNumber(), '10');
+      });
+    });
+  });
+}
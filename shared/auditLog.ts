@@ -0,0 +1,72 @@
+import { z } from "zod";
+
+// Every kind of change written to the audit log
+export const auditActions = [
+  "auth.login",
+  "auth.logout",
+  "auth.change_password",
+  "auth.reset_password",
+  "setup.create_admin",
+  "user.create",
+  "user.update_status",
+  "user.unlock",
+  "user.send_password_reset",
+  "user.delete",
+  "donation.create",
+  "donation.update",
+  "donation.cancel",
+  "donation.email",
+  "donor.merge",
+  "donor.link_donations",
+  "settings.update_receipt_series",
+  "settings.update_organization",
+  "purpose.create",
+  "purpose.update",
+  "purpose.map_legacy",
+  "tax.email_10be",
+] as const;
+
+export type AuditAction = typeof auditActions[number];
+
+export const auditActionLabels: Record<AuditAction, string> = {
+  "auth.login": "Signed in",
+  "auth.logout": "Signed out",
+  "auth.change_password": "Changed own password",
+  "auth.reset_password": "Reset password from email link",
+  "setup.create_admin": "Created the first admin account",
+  "user.create": "Created user",
+  "user.update_status": "Changed user status",
+  "user.unlock": "Cleared login lockout",
+  "user.send_password_reset": "Sent password reset link",
+  "user.delete": "Deleted user",
+  "donation.create": "Created donation",
+  "donation.update": "Edited donation",
+  "donation.cancel": "Cancelled receipt",
+  "donation.email": "Emailed receipt",
+  "donor.merge": "Merged donors",
+  "donor.link_donations": "Linked donations to donors",
+  "settings.update_receipt_series": "Changed receipt numbering",
+  "settings.update_organization": "Changed organisation profile",
+  "purpose.create": "Added donation purpose",
+  "purpose.update": "Changed donation purpose",
+  "purpose.map_legacy": "Linked free-text purposes to the catalog",
+  "tax.email_10be": "Emailed Form 10BE certificates",
+};
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD");
+
+// Query parameters accepted by GET /api/audit-log
+export const auditLogQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(50),
+  action: z.enum(auditActions).optional(),
+  actor: z.string().trim().min(1).optional(),
+  targetType: z.string().trim().min(1).optional(),
+  targetId: z.string().trim().min(1).optional(),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  // Case-insensitive match against the actor, target and IP address
+  search: z.string().trim().min(1).optional(),
+});
+
+export type AuditLogQuery = z.infer<typeof auditLogQuerySchema>;
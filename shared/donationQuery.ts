@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+// Filter value selecting donations with no recorded creator; usernames are emails, so it cannot clash
+export const UNASSIGNED_CREATOR = "system";
+
+export const donationSortFields = ["date", "receiptNumber", "donorName", "amount", "paymentMode", "purpose", "createdAt"] as const;
+
+export type DonationSortField = typeof donationSortFields[number];
+
+export const donationStatuses = ["all", "active", "cancelled"] as const;
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD");
+
+// Query parameters accepted by GET /api/donations
+export const donationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+  sortBy: z.enum(donationSortFields).default("date"),
+  sortOrder: z.enum(["asc", "desc"]).default("desc"),
+  dateFrom: isoDate.optional(),
+  dateTo: isoDate.optional(),
+  amountMin: z.coerce.number().min(0).optional(),
+  amountMax: z.coerce.number().min(0).optional(),
+  paymentMode: z.string().trim().min(1).optional(),
+  purpose: z.string().trim().min(1).optional(),
+  // Username of the creator, matched exactly since usernames are case-sensitive
+  createdBy: z.string().trim().min(1).optional(),
+  status: z.enum(donationStatuses).default("all"),
+  // Case-insensitive match against receipt number and donor details
+  search: z.string().trim().min(1).optional(),
+});
+
+export type DonationQuery = z.infer<typeof donationQuerySchema>;
+
+export interface PagedResult<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+// Donation fields matched by the search parameter
+export const donationSearchFields = ["receiptNumber", "donorName", "email", "contactNumber", "panNumber", "address", "purpose"] as const;
+
+// Cancelled receipts keep their number but are left out of totals and tax statements
+export function isCancelled(donation: { cancelledAt?: Date | string | null }): boolean {
+  return Boolean(donation.cancelledAt);
+}
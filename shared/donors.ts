@@ -0,0 +1,23 @@
+// Donors are matched on any of these identifiers, compared in normalised form
+export interface DonorMatchCriteria {
+  panNumber?: string | null;
+  email?: string | null;
+  contactNumber?: string | null;
+}
+
+export function normalizePan(pan: string | null | undefined): string | null {
+  return pan?.trim().toUpperCase() || null;
+}
+
+export function normalizeEmail(email: string | null | undefined): string {
+  return email?.trim().toLowerCase() || "";
+}
+
+// Last ten digits, so "+91 98765-43210" and "9876543210" compare equal
+export function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, "").slice(-10);
+}
+
+export function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
@@ -0,0 +1,13 @@
+import { z } from "zod";
+
+// Identifier of a user or donation. Each storage backend picks the format
+// (counter values, MongoDB ObjectIds); everything else treats it as an opaque
+// string that is only compared, displayed and sent back.
+export type RecordId = string;
+
+export const recordIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, "Invalid ID");
+
+// For checking route parameters before they reach the storage layer
+export function isRecordId(value: unknown): value is RecordId {
+  return recordIdSchema.safeParse(value).success;
+}
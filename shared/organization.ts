@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+// Income-tax PAN: five letters, four digits, one letter
+export const panPattern = /^[A-Z]{5}[0-9]{4}[A-Z]$/;
+
+// Cash donations above this amount are not deductible under Section 80G
+export const CASH_DEDUCTION_LIMIT = 2000;
+
+// Uploaded signature images are stored inline, so keep them small
+export const MAX_SIGNATURE_IMAGE_BYTES = 200 * 1024;
+
+const signatureImageSchema = z.string()
+  .regex(/^data:image\/(png|jpeg);base64,[A-Za-z0-9+/=]+$/, "Signature must be a PNG or JPEG image")
+  .refine(
+    (dataUrl) => Math.floor((dataUrl.length - dataUrl.indexOf(",") - 1) * 3 / 4) <= MAX_SIGNATURE_IMAGE_BYTES,
+    `Signature image cannot exceed ${MAX_SIGNATURE_IMAGE_BYTES / 1024} KB`,
+  );
+
+const optionalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD").or(z.literal(""));
+
+export const organizationSettingsSchema = z.object({
+  name: z.string().trim().min(1, "Organisation name is required"),
+  address: z.string().trim().min(1, "Address is required"),
+  phone: z.string().trim(),
+  email: z.string().trim().email("Invalid email address").or(z.literal("")),
+  registrationNumber: z.string().trim(),
+  pan: z.string().trim().toUpperCase().regex(panPattern, "Invalid PAN").or(z.literal("")),
+  // Unique Registration Number issued under Section 80G, with its validity period
+  registration80G: z.string().trim(),
+  registration80GValidFrom: optionalDate,
+  registration80GValidUntil: optionalDate,
+  eligibilityStatement: z.string().trim(),
+  // Donations above this amount cannot be receipted without the donor's PAN
+  panRequiredAbove: z.coerce.number().min(0, "Threshold cannot be negative"),
+  signatoryName: z.string().trim(),
+  signatoryDesignation: z.string().trim(),
+  signatureImage: signatureImageSchema.nullable(),
+}).refine(
+  (settings) => !settings.registration80GValidFrom || !settings.registration80GValidUntil ||
+    settings.registration80GValidFrom <= settings.registration80GValidUntil,
+  { message: "Validity end date must be after the start date", path: ["registration80GValidUntil"] },
+);
+
+export type OrganizationSettings = z.infer<typeof organizationSettingsSchema>;
+
+// Details printed on receipts before an admin has filled in the organisation profile
+export const defaultOrganizationSettings: OrganizationSettings = {
+  name: "Anant Aman Social Welfare Society",
+  address: "9, Naresh Apartment, Sadhu Vaswani Nagar, Indore (M.P.) 452 001",
+  phone: "777-199-7475",
+  email: "anantaman.sws@gmail.com",
+  registrationNumber: "03/27/03/16480/13",
+  pan: "",
+  registration80G: "",
+  registration80GValidFrom: "",
+  registration80GValidUntil: "",
+  eligibilityStatement: "Donations to this organisation are eligible for deduction under Section 80G of the Income Tax Act, 1961.",
+  panRequiredAbove: 2000,
+  signatoryName: "",
+  signatoryDesignation: "",
+  signatureImage: null,
+};
+
+export function isPanRequired(settings: OrganizationSettings, amount: number): boolean {
+  return amount > settings.panRequiredAbove;
+}
+
+// Problem with the donor PAN for a donation of this amount, if any
+export function donorPanError(settings: OrganizationSettings, amount: number, panNumber: string | null | undefined): string | undefined {
+  const pan = panNumber?.trim().toUpperCase();
+  if (!pan) {
+    return isPanRequired(settings, amount)
+      ? `Donor PAN is required for donations above ₹${settings.panRequiredAbove}`
+      : undefined;
+  }
+  return panPattern.test(pan) ? undefined : "Invalid donor PAN";
+}
@@ -0,0 +1,35 @@
+// Permission model shared by the server (route guards) and the client (route and tab visibility)
+
+export const permissions = [
+  "donations:create",
+  "donations:read:own",
+  "donations:read:all",
+  "donations:edit",
+  "donations:cancel",
+  "users:manage",
+  "settings:manage",
+  "reports:tax",
+  "donors:manage",
+  "audit:read",
+] as const;
+
+export type Permission = typeof permissions[number];
+
+export const roles = ["admin", "staff"] as const;
+
+export type Role = typeof roles[number];
+
+export const rolePermissions: Record<string, readonly Permission[]> = {
+  admin: permissions,
+  staff: ["donations:create", "donations:read:own"],
+  // Older MongoDB records were created with the generic "user" role
+  user: ["donations:create", "donations:read:own"],
+};
+
+export function getPermissions(role: string | null | undefined): readonly Permission[] {
+  return (role && rolePermissions[role]) || [];
+}
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
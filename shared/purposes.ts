@@ -0,0 +1,87 @@
+import { z } from "zod";
+import { recordIdSchema, type RecordId } from "./ids";
+
+// Causes and campaigns donations are collected for, managed by admins so that
+// donations can be grouped by what they were given for. Each donation keeps the
+// id of its catalog entry alongside the name printed on its receipt.
+
+const optionalDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD").or(z.literal(""));
+
+const purposeFields = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name cannot exceed 100 characters"),
+  // Short code for reports and receipt series, e.g. EDU or FLOOD-2026
+  code: z.string().trim().toUpperCase().regex(/^[A-Z0-9-]{1,20}$/, "Code must be up to 20 letters, digits or dashes"),
+  // Donations can only be entered for the purpose between these dates; empty means no limit
+  activeFrom: optionalDate,
+  activeUntil: optionalDate,
+  // Amount the campaign aims to raise; 0 when it has no target
+  targetAmount: z.coerce.number().int("Target must be a whole number").min(0, "Target cannot be negative"),
+  // Whether donations for this purpose qualify for deduction under Section 80G
+  eligible80G: z.boolean(),
+});
+
+export const purposeInputSchema = purposeFields.refine(
+  (purpose) => !purpose.activeFrom || !purpose.activeUntil || purpose.activeFrom <= purpose.activeUntil,
+  { message: "End date must be after the start date", path: ["activeUntil"] },
+);
+
+export type PurposeInput = z.infer<typeof purposeInputSchema>;
+
+export interface Purpose extends PurposeInput {
+  id: RecordId;
+}
+
+export const emptyPurpose: PurposeInput = {
+  name: "",
+  code: "",
+  activeFrom: "",
+  activeUntil: "",
+  targetAmount: 0,
+  eligible80G: true,
+};
+
+// Links every donation entered with a free-text purpose to a catalog entry
+export const mapLegacyPurposeSchema = z.object({
+  purpose: z.string().trim().min(1, "Purpose is required"),
+  purposeId: recordIdSchema,
+});
+
+export type MapLegacyPurposeInput = z.infer<typeof mapLegacyPurposeSchema>;
+
+// A free-text purpose found on donations that are not yet linked to the catalog
+export interface LegacyPurpose {
+  purpose: string;
+  donationCount: number;
+  totalAmount: number;
+}
+
+// Donations received so far for a catalog purpose, for progress towards its target
+export interface PurposeTotal {
+  purposeId: RecordId;
+  donationCount: number;
+  totalAmount: number;
+}
+
+// Whether donations dated `date` (YYYY-MM-DD) may be entered for the purpose
+export function isPurposeActive(purpose: PurposeInput, date: string): boolean {
+  return (!purpose.activeFrom || purpose.activeFrom <= date) &&
+    (!purpose.activeUntil || date <= purpose.activeUntil);
+}
+
+// Donations not linked to the catalog, or linked to an entry since removed, keep the 80G treatment they always had
+export function isEligible80G(purposeId: RecordId | null, purposes: Purpose[]): boolean {
+  return purposes.find(purpose => purpose.id === purposeId)?.eligible80G ?? true;
+}
+
+// Problem with the catalog entry picked for a new donation dated `date`, if any.
+// Free text is only accepted while the catalog has nothing open on that date.
+export function donationPurposeError(purposes: Purpose[], date: string, purposeId: RecordId | null | undefined): string | undefined {
+  if (!purposeId) {
+    return purposes.some(purpose => isPurposeActive(purpose, date))
+      ? "Select a purpose for the donation"
+      : undefined;
+  }
+  const purpose = purposes.find(candidate => candidate.id === purposeId);
+  if (!purpose) return "Unknown purpose";
+  return isPurposeActive(purpose, date) ? undefined : `${purpose.name} is not open for donations on ${date}`;
+}
@@ -0,0 +1,113 @@
+import { z } from "zod";
+
+// Receipt numbering is driven by a template such as "AAS/{FY}/{SEQ}":
+//   {FY}      Indian financial year of the donation date, e.g. 2026-27
+//   {MODE}    payment mode, e.g. CASH
+//   {PURPOSE} code of the donation's catalog purpose, e.g. EDU; for donations
+//             with a free-text purpose, its upper-cased letters and digits
+//   {SEQ}     running number, zero-padded to `padding` digits
+
+export const resetRules = ["never", "financialYear"] as const;
+export const seriesPartitions = ["none", "paymentMode", "purpose"] as const;
+
+export const receiptSeriesConfigSchema = z.object({
+  template: z.string().trim().min(1, "Template is required")
+    .refine((template) => template.includes("{SEQ}"), "Template must contain {SEQ}"),
+  padding: z.coerce.number().int().min(1, "Padding must be at least 1").max(10, "Padding cannot exceed 10"),
+  startNumber: z.coerce.number().int().min(1, "Start number must be at least 1"),
+  resetRule: z.enum(resetRules),
+  separateBy: z.enum(seriesPartitions),
+})
+  // Each series must render distinct numbers, so the template has to include
+  // whatever distinguishes one series from another
+  .refine((config) => config.resetRule !== "financialYear" || config.template.includes("{FY}"), {
+    message: "Template must contain {FY} when numbering resets each financial year",
+    path: ["template"],
+  })
+  .refine((config) => config.separateBy !== "paymentMode" || config.template.includes("{MODE}"), {
+    message: "Template must contain {MODE} when series are separated by payment mode",
+    path: ["template"],
+  })
+  .refine((config) => config.separateBy !== "purpose" || config.template.includes("{PURPOSE}"), {
+    message: "Template must contain {PURPOSE} when series are separated by purpose",
+    path: ["template"],
+  });
+
+export type ReceiptSeriesConfig = z.infer<typeof receiptSeriesConfigSchema>;
+
+// Matches the plain 1001, 1002, ... numbering used before series were configurable
+export const defaultReceiptSeriesConfig: ReceiptSeriesConfig = {
+  template: "{SEQ}",
+  padding: 1,
+  startNumber: 1001,
+  resetRule: "never",
+  separateBy: "none",
+};
+
+export interface ReceiptSeriesInput {
+  date: string;
+  paymentMode: string;
+  purpose: string;
+  // Code of the catalog purpose, when the donation has one
+  purposeCode?: string | null;
+}
+
+// Indian financial year (April to March) of a YYYY-MM-DD date, e.g. "2026-27"
+export function financialYear(date: string): string {
+  const [year, month] = date.split("-").map((part) => parseInt(part));
+  const startYear = month >= 4 ? year : year - 1;
+  return `${startYear}-${String((startYear + 1) % 100).padStart(2, "0")}`;
+}
+
+// The current financial year followed by the ones before it, most recent first
+export function recentFinancialYears(count: number, today: Date = new Date()): string[] {
+  const current = parseInt(financialYear(today.toISOString().split("T")[0]).slice(0, 4));
+  return Array.from({ length: count }, (_, index) => financialYear(`${current - index}-04-01`));
+}
+
+// A financial year label such as "2026-27", as produced by financialYear()
+export const financialYearSchema = z.string()
+  .regex(/^\d{4}-\d{2}$/, "Financial year must look like 2026-27")
+  .refine((year) => financialYear(`${year.slice(0, 4)}-04-01`) === year, "Invalid financial year");
+
+function purposeCode(input: ReceiptSeriesInput): string {
+  return input.purposeCode || input.purpose.toUpperCase().replace(/[^A-Z0-9]/g, "").slice(0, 12) || "GENERAL";
+}
+
+function partitionValue(config: ReceiptSeriesConfig, input: ReceiptSeriesInput): string {
+  switch (config.separateBy) {
+    case "paymentMode":
+      return input.paymentMode.toLowerCase();
+    case "purpose":
+      return purposeCode(input).toLowerCase();
+    default:
+      return "all";
+  }
+}
+
+// Counter name for the series a donation belongs to
+export function receiptSeriesKey(config: ReceiptSeriesConfig, input: ReceiptSeriesInput): string {
+  const period = config.resetRule === "financialYear" ? financialYear(input.date) : "all";
+  return `receipt:${config.template}:${period}:${partitionValue(config, input)}`;
+}
+
+function renderPrefix(template: string, input: ReceiptSeriesInput): string {
+  return template
+    .replace(/\{FY\}/g, financialYear(input.date))
+    .replace(/\{MODE\}/g, input.paymentMode.toUpperCase())
+    .replace(/\{PURPOSE\}/g, purposeCode(input));
+}
+
+export function formatReceiptNumber(config: ReceiptSeriesConfig, input: ReceiptSeriesInput, sequence: number): string {
+  return renderPrefix(config.template, input)
+    .replace(/\{SEQ\}/g, String(sequence).padStart(config.padding, "0"));
+}
+
+// Extract the running number from a receipt number of the same series, if it belongs to it
+export function parseReceiptSequence(config: ReceiptSeriesConfig, input: ReceiptSeriesInput, receiptNumber: string): number | undefined {
+  const [before, ...rest] = renderPrefix(config.template, input).split("{SEQ}");
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const pattern = new RegExp(`^${escape(before)}(\\d+)${rest.map(escape).join("\\1")}$`);
+  const match = receiptNumber.match(pattern);
+  return match ? parseInt(match[1]) : undefined;
+}
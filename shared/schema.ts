@@ -1,6 +1,8 @@
-import { pgTable, text, serial, integer, boolean, date, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, date, timestamp, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { recordIdSchema, type RecordId } from "./ids";
+import { roles } from "./permissions";
 
 // User schema for authentication
 export const users = pgTable("users", {
@@ -13,13 +15,75 @@ export const users = pgTable("users", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+export const passwordSchema = z.string().min(8, "Password must be at least 8 characters");
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
-  password: true,
   fullName: true,
-  role: true,
+}).extend({
+  password: passwordSchema,
+  // An unknown role would silently grant no permissions at all
+  role: z.enum(roles).optional(),
+});
+
+// One-time password reset tokens; only a hash of the token is stored
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Failed login counters keyed by "user:<username>" or "ip:<address>"
+export const loginAttempts = pgTable("login_attempts", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  failedCount: integer("failed_count").notNull().default(0),
+  lastFailedAt: timestamp("last_failed_at"),
+  lockedUntil: timestamp("locked_until"),
+});
+
+// Application settings managed from the admin panel, stored as JSON by key
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+  updatedBy: text("updated_by"),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Named counters used to allocate receipt numbers atomically
+export const counters = pgTable("counters", {
+  name: text("name").primaryKey(),
+  seq: integer("seq").notNull(),
+});
+
+// Purposes catalog, see shared/purposes.ts. Empty dates mean no limit.
+export const purposes = pgTable("purposes", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(),
+  code: text("code").notNull().unique(),
+  activeFrom: text("active_from").notNull().default(""),
+  activeUntil: text("active_until").notNull().default(""),
+  targetAmount: integer("target_amount").notNull().default(0),
+  eligible80G: boolean("eligible_80g").notNull().default(true),
+});
+
+// Donors, so one person's donations are linked to a single record
+export const donors = pgTable("donors", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  contactNumber: text("contact_number").notNull(),
+  address: text("address").notNull(),
+  email: text("email").notNull(),
+  panNumber: text("pan_number"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("donors_pan_number_idx").on(table.panNumber),
+  index("donors_email_idx").on(table.email),
+]);
+
 // Donations schema for tracking donations
 export const donations = pgTable("donations", {
   id: serial("id").primaryKey(),
@@ -33,16 +97,76 @@ export const donations = pgTable("donations", {
   paymentMode: text("payment_mode").notNull(),
   amount: integer("amount").notNull(),
   amountInWords: text("amount_in_words").notNull(),
+  // Name printed on the receipt; for catalog purposes, the name it had when the donation was entered
   purpose: text("purpose").notNull(),
+  // Entry in the purposes catalog; empty for free-text purposes entered before the catalog existed
+  purposeId: text("purpose_id"),
   instrumentDate: date("instrument_date"),
   drawnOn: text("drawn_on"),
   instrumentNumber: text("instrument_number"),
   createdBy: text("created_by"),
+  // Donations saved before donors were tracked are linked later, so this may be empty
+  donorId: integer("donor_id").references(() => donors.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+  // Set when an admin edits the donation; the receipt is then marked as revised
+  revisedAt: timestamp("revised_at"),
+  revisedBy: text("revised_by"),
+  // Cancelled receipts are kept so their number stays used, but count towards no totals or tax returns
+  cancelledAt: timestamp("cancelled_at"),
+  cancelledBy: text("cancelled_by"),
+  cancellationReason: text("cancellation_reason"),
+  replacementDonationId: integer("replacement_donation_id"),
+}, (table) => [
+  // Behind the donation list's filters and sort orders
+  index("donations_date_idx").on(table.date, table.id),
+  index("donations_created_by_idx").on(table.createdBy, table.date),
+  index("donations_donor_id_idx").on(table.donorId),
+  index("donations_purpose_id_idx").on(table.purposeId),
+]);
+
+export interface DonationFieldChange {
+  field: string;
+  oldValue: string | number | null;
+  newValue: string | number | null;
+}
+
+// Append-only history of edits to a donation; rows are never updated or deleted
+export const donationRevisions = pgTable("donation_revisions", {
+  id: serial("id").primaryKey(),
+  donationId: integer("donation_id").notNull().references(() => donations.id),
+  changedBy: text("changed_by").notNull(),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+  reason: text("reason"),
+  changes: jsonb("changes").$type<DonationFieldChange[]>().notNull(),
+}, (table) => [
+  index("donation_revisions_donation_id_idx").on(table.donationId, table.id),
+]);
+
+// Append-only record of every change made through the API; rows are never updated or deleted
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  action: text("action").notNull(),
+  // Username of the signed-in user, or of the account acted on for sign-in and reset flows
+  actor: text("actor"),
+  targetType: text("target_type").notNull(),
+  targetId: text("target_id"),
+  before: jsonb("before"),
+  after: jsonb("after"),
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("audit_log_action_idx").on(table.action, table.id),
+  index("audit_log_actor_idx").on(table.actor, table.id),
+  index("audit_log_target_idx").on(table.targetType, table.targetId, table.id),
+]);
+
+// Receipt numbers and tax years are derived from the date, so it must be a real calendar day
+const isoDate = z.string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Use the format YYYY-MM-DD")
+  .refine((value) => !isNaN(Date.parse(value)) && new Date(value).toISOString().startsWith(value), "Invalid date");
 
+// Receipt numbers are allocated by the server when the donation is saved
 export const insertDonationSchema = createInsertSchema(donations).pick({
-  receiptNumber: true,
   date: true,
   donorName: true,
   contactNumber: true,
@@ -53,10 +177,34 @@ export const insertDonationSchema = createInsertSchema(donations).pick({
   amount: true,
   amountInWords: true,
   purpose: true,
+  purposeId: true,
   instrumentDate: true,
   drawnOn: true,
   instrumentNumber: true,
   createdBy: true,
+}).extend({
+  date: isoDate,
+  // Left empty for payment modes without a cheque or draft
+  instrumentDate: isoDate.or(z.literal("")).nullish(),
+});
+
+// Fields an admin may correct after submission; the receipt number and creator never change
+export const updateDonationSchema = insertDonationSchema.omit({ createdBy: true }).partial().extend({
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const cancelDonationSchema = z.object({
+  reason: z.string().trim().min(1, "A reason for cancelling is required").max(500),
+  // Receipt issued in place of the cancelled one, if any
+  replacementReceiptNumber: z.string().trim().optional(),
+});
+
+export const mergeDonorsSchema = z.object({
+  targetId: recordIdSchema,
+  sourceIds: z.array(recordIdSchema).min(1, "Select at least one donor to merge"),
+}).refine((data) => !data.sourceIds.includes(data.targetId), {
+  message: "A donor cannot be merged into itself",
+  path: ["sourceIds"],
 });
 
 export const loginSchema = z.object({
@@ -64,8 +212,49 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Password is required"),
 });
 
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema,
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  newPassword: passwordSchema,
+});
+
+// Creates the initial admin account on first run
+export const setupAdminSchema = z.object({
+  username: z.string().email("Please enter a valid email address"),
+  fullName: z.string().min(1, "Full name is required"),
+  password: passwordSchema,
+  setupToken: z.string().optional(),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
+// Serial ids in PostgreSQL are exposed as opaque strings like those of every other backend
+export type User = Omit<typeof users.$inferSelect, "id"> & { id: RecordId };
 export type InsertDonation = z.infer<typeof insertDonationSchema>;
-export type Donation = typeof donations.$inferSelect;
+export type Donation = Omit<typeof donations.$inferSelect, "id" | "donorId" | "replacementDonationId"> & {
+  id: RecordId;
+  donorId: RecordId | null;
+  replacementDonationId: RecordId | null;
+};
+export type NewDonation = InsertDonation & { receiptNumber: string; donorId?: RecordId | null };
+export type UpdateDonationInput = z.infer<typeof updateDonationSchema>;
+export type CancelDonationInput = z.infer<typeof cancelDonationSchema>;
+export type DonationCancellation = Pick<Donation, "cancelledAt" | "cancelledBy" | "cancellationReason" | "replacementDonationId">;
+export type DonationRevision = Omit<typeof donationRevisions.$inferSelect, "donationId"> & { donationId: RecordId };
+export type InsertDonationRevision = Omit<DonationRevision, "id">;
+export type Donor = Omit<typeof donors.$inferSelect, "id"> & { id: RecordId };
+export type InsertDonor = Pick<Donor, "name" | "contactNumber" | "address" | "email" | "panNumber">;
+export type MergeDonorsInput = z.infer<typeof mergeDonorsSchema>;
 export type LoginCredentials = z.infer<typeof loginSchema>;
+export type PasswordResetToken = Omit<typeof passwordResetTokens.$inferSelect, "id"> & { id: RecordId };
+export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
+export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type SetupAdminInput = z.infer<typeof setupAdminSchema>;
+export type LoginAttempt = Omit<typeof loginAttempts.$inferSelect, "id"> & { id: RecordId };
+export type InsertLoginAttempt = Omit<typeof loginAttempts.$inferInsert, "id">;
+export type Setting = typeof settings.$inferSelect;
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = Omit<AuditLogEntry, "id">;
@@ -0,0 +1,27 @@
+// Report returned by GET /api/health
+
+export interface StorageFailure {
+  at: string;
+  // Left out for callers who are not signed in
+  message?: string;
+}
+
+export interface StorageHealth {
+  // "degraded" while writes go to the local fallback journal instead of the database;
+  // "migration_failed" when the database answers but could not be brought up to date
+  // for this version of the app, so the journal is used until an admin fixes the data
+  status: "ok" | "degraded" | "migration_failed";
+  // Store currently serving requests: the configured database driver or "journal"
+  backend: string;
+  // Configured database driver, e.g. "mongodb" or "postgres"
+  primary: string;
+  usingFallback: boolean;
+  // When the current backend took over
+  activeSince: string;
+  // Round trip of the last health check, null when the database did not answer
+  latencyMs: number | null;
+  lastCheckedAt: string | null;
+  lastFailure: StorageFailure | null;
+  // Writes kept in the journal that have not yet been copied into the database
+  pendingWrites: number;
+}